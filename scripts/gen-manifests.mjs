@@ -29,6 +29,12 @@ async function listFiles(dir) {
   } catch { return []; }
 }
 
+async function readJSON(fp) {
+  try {
+    return JSON.parse(await fs.readFile(fp, "utf8"));
+  } catch { return null; }
+}
+
 function pickFBX(files) {
   const fbx = files.filter(f => /\.fbx$/i.test(f));
   const exact = fbx.find(f => /^export\.fbx$/i.test(f));
@@ -40,9 +46,30 @@ function pickExcel(files) {
   return pref || x[0] || null;
 }
 
+function pickVideo(files) {
+  const v = files.filter(f => /\.(mp4|webm)$/i.test(f));
+  return v.find(f => /side/i.test(f)) || v[0] || null;
+}
+
+function pickReports(files) {
+  return files.filter(f => /\.pdf$/i.test(f)).sort();
+}
+
+// date shown for a report: one in the file name, else the session's, else when the file was last written
+async function reportDate(sessionPath, session, file) {
+  const m = /(\d{4})[-_](\d{2})[-_](\d{2})/.exec(file);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  if (isDateLike(session)) return session;
+  try {
+    return (await fs.stat(path.join(sessionPath, file))).mtime.toISOString().slice(0, 10);
+  } catch { return null; }
+}
+
 async function buildManifestForPlayer(playerDirName) {
   const playerPath = path.join(DATA_DIR, playerDirName);
   const sessionDirs = (await listDirs(playerPath)).sort(byDate);
+  // time alignments and video offsets are set in the app (admin), not derived from files: carry them over
+  const previous = await readJSON(path.join(playerPath, "index.json"));
 
   if (sessionDirs.length === 0) {
     return {
@@ -65,11 +92,13 @@ async function buildManifestForPlayer(playerDirName) {
     const files = await listFiles(sp);
     const fbx = pickFBX(files);
     const excel = pickExcel(files);
+    const video = pickVideo(files);
+    const reports = pickReports(files);
 
     if (!firstFiles.fbx && fbx) firstFiles.fbx = fbx;
     if (!firstFiles.excel && excel) firstFiles.excel = excel;
 
-    filesPerSession[session] = { fbx, excel };
+    filesPerSession[session] = { fbx, excel, video, reports };
   }
 
   const defaultFBX = firstFiles.fbx || "EXPORT.fbx";
@@ -77,13 +106,40 @@ async function buildManifestForPlayer(playerDirName) {
 
   const overrides = {};
   for (const s of sessionDirs) {
-    const { fbx, excel } = filesPerSession[s];
+    const { fbx, excel, video } = filesPerSession[s];
     const o = {};
     if (fbx && fbx !== defaultFBX) o.fbx = fbx;
     if (excel && excel !== defaultExcel) o.excel = excel;
+    // videos are optional, so there's no player-wide default to fall back on
+    if (video) o.video = video;
     if (Object.keys(o).length) overrides[s] = o;
   }
 
+  const alignment = {};
+  for (const s of sessionDirs) {
+    const a = previous?.alignment?.[s];
+    if (a && Number.isFinite(a.offset) && Number.isFinite(a.rate)) alignment[s] = { offset: a.offset, rate: a.rate };
+  }
+
+  const videoOffset = {};
+  for (const s of sessionDirs) {
+    const o = previous?.videoOffset?.[s];
+    if (filesPerSession[s].video && Number.isFinite(o)) videoOffset[s] = o;
+  }
+
+  // titles can be written into index.json by hand: keep them for files still there
+  const reports = {};
+  for (const s of sessionDirs) {
+    const list = [];
+    for (const file of filesPerSession[s].reports) {
+      const entry = { file, date: await reportDate(path.join(playerPath, s), s, file) };
+      const title = previous?.reports?.[s]?.find?.(r => r?.file === file)?.title;
+      if (typeof title === "string" && title) entry.title = title;
+      list.push(entry);
+    }
+    if (list.length) reports[s] = list;
+  }
+
   const manifest = {
     player: playerDirName,
     sessions: sessionDirs,
@@ -91,6 +147,9 @@ async function buildManifestForPlayer(playerDirName) {
     fbx: defaultFBX,
     excel: defaultExcel,
     ...(Object.keys(overrides).length ? { files: overrides } : {}),
+    ...(Object.keys(alignment).length ? { alignment } : {}),
+    ...(Object.keys(videoOffset).length ? { videoOffset } : {}),
+    ...(Object.keys(reports).length ? { reports } : {}),
   };
 
   return { manifest, path: path.join(playerPath, "index.json") };
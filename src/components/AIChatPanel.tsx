@@ -0,0 +1,235 @@
+// src/components/AIChatPanel.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import CustomSelect from "./CustomSelect";
+import { availableProviders, isAbortError, offlineProvider } from "../utils/ai";
+import type { ChatMessage } from "../utils/ai";
+import { askSession, offlineAnswer } from "../utils/qa";
+import type { QAStep } from "../utils/qa";
+import type { QueryContext } from "../utils/dataQuery";
+
+type Props = {
+  /** the loaded session's data, or null when nothing is loaded */
+  context: QueryContext | null;
+  /** Excel seconds, from an answer's time link */
+  onSeek: (tExcel: number) => void;
+  /** query channel id, from an answer's channel link */
+  onShowChannel: (id: string) => void;
+  style?: React.CSSProperties;
+};
+
+type Turn = { role: "user" | "assistant"; content: string; steps?: QAStep[]; error?: boolean };
+
+const SUGGESTIONS = [
+  "When did the left knee hit peak velocity relative to foot plant?",
+  "Did the pelvis rotation velocity peak before the shoulder rotation velocity?",
+  "What was the lead knee flexion at foot plant?",
+  "Show me the metrics",
+];
+// only offered while a compare session is loaded
+const COMPARE_SUGGESTION = "How did the pelvis speed at foot plant change from the other session?";
+
+/** `**bold**` and `[text](#t=…)` / `[text](#channel=…)` links; anything else as text. */
+function Inline({ text, onLink }: { text: string; onLink: (href: string) => void }) {
+  const parts: React.ReactNode[] = [];
+  const re = /\*\*([^*]+)\*\*|\[([^\]]+)\]\((#[^)]+)\)/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (m.index > last) parts.push(text.slice(last, m.index));
+    if (m[1] != null) {
+      parts.push(<strong key={m.index}>{m[1]}</strong>);
+    } else {
+      const href = m[3];
+      parts.push(
+        <button key={m.index} className="chat-link" onClick={() => onLink(href)}>
+          {m[2]}
+        </button>
+      );
+    }
+    last = re.lastIndex;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+/** Paragraphs and `-` bullets, which is all the answers use. */
+function Answer({ text, onLink }: { text: string; onLink: (href: string) => void }) {
+  const blocks = text.split(/\n{2,}/);
+  return (
+    <>
+      {blocks.map((block, i) => {
+        const lines = block.split("\n").filter((l) => l.trim());
+        if (lines.length && lines.every((l) => /^\s*[-*] /.test(l))) {
+          return (
+            <ul key={i}>
+              {lines.map((l, j) => (
+                <li key={j}>
+                  <Inline text={l.replace(/^\s*[-*] /, "")} onLink={onLink} />
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        return (
+          <p key={i}>
+            <Inline text={lines.join(" ")} onLink={onLink} />
+          </p>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Floating panel for questions about the loaded session. Answers come from
+ * the data (see utils/qa) and link to the moments and channels they quote:
+ * a time moves the playhead, a channel is added to the main graph.
+ */
+export default function AIChatPanel({ context, onSeek, onShowChannel, style }: Props) {
+  const providers = useMemo(() => availableProviders({ ...offlineProvider(offlineAnswer), label: "Offline (rule-based)" }), []);
+  const [providerId, setProviderId] = useState<string>(providers[0].id);
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [input, setInput] = useState("");
+  const [busy, setBusy] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  // a new session starts a new conversation
+  const sets = context?.sets;
+  useEffect(() => {
+    abortRef.current?.abort();
+    setTurns([]);
+  }, [sets]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [turns, busy]);
+
+  const onLink = (href: string) => {
+    const [kind, value = ""] = href.slice(1).split("=", 2);
+    if (kind === "t" && Number.isFinite(Number(value))) onSeek(Number(value));
+    if (kind === "channel") {
+      try {
+        onShowChannel(decodeURIComponent(value));
+      } catch {
+        onShowChannel(value);
+      }
+    }
+  };
+
+  const ask = async (question: string) => {
+    const q = question.trim();
+    if (!q || !context || busy) return;
+    const provider = providers.find((p) => p.id === providerId) ?? providers[0];
+    const history: ChatMessage[] = turns.filter((t) => !t.error).map((t) => ({ role: t.role, content: t.content }));
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setTurns((prev) => [...prev, { role: "user", content: q }]);
+    setInput("");
+    setBusy(true);
+    try {
+      const { answer, steps } = await askSession(provider, context, history, q, { signal: abort.signal });
+      if (!abort.signal.aborted) setTurns((prev) => [...prev, { role: "assistant", content: answer, steps }]);
+    } catch (e) {
+      if (!isAbortError(e) && !abort.signal.aborted) {
+        setTurns((prev) => [...prev, { role: "assistant", content: e instanceof Error ? e.message : String(e), error: true }]);
+      }
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 340, ...style }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Ask about this session</span>
+        {turns.length > 0 && (
+          <button className="btn ghost" style={{ padding: "2px 8px" }} onClick={() => setTurns([])} disabled={busy}>
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Model</span>
+        <CustomSelect
+          value={providerId}
+          onChange={setProviderId}
+          options={providers.map((p) => ({ value: p.id, label: p.label }))}
+          disabled={busy}
+        />
+      </div>
+
+      <div ref={scrollRef} className="chat-log">
+        {!turns.length && (
+          <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+            <span className="small">{context ? "For example:" : "Load a session to ask about it."}</span>
+            {context &&
+              [...SUGGESTIONS, ...(context.other ? [COMPARE_SUGGESTION] : [])].map((s) => (
+                <button key={s} className="chat-suggestion" onClick={() => ask(s)}>
+                  {s}
+                </button>
+              ))}
+          </div>
+        )}
+        {turns.map((t, i) =>
+          t.role === "user" ? (
+            <div key={i} className="chat-turn user">
+              {t.content}
+            </div>
+          ) : (
+            <div key={i} className={t.error ? "chat-turn error" : "chat-turn"}>
+              <Answer text={t.content} onLink={onLink} />
+              {!!t.steps?.length && (
+                <details className="small">
+                  <summary>
+                    {t.steps.reduce((n, s) => n + s.calls.length, 0)} lookup
+                    {t.steps.reduce((n, s) => n + s.calls.length, 0) === 1 ? "" : "s"}
+                  </summary>
+                  {t.steps.flatMap((s, j) =>
+                    s.calls.map((c, k) => (
+                      <code key={`${j}:${k}`} className="chat-call">
+                        {c.tool}({JSON.stringify(c.args ?? {})})
+                      </code>
+                    ))
+                  )}
+                </details>
+              )}
+            </div>
+          )
+        )}
+        {busy && <span className="small">Looking it up…</span>}
+      </div>
+
+      <form
+        style={{ display: "flex", gap: 6 }}
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(input);
+        }}
+      >
+        <input
+          className="chat-input"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={context ? "Ask a question…" : "No session loaded"}
+          disabled={!context}
+        />
+        {busy ? (
+          <button type="button" className="btn ghost" onClick={() => abortRef.current?.abort()}>
+            Stop
+          </button>
+        ) : (
+          <button type="submit" className="btn primary" disabled={!context || !input.trim()}>
+            Ask
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
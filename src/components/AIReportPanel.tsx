@@ -0,0 +1,205 @@
+// src/components/AIReportPanel.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import CustomSelect from "./CustomSelect";
+import { availableProviders, isAbortError } from "../utils/ai";
+import { loadSessionSummary } from "../utils/progress";
+import { fetchDataUrl, generateReport, renderReportPdf } from "../utils/report";
+import type { PreviousSession, ReportChart, ReportInput, ReportSnapshot } from "../utils/report";
+
+type Props = {
+  input: ReportInput;
+  /** logo for the PDF header */
+  logoUrl?: string;
+  /** charts for the PDF */
+  charts?: ReportChart[];
+  /** the player's session before this one, compared against in the report */
+  previousSession?: { session: string; excel: string } | null;
+  /** the 3D view at each event; absent when there is nothing to capture */
+  captureSnapshots?: () => Promise<ReportSnapshot[]>;
+  onClose: () => void;
+};
+
+function download(blob: Blob, name: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 800);
+  a.remove();
+}
+
+/**
+ * Written report for the session on screen: the metrics go to the chosen
+ * language model, the answer can be edited here, then saved as markdown or
+ * laid out as a PDF.
+ */
+export default function AIReportPanel({ input, logoUrl, charts, previousSession, captureSnapshots, onClose }: Props) {
+  const providers = useMemo(() => availableProviders(), []);
+  const [providerId, setProviderId] = useState<string>(providers[0].id);
+  const [markdown, setMarkdown] = useState("");
+  const [busy, setBusy] = useState<"writing" | "pdf" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [previous, setPrevious] = useState<PreviousSession | null>(null);
+  const [withPoses, setWithPoses] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    setPrevious(null);
+    if (!previousSession) return;
+    let cancelled = false;
+    loadSessionSummary(previousSession.excel)
+      .then(({ metrics }) => {
+        if (!cancelled) setPrevious({ session: previousSession.session, metrics });
+      })
+      // the report is still worth writing without the comparison
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [previousSession]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const fileBase = `${input.player}_${input.session}_report`.replace(/\s+/g, "_");
+  const offline = providerId === "offline";
+
+  const write = async () => {
+    const provider = providers.find((p) => p.id === providerId) ?? providers[0];
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setBusy("writing");
+    setError(null);
+    try {
+      setMarkdown(await generateReport(provider, { ...input, previous }, { signal: abort.signal }));
+    } catch (e) {
+      if (!isAbortError(e)) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (abortRef.current === abort) abortRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const savePdf = async () => {
+    setBusy("pdf");
+    setError(null);
+    try {
+      const snapshots = withPoses && captureSnapshots ? await captureSnapshots() : [];
+      const logo = logoUrl ? await fetchDataUrl(logoUrl) : undefined;
+      const blob = await renderReportPdf({
+        markdown,
+        player: input.player,
+        session: input.session,
+        movement: input.movement,
+        logo,
+        metrics: input.metrics,
+        previous,
+        charts,
+        snapshots,
+      });
+      download(blob, `${fileBase}.pdf`);
+    } catch (e) {
+      setError(`PDF failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setError("Could not copy to the clipboard");
+    }
+  };
+
+  return (
+    <div className="dashboard-backdrop" onClick={onClose}>
+      <div className="panel-wrap dashboard report-dialog" onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span style={{ color: "var(--text)", fontSize: 16, fontWeight: 700 }}>{input.player} · AI Report</span>
+            <span className="small">
+              {input.session} · {input.metrics.length} metrics
+              {previous ? ` · compared with ${previous.session}` : previousSession ? " · loading previous session…" : ""}
+            </span>
+          </div>
+          <button className="btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+          <div className="ctrl">
+            <span className="label">Model</span>
+            <CustomSelect
+              value={providerId}
+              onChange={setProviderId}
+              options={providers.map((p) => ({ value: p.id, label: p.label }))}
+              disabled={busy != null}
+            />
+          </div>
+          {busy === "writing" ? (
+            <button className="btn ghost" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </button>
+          ) : (
+            <button className="btn primary" onClick={write} disabled={busy != null}>
+              {markdown ? "Rewrite" : "Write report"}
+            </button>
+          )}
+          {busy === "writing" && <span className="small">Writing…</span>}
+        </div>
+        {offline && (
+          <span className="small">
+            No model is called offline: the report lists the session's measured facts, ready to edit. Set an API key
+            in <code>.env</code> to get written analysis.
+          </span>
+        )}
+
+        <textarea
+          className="report-text"
+          value={markdown}
+          onChange={(e) => setMarkdown(e.target.value)}
+          placeholder="The report appears here, in markdown, and can be edited before saving."
+          spellCheck
+        />
+
+        {error && <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>{error}</span>}
+
+        <div style={{ display: "flex", gap: 6, justifyContent: "flex-end", alignItems: "center" }}>
+          {captureSnapshots && (
+            <label className="toggle" style={{ marginRight: "auto" }} title="Pose the 3D view at each event and add the pictures to the PDF">
+              <input type="checkbox" checked={withPoses} onChange={(e) => setWithPoses(e.target.checked)} disabled={busy != null} />
+              <span>Pose snapshots</span>
+            </label>
+          )}
+          <button className="btn ghost" onClick={copy} disabled={!markdown}>
+            {copied ? "Copied" : "Copy"}
+          </button>
+          <button
+            className="btn"
+            onClick={() => download(new Blob([markdown], { type: "text/markdown" }), `${fileBase}.md`)}
+            disabled={!markdown}
+          >
+            Markdown
+          </button>
+          <button className="btn primary" onClick={savePdf} disabled={!markdown || busy != null}>
+            {busy === "pdf" ? "Laying out…" : "Download PDF"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+// src/components/AlignmentControls.tsx
+import React from "react";
+import type { TimeAlignment } from "../utils/timeAlign";
+
+/** Where the alignment on screen comes from. */
+export type AlignmentSource = "manifest" | "draft" | "stretch";
+
+type Props = {
+  alignment: TimeAlignment;
+  source: AlignmentSource;
+  /** one frame of the FBX clip (s), the offset nudge unit */
+  frame: number;
+  onChange: (alignment: TimeAlignment) => void;
+  /** cross-correlate rig and data; null when unavailable (no rig or no matching joints) */
+  onAuto: (() => void) | null;
+  /** correlation of the last auto estimate */
+  autoScore: number | null;
+  /** drop the draft, back to the manifest (or the stretch fallback) */
+  onReset: () => void;
+  /** download the player manifest with the drafts merged in; absent for uploaded files */
+  onExport?: () => void;
+  style?: React.CSSProperties;
+};
+
+const SOURCE_LABEL: Record<AlignmentSource, string> = {
+  manifest: "Saved in the player manifest",
+  draft: "Unsaved — export the manifest to keep it",
+  stretch: "Not aligned — Excel stretched over the clip",
+};
+
+function Nudge({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button className="btn ghost" onClick={onClick} style={{ padding: "2px 6px", minWidth: 34 }}>
+      {label}
+    </button>
+  );
+}
+
+/** Floating panel to estimate and nudge the Excel ↔ FBX time alignment of a session. */
+export default function AlignmentControls({
+  alignment,
+  source,
+  frame,
+  onChange,
+  onAuto,
+  autoScore,
+  onReset,
+  onExport,
+  style,
+}: Props) {
+  const shift = (frames: number) => onChange({ ...alignment, offset: alignment.offset + frames * frame });
+  const scale = (pct: number) => onChange({ ...alignment, rate: alignment.rate * (1 + pct / 100) });
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Time alignment</span>
+        <button
+          className="btn"
+          onClick={onAuto ?? undefined}
+          disabled={!onAuto}
+          title="Cross-correlate joint motion in the rig and the Excel data"
+        >
+          Auto
+        </button>
+      </div>
+      <span className="small">{SOURCE_LABEL[source]}</span>
+
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label" style={{ minWidth: 44 }}>Offset</span>
+        <Nudge label="−10" onClick={() => shift(-10)} />
+        <Nudge label="−1" onClick={() => shift(-1)} />
+        <span className="small" style={{ minWidth: 56, textAlign: "center" }}>
+          {(alignment.offset * 1000).toFixed(0)} ms
+        </span>
+        <Nudge label="+1" onClick={() => shift(1)} />
+        <Nudge label="+10" onClick={() => shift(10)} />
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label" style={{ minWidth: 44 }}>Rate</span>
+        <Nudge label="−1%" onClick={() => scale(-1)} />
+        <Nudge label="−0.1%" onClick={() => scale(-0.1)} />
+        <span className="small" style={{ minWidth: 56, textAlign: "center" }}>×{alignment.rate.toFixed(3)}</span>
+        <Nudge label="+0.1%" onClick={() => scale(0.1)} />
+        <Nudge label="+1%" onClick={() => scale(1)} />
+      </div>
+      <span className="small">Offset steps are FBX frames. FBX time = offset + rate × Excel time.</span>
+
+      {autoScore != null && (
+        <span className="small" style={autoScore < 0.5 ? { color: "#f5c542", opacity: 1 } : undefined}>
+          Auto match: {autoScore.toFixed(2)}
+          {autoScore < 0.5 && " — weak, check by eye"}
+        </span>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <button className="btn ghost" onClick={onReset} disabled={source !== "draft"}>
+          Reset
+        </button>
+        {onExport && (
+          <button className="btn primary" onClick={onExport} title="Download index.json for public/data/<player>/">
+            Export manifest
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
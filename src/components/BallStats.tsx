@@ -0,0 +1,61 @@
+// src/components/BallStats.tsx
+import React from "react";
+import { toMph } from "../utils/ballFlight";
+import type { BallFlight } from "../utils/ballFlight";
+
+type Props = {
+  flight: BallFlight;
+  /** jump the playhead to launch (Excel seconds) */
+  onSeekLaunch?: (t: number) => void;
+  style?: React.CSSProperties;
+};
+
+function Stat({ label, value, unit }: { label: string; value: string; unit?: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+      <span className="small">{label}</span>
+      <span style={{ color: "var(--text)", fontSize: 18, fontWeight: 700 }}>
+        {value}
+        {unit && <span className="small" style={{ marginLeft: 4 }}>{unit}</span>}
+      </span>
+    </div>
+  );
+}
+
+/** Release/exit speed and launch angle of the tracked ball. */
+export default function BallStats({ flight, onSeekLaunch, style }: Props) {
+  const { launch } = flight;
+  const speedLabel = launch?.kind === "exit" ? "Exit speed" : "Release speed";
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 260, ...style }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Ball</span>
+        {launch && onSeekLaunch && (
+          <button className="btn ghost" onClick={() => onSeekLaunch(launch.t)}>
+            Go to {launch.kind}
+          </button>
+        )}
+      </div>
+
+      {launch ? (
+        <div style={{ display: "flex", gap: 18 }}>
+          <Stat label={speedLabel} value={toMph(launch.speed).toFixed(1)} unit="mph" />
+          <Stat label="Launch angle" value={`${launch.launchAngle.toFixed(1)}°`} />
+        </div>
+      ) : (
+        <span className="small">
+          The ball track doesn't show a clean {speedLabel.toLowerCase()} for this rep.
+        </span>
+      )}
+      {flight.clock === "launch" && (
+        <span className="small" title="The ball sheet only covers the flight, so its launch was placed on the detected contact/release">
+          Timed from detected {launch?.kind ?? "release"}
+        </span>
+      )}
+    </div>
+  );
+}
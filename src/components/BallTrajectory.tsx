@@ -0,0 +1,66 @@
+// src/components/BallTrajectory.tsx
+import * as THREE from "three";
+import { Line } from "@react-three/drei";
+import MotionTrail from "./MotionTrail";
+import { trackAt } from "../utils/rig";
+import type { Track } from "../utils/rig";
+
+/** Metres drawn per m/s of velocity (a 30 m/s ball gets a 0.6 m arrow). */
+const ARROW_SCALE = 0.02;
+const BALL_RADIUS = 0.037;
+const UP = new THREE.Vector3(0, 1, 0);
+
+type Vec3 = [number, number, number];
+
+function VelocityArrow({ from, velocity, color }: { from: Vec3; velocity: Vec3; color: string }) {
+  const v = new THREE.Vector3(...velocity);
+  const to: Vec3 = [from[0] + v.x * ARROW_SCALE, from[1] + v.y * ARROW_SCALE, from[2] + v.z * ARROW_SCALE];
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(UP, v.normalize());
+
+  return (
+    <group>
+      <Line points={[from, to]} color={color} lineWidth={2} />
+      <mesh position={to} quaternion={quaternion}>
+        <coneGeometry args={[0.025, 0.07, 12]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+    </group>
+  );
+}
+
+type Props = {
+  /** ball centre and velocity (scene space, FBX clock) */
+  position: Track;
+  velocity: Track;
+  time: number;
+  /** trail window (s) */
+  before: number;
+  after: number;
+  /** where the ball left the hand / bat and its launch velocity */
+  launch?: { point: Vec3; velocity: Vec3 } | null;
+};
+
+/**
+ * The tracked ball: a ball at the playhead with its velocity arrow, the path
+ * around it, and a fixed arrow at launch.
+ */
+export default function BallTrajectory({ position, velocity, time, before, after, launch }: Props) {
+  const p = trackAt(position, time);
+  const v = trackAt(velocity, time);
+  const visible = !!p && p.every(Number.isFinite);
+  const moving = visible && !!v && v.every(Number.isFinite) && Math.hypot(...v) > 1;
+
+  return (
+    <group>
+      <MotionTrail track={position} time={time} before={before} after={after} color="#f5f5f5" lineWidth={2} />
+      {visible && (
+        <mesh position={p!} castShadow>
+          <sphereGeometry args={[BALL_RADIUS, 20, 20]} />
+          <meshStandardMaterial color="#f7f4ec" roughness={0.6} />
+        </mesh>
+      )}
+      {moving && <VelocityArrow from={p!} velocity={v!} color="#f5c542" />}
+      {launch && <VelocityArrow from={launch.point} velocity={launch.velocity} color="#ff6b6b" />}
+    </group>
+  );
+}
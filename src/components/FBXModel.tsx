@@ -1,7 +1,14 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useFrame } from "@react-three/fiber";
 import { useFBX } from "@react-three/drei";
 import * as THREE from "three";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import { findPelvisBone, listBones, sampleRig } from "../utils/rig";
+import type { RigHandle } from "../utils/rig";
+import { clipFrameRate } from "../utils/frameRate";
+
+// stable defaults so the setup effect doesn't re-run on every render
+const ORIGIN: [number, number, number] = [0, 0, 0];
 
 // Component to render orange spheres at bone vertices
 function BoneVertices({ fbx }: { fbx: THREE.Group }) {
@@ -155,11 +162,17 @@ function ProceduralSkeleton({ fbx }: { fbx: THREE.Group }) {
 export default function FBXModel({
   url,
   scale = 0.01,
-  position = [0, 0, 0] as [number, number, number],
-  rotation = [0, 0, 0] as [number, number, number],
+  position = ORIGIN,
+  rotation = ORIGIN,
   time = 0,                          // absolute time (seconds)
   displayMode = "normal",
   onReadyDuration,
+  clone = false,
+  ghostOpacity,
+  ghostColor = "#8fd3ff",
+  pelvisOut,
+  pelvisAnchor,
+  onRig,
 }: {
   url: string | null;
   scale?: number;
@@ -168,12 +181,32 @@ export default function FBXModel({
   time?: number;
   displayMode?: "normal" | "stick";
   onReadyDuration?: (duration: number) => void;
+  /** render a private copy of the rig (useFBX caches one object per URL) */
+  clone?: boolean;
+  /** draw as a translucent, flat-tinted ghost (onion skin) */
+  ghostOpacity?: number;
+  ghostColor?: string;
+  /** receives this rig's pelvis world position every frame */
+  pelvisOut?: React.MutableRefObject<THREE.Vector3 | null>;
+  /** when set, the rig is shifted (xz) so its pelvis sits on this point plus `position` */
+  pelvisAnchor?: React.MutableRefObject<THREE.Vector3 | null> | null;
+  /** bone list + track sampler, once the clip is ready */
+  onRig?: (rig: RigHandle) => void;
 }) {
-  const fbx = url ? useFBX(url) : null;
+  const source = url ? useFBX(url) : null;
+  const fbx = useMemo(() => {
+    if (!source || !clone) return source;
+    const copy = cloneSkinned(source) as THREE.Group;
+    copy.animations = source.animations;
+    return copy;
+  }, [source, clone]);
 
   const mixerRef = useRef<THREE.AnimationMixer | null>(null);
   const actionRef = useRef<THREE.AnimationAction | null>(null);
   const durationRef = useRef<number>(0);
+  const pelvisRef = useRef<THREE.Object3D | null>(null);
+  const pelvisPos = useRef(new THREE.Vector3());
+  const isGhost = ghostOpacity != null;
 
   useEffect(() => {
     if (!fbx) return;
@@ -181,7 +214,7 @@ export default function FBXModel({
     // Ensure meshes are visible and have reasonable materials
     fbx.traverse((obj: any) => {
       if (obj.isMesh) {
-        obj.castShadow = true;
+        obj.castShadow = !isGhost;
         obj.receiveShadow = true;
 
         // If the imported material is unlit/black, use a neutral PBR fallback
@@ -217,6 +250,8 @@ export default function FBXModel({
       }
     });
 
+    pelvisRef.current = findPelvisBone(fbx);
+
     fbx.scale.setScalar(scale);
     fbx.position.set(position[0], position[1], position[2]);
     fbx.rotation.set(rotation[0], rotation[1], rotation[2]);
@@ -236,6 +271,12 @@ export default function FBXModel({
       actionRef.current = action;
 
       onReadyDuration?.(clip.duration);
+      onRig?.({
+        bones: listBones(fbx).map((b) => b.name),
+        duration: clip.duration,
+        fps: clipFrameRate(clip),
+        sample: (names, fps) => sampleRig(fbx, mixer, names, clip.duration, fps),
+      });
     } else {
       mixerRef.current = null;
       actionRef.current = null;
@@ -251,7 +292,29 @@ export default function FBXModel({
       mixerRef.current = null;
       durationRef.current = 0;
     };
-  }, [fbx, scale, position, rotation, displayMode, onReadyDuration]);
+  }, [fbx, scale, position, rotation, displayMode, onReadyDuration, onRig, isGhost]);
+
+  // Ghost look: one shared translucent material replaces the rig's own
+  // (a cloned rig still shares materials with the cached original).
+  useEffect(() => {
+    if (!fbx || ghostOpacity == null) return;
+    const mat = new THREE.MeshStandardMaterial({
+      color: new THREE.Color(ghostColor),
+      transparent: true,
+      opacity: ghostOpacity,
+      depthWrite: false,
+      roughness: 0.6,
+      metalness: 0,
+    });
+    fbx.traverse((obj) => {
+      const mesh = obj as THREE.Mesh;
+      if (mesh.isMesh) {
+        mesh.material = mat;
+        mesh.castShadow = false;
+      }
+    });
+    return () => mat.dispose();
+  }, [fbx, ghostOpacity, ghostColor]);
 
 
   // Drive to exact time (scrub/play controlled by parent)
@@ -263,6 +326,23 @@ export default function FBXModel({
 
     const t = dur > 0 ? (time % dur + dur) % dur : 0;
     mixer.setTime(t);
+
+    const pelvis = pelvisRef.current;
+    if (!fbx || !pelvis) return;
+
+    const anchor = pelvisAnchor?.current;
+    if (anchor) {
+      fbx.position.set(position[0], position[1], position[2]);
+      fbx.updateMatrixWorld(true);
+      pelvis.getWorldPosition(pelvisPos.current);
+      fbx.position.x += anchor.x - pelvisPos.current.x + position[0];
+      fbx.position.z += anchor.z - pelvisPos.current.z + position[2];
+    }
+
+    if (pelvisOut) {
+      fbx.updateMatrixWorld(true);
+      pelvisOut.current = pelvis.getWorldPosition(pelvisOut.current ?? new THREE.Vector3());
+    }
   });
 
   if (!fbx) return null;
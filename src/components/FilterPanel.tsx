@@ -0,0 +1,135 @@
+// src/components/FilterPanel.tsx
+import React from "react";
+import CustomSelect from "./CustomSelect";
+import { DEFAULT_FILTERS, NO_PROCESSING } from "../utils/filters";
+import type { ChannelProcessing, FilterKind, FilterSpec } from "../utils/filters";
+
+type Props = {
+  /** channels currently on a graph */
+  channels: Array<{ key: string; label: string }>;
+  settings: Record<string, ChannelProcessing>;
+  /** null resets the channel to raw values */
+  onChange: (key: string, proc: ChannelProcessing | null) => void;
+  style?: React.CSSProperties;
+};
+
+const KINDS: Array<{ value: FilterKind; label: string }> = [
+  { value: "none", label: "No filter" },
+  { value: "butterworth", label: "Butterworth low-pass" },
+  { value: "movingAverage", label: "Moving average" },
+  { value: "savitzkyGolay", label: "Savitzky–Golay" },
+];
+
+function Slider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="ctrl" style={{ justifyContent: "space-between" }}>
+      <span className="label" style={{ minWidth: 58 }}>{label}</span>
+      <input
+        className="slider"
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        style={{ width: 120 }}
+      />
+      <span className="small" style={{ minWidth: 48, textAlign: "right" }}>
+        {value} {unit}
+      </span>
+    </div>
+  );
+}
+
+function FilterParams({ spec, onChange }: { spec: FilterSpec; onChange: (spec: FilterSpec) => void }) {
+  switch (spec.kind) {
+    case "none":
+      return null;
+    case "butterworth":
+      return (
+        <Slider label="Cutoff" value={spec.cutoffHz} min={1} max={50} step={1} unit="Hz"
+          onChange={(cutoffHz) => onChange({ ...spec, cutoffHz })} />
+      );
+    case "movingAverage":
+      return (
+        <Slider label="Window" value={spec.window} min={3} max={51} step={2} unit="smp"
+          onChange={(window) => onChange({ ...spec, window })} />
+      );
+    case "savitzkyGolay":
+      return (
+        <>
+          <Slider label="Window" value={spec.window} min={5} max={51} step={2} unit="smp"
+            onChange={(window) => onChange({ ...spec, window })} />
+          <Slider label="Order" value={spec.order} min={1} max={5} step={1} unit=""
+            onChange={(order) => onChange({ ...spec, order })} />
+        </>
+      );
+  }
+}
+
+/** Floating panel to filter and/or differentiate each graphed channel. */
+export default function FilterPanel({ channels, settings, onChange, style }: Props) {
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Filters</span>
+      {!channels.length && <span className="small">Add a channel to a graph to filter it.</span>}
+
+      {channels.map(({ key, label }) => {
+        const proc = settings[key] ?? NO_PROCESSING;
+        const set = (patch: Partial<ChannelProcessing>) => onChange(key, { ...proc, ...patch });
+        return (
+          <div key={key} style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+              <span style={{ color: "var(--text)", fontSize: 12, fontWeight: 600 }}>{label}</span>
+              {settings[key] && (
+                <button className="btn ghost" onClick={() => onChange(key, null)}>
+                  Reset
+                </button>
+              )}
+            </div>
+            <CustomSelect
+              value={proc.filter.kind}
+              onChange={(kind) => set({ filter: DEFAULT_FILTERS[kind as FilterKind] ?? DEFAULT_FILTERS.none })}
+              options={KINDS}
+            />
+            <FilterParams spec={proc.filter} onChange={(filter) => set({ filter })} />
+            <div style={{ display: "flex", gap: 12 }}>
+              <label className="toggle" title="Graph the rate of change, e.g. position → velocity">
+                <input type="checkbox" checked={proc.derivative} onChange={(e) => set({ derivative: e.target.checked })} />
+                <span>d/dt</span>
+              </label>
+              <label className="toggle" title="Draw the unfiltered signal underneath">
+                <input
+                  type="checkbox"
+                  checked={proc.showRaw}
+                  disabled={proc.filter.kind === "none"}
+                  onChange={(e) => set({ showRaw: e.target.checked })}
+                />
+                <span>Raw overlay</span>
+              </label>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+// src/components/FormulaPanel.tsx
+import React, { useState } from "react";
+import type { Formula } from "../utils/formulas";
+
+type Props = {
+  formulas: Formula[];
+  /** per formula name: why it evaluates on no sheet */
+  errors: Record<string, string>;
+  /** add, or replace the formula with the same name */
+  onSave: (formula: Formula) => void;
+  onRemove: (name: string) => void;
+  /** syntax/channel check against the current sheet; returns an error message or null */
+  validate: (expr: string) => string | null;
+  style?: React.CSSProperties;
+};
+
+const HELP =
+  "Channels start with / (brackets for names with spaces, or with a part starting with a digit). " +
+  "A / before a digit, space, ( or [ divides: /Joint/Pelvis_x/2. _y_velocity re-uses the previous channel's base. " +
+  "Functions: norm, dot, angle, vec, derivative, integral, smooth(x, width), abs, sqrt.";
+
+/** Floating panel to write, save and remove user-defined channels. */
+export default function FormulaPanel({ formulas, errors, onSave, onRemove, validate, style }: Props) {
+  const [name, setName] = useState("");
+  const [expr, setExpr] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function save() {
+    const n = name.trim();
+    const e = expr.trim();
+    if (!n || !e) {
+      setError("Give the formula a name and an expression.");
+      return;
+    }
+    if (/[/[\]]/.test(n)) {
+      setError('Names can\'t contain "/", "[" or "]".');
+      return;
+    }
+    const problem = validate(e);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave({ name: n, expr: e });
+    setName("");
+    setExpr("");
+    setError(null);
+  }
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 320, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Formulas</span>
+
+      {formulas.map((f) => (
+        <div key={f.name} style={{ display: "flex", alignItems: "flex-start", gap: 8, fontSize: 12 }}>
+          <button
+            type="button"
+            onClick={() => {
+              setName(f.name);
+              setExpr(f.expr);
+              setError(null);
+            }}
+            title="Edit"
+            style={{ flex: 1, minWidth: 0, background: "none", border: "none", padding: 0, textAlign: "left", cursor: "pointer", font: "inherit" }}
+          >
+            <div style={{ color: errors[f.name] ? "#ff6b6b" : "var(--text)", fontWeight: 600 }}>{f.name}</div>
+            <div className="small" style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              {errors[f.name] ?? f.expr}
+            </div>
+          </button>
+          <button
+            type="button"
+            onClick={() => onRemove(f.name)}
+            aria-label={`Remove ${f.name}`}
+            style={{ background: "none", border: "none", padding: 0, color: "#9aa3b2", font: "inherit", cursor: "pointer" }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <input
+        className="text-input"
+        placeholder="Name, e.g. Hand speed"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <textarea
+        className="text-input"
+        placeholder="norm(/Joint/Wrist/Right_x_velocity, _y_velocity, _z_velocity)"
+        value={expr}
+        rows={2}
+        onChange={(e) => setExpr(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) save();
+        }}
+        style={{ resize: "vertical", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" }}
+      />
+      {error && <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>{error}</span>}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span className="small" title={HELP} style={{ cursor: "help" }}>
+          Syntax help
+        </span>
+        <button className="btn primary" onClick={save}>
+          {formulas.some((f) => f.name === name.trim()) ? "Update" : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
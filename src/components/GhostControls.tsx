@@ -0,0 +1,179 @@
+// src/components/GhostControls.tsx
+import React from "react";
+
+/** Placement + look of the ghost (onion-skin) rig overlaid in the main scene. */
+export type GhostSettings = {
+  /** metres, scene axes */
+  offsetX: number;
+  offsetZ: number;
+  /** degrees about the vertical axis */
+  yaw: number;
+  /** seconds added to the ghost's playhead after event alignment */
+  timeOffset: number;
+  opacity: number;
+  /** keep the ghost's pelvis on the main rig's pelvis (offsets become relative) */
+  lockPelvis: boolean;
+};
+
+type Props = {
+  settings: GhostSettings;
+  onChange: (next: GhostSettings) => void;
+  /** restore default placement */
+  onReset: () => void;
+  /** what the ghost is showing, e.g. "2025-08-25" or "Reference.fbx" */
+  sourceLabel: string;
+  /** admin-only: load a reference FBX (e.g. a model athlete) as the ghost */
+  onUpload?: (file: File) => void;
+  onClearUpload?: () => void;
+  style?: React.CSSProperties;
+};
+
+function Row({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format,
+  onChange,
+  resetTo = 0,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+  /** value restored on double-click */
+  resetTo?: number;
+}) {
+  return (
+    <div className="ctrl" style={{ justifyContent: "space-between" }}>
+      <span className="label" style={{ minWidth: 58 }}>{label}</span>
+      <input
+        className="slider"
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        onDoubleClick={() => onChange(resetTo)}
+        style={{ width: 120 }}
+      />
+      <span className="small" style={{ minWidth: 48, textAlign: "right" }}>{format(value)}</span>
+    </div>
+  );
+}
+
+/** Floating panel for the ghost overlay: offsets, rotation, time nudge and opacity. */
+export default function GhostControls({
+  settings,
+  onChange,
+  onReset,
+  sourceLabel,
+  onUpload,
+  onClearUpload,
+  style,
+}: Props) {
+  const set = <K extends keyof GhostSettings>(key: K, v: GhostSettings[K]) => onChange({ ...settings, [key]: v });
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 260, ...style }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Ghost</span>
+        <span className="small" title={sourceLabel} style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {sourceLabel}
+        </span>
+      </div>
+
+      <Row
+        label="Offset X"
+        value={settings.offsetX}
+        min={-3}
+        max={3}
+        step={0.01}
+        format={(v) => `${v.toFixed(2)} m`}
+        onChange={(v) => set("offsetX", v)}
+      />
+      <Row
+        label="Offset Z"
+        value={settings.offsetZ}
+        min={-3}
+        max={3}
+        step={0.01}
+        format={(v) => `${v.toFixed(2)} m`}
+        onChange={(v) => set("offsetZ", v)}
+      />
+      <Row
+        label="Rotate"
+        value={settings.yaw}
+        min={-180}
+        max={180}
+        step={1}
+        format={(v) => `${Math.round(v)}°`}
+        onChange={(v) => set("yaw", v)}
+      />
+      <Row
+        label="Time"
+        value={settings.timeOffset}
+        min={-0.5}
+        max={0.5}
+        step={0.005}
+        format={(v) => `${Math.round(v * 1000)} ms`}
+        onChange={(v) => set("timeOffset", v)}
+      />
+      <Row
+        label="Opacity"
+        value={settings.opacity}
+        min={0.1}
+        max={0.9}
+        step={0.05}
+        format={(v) => `${Math.round(v * 100)}%`}
+        onChange={(v) => set("opacity", v)}
+        resetTo={0.35}
+      />
+
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <label className="toggle" title="Shift the ghost so both pelvises coincide every frame">
+          <input
+            type="checkbox"
+            checked={settings.lockPelvis}
+            onChange={(e) => set("lockPelvis", e.target.checked)}
+          />
+          <span>Lock pelvis</span>
+        </label>
+        <button className="btn ghost" onClick={onReset}>
+          Reset
+        </button>
+      </div>
+
+      {onUpload && (
+        <div style={{ display: "flex", gap: 8 }}>
+          <label className="btn" style={{ cursor: "pointer", flex: 1, justifyContent: "center" }}>
+            Reference .fbx
+            <input
+              type="file"
+              accept=".fbx"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onUpload(file);
+                e.target.value = "";
+              }}
+              style={{ display: "none" }}
+            />
+          </label>
+          {onClearUpload && (
+            <button className="btn ghost" onClick={onClearUpload}>
+              Use session
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+// src/components/MetricsPanel.tsx
+import React from "react";
+import { toFbxTime } from "../utils/timeAlign";
+import type { TimeAlignment } from "../utils/timeAlign";
+import type { MetricGroup, SessionMetric } from "../utils/metrics";
+
+type Props = {
+  metrics: SessionMetric[];
+  /** places each metric's moment on the FBX clock */
+  alignment: TimeAlignment;
+  fps: number;
+  /** jump the playhead to a metric (Excel seconds) */
+  onSeek: (t: number) => void;
+  style?: React.CSSProperties;
+};
+
+const GROUPS: MetricGroup[] = ["Peak velocity", "Timing", "Stride", "Posture"];
+
+/** Scalar summary of the session; click a metric to jump to the frame it was read at. */
+export default function MetricsPanel({ metrics, alignment, fps, onSeek, style }: Props) {
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Session metrics</span>
+      {!metrics.length && <span className="small">No metrics could be read from this session's data.</span>}
+
+      {GROUPS.map((group) => {
+        const rows = metrics.filter((m) => m.group === group);
+        if (!rows.length) return null;
+        return (
+          <div key={group} style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span className="small" style={{ textTransform: "uppercase", letterSpacing: 0.5 }}>{group}</span>
+            {rows.map((m) => {
+              const t = toFbxTime(alignment, m.t);
+              return (
+                <button
+                  key={m.id}
+                  type="button"
+                  className="metric-row"
+                  onClick={() => onSeek(m.t)}
+                  title={`Go to ${t.toFixed(3)} s (frame ${Math.round(t * fps)})`}
+                >
+                  <span>{m.label}</span>
+                  <span className="metric-value">
+                    {m.value.toFixed(m.digits)}
+                    <span className="small" style={{ marginLeft: 3 }}>{m.unit}</span>
+                  </span>
+                  <span className="small metric-frame">f {Math.round(t * fps)}</span>
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+// src/components/MotionTrail.tsx
+import { useMemo } from "react";
+import * as THREE from "three";
+import { Line } from "@react-three/drei";
+import { trackAt, trackWindow } from "../utils/rig";
+import type { Track } from "../utils/rig";
+
+type Props = {
+  track: Track;
+  /** playhead (FBX seconds) */
+  time: number;
+  /** seconds of path shown behind / ahead of the playhead */
+  before: number;
+  after: number;
+  color: string;
+  lineWidth?: number;
+};
+
+/**
+ * A point's path around the playhead, fading out towards both ends of the
+ * window, with a dot at the current position.
+ */
+export default function MotionTrail({ track, time, before, after, color, lineWidth = 2.5 }: Props) {
+  const rgb = useMemo(() => new THREE.Color(color), [color]);
+
+  const { points, colors } = useMemo(() => {
+    const win = trackWindow(track, time - before, time + after);
+    const colors = win.map(({ t }) => {
+      const span = t < time ? before : after;
+      const u = span > 0 ? Math.min(1, Math.abs(t - time) / span) : 0;
+      return [rgb.r, rgb.g, rgb.b, 0.95 * (1 - u) + 0.05] as [number, number, number, number];
+    });
+    return { points: win.map((w) => w.p), colors };
+  }, [track, time, before, after, rgb]);
+
+  const head = trackAt(track, time);
+
+  return (
+    <group>
+      {points.length > 1 && (
+        <Line points={points} vertexColors={colors} lineWidth={lineWidth} depthWrite={false} />
+      )}
+      {head && head.every(Number.isFinite) && (
+        <mesh position={head}>
+          <sphereGeometry args={[0.022, 12, 12]} />
+          <meshBasicMaterial color={color} />
+        </mesh>
+      )}
+    </group>
+  );
+}
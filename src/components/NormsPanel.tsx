@@ -0,0 +1,130 @@
+// src/components/NormsPanel.tsx
+import React from "react";
+import CustomSelect from "./CustomSelect";
+import { NORM_SCHEMES } from "../utils/norms";
+import type { NormDataset, NormScheme } from "../utils/norms";
+
+type Props = {
+  /** "off", "roster", or an imported/published dataset id */
+  source: string;
+  sources: Array<{ value: string; label: string }>;
+  onSourceChange: (source: string) => void;
+  scheme: NormScheme;
+  /** imported datasets come with their own scheme */
+  schemeLocked: boolean;
+  onSchemeChange: (scheme: NormScheme) => void;
+  /** dataset being drawn, if any */
+  active: NormDataset | null;
+  /** why no band shows, when that is the case */
+  notice: string | null;
+  error: string | null;
+  /** roster build (admin only): share done (0–1) while building, else null */
+  buildProgress?: number | null;
+  onBuild?: () => void;
+  onCancelBuild?: () => void;
+  onImport?: (file: File) => void;
+  onExport?: () => void;
+  style?: React.CSSProperties;
+};
+
+/** Floating panel to pick the reference data shaded behind graphed channels, and how reps are lined up. */
+export default function NormsPanel({
+  source,
+  sources,
+  onSourceChange,
+  scheme,
+  schemeLocked,
+  onSchemeChange,
+  active,
+  notice,
+  error,
+  buildProgress,
+  onBuild,
+  onCancelBuild,
+  onImport,
+  onExport,
+  style,
+}: Props) {
+  const building = buildProgress != null;
+  const rosterMissing = source === "roster" && !active;
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Reference bands</span>
+
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Data</span>
+        <CustomSelect value={source} onChange={onSourceChange} options={sources} />
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Line up</span>
+        <CustomSelect
+          value={scheme}
+          onChange={(v) => onSchemeChange(v as NormScheme)}
+          options={NORM_SCHEMES}
+          disabled={schemeLocked}
+          title={schemeLocked ? "Fixed by the dataset" : undefined}
+        />
+      </div>
+
+      {active && (
+        <span className="small">
+          {active.label} · {active.count || "?"} reps · mean ± 1 SD
+        </span>
+      )}
+      {rosterMissing && !building && (
+        <span className="small">
+          {onBuild
+            ? "Not built for this scheme yet: averages every player's default session."
+            : "The roster average has not been built in this browser."}
+        </span>
+      )}
+      {notice && <span className="small">{notice}</span>}
+      {error && <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>{error}</span>}
+
+      {building ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <div className="render-progress">
+            <div style={{ width: `${Math.round(buildProgress * 100)}%` }} />
+          </div>
+          <button className="btn ghost" onClick={onCancelBuild}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        (onBuild || onImport || onExport) && (
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {onBuild && source === "roster" && (
+              <button className="btn primary" onClick={onBuild}>
+                {active ? "Rebuild" : "Build"}
+              </button>
+            )}
+            {onImport && (
+              <label className="btn" style={{ cursor: "pointer" }}>
+                Import…
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) onImport(file);
+                  }}
+                />
+              </label>
+            )}
+            {onExport && active && (
+              <button className="btn ghost" onClick={onExport}>
+                Export
+              </button>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,25 @@
 // src/components/PDFReportTemplate.tsx
 import React from "react";
-import { Document, Page, Text, View, Image, StyleSheet } from "@react-pdf/renderer";
+import { Document, Page, Text, View, Image, Link, StyleSheet, Svg, Line, Polyline } from "@react-pdf/renderer";
+import { parseMarkdown } from "../utils/markdown";
+import type { Block, Inline } from "../utils/markdown";
+import type { MetricGroup, SessionMetric } from "../utils/metrics";
+import { metricChanges } from "../utils/report";
+import type { PreviousSession, ReportChart, ReportSnapshot } from "../utils/report";
 
-interface PDFReportProps {
+export interface PDFReportProps {
   reportContent: string;
   playerName: string;
   session: string;
   playerType: "hitter" | "pitcher" | "unknown";
   logoBase64?: string;
+  /** the session's metrics, tabled by group */
+  metrics?: SessionMetric[];
+  /** the session before, compared metric by metric */
+  previous?: PreviousSession | null;
+  charts?: ReportChart[];
+  /** the 3D view at key events */
+  snapshots?: ReportSnapshot[];
 }
 
 // Create styles
@@ -16,8 +28,13 @@ const styles = StyleSheet.create({
     flexDirection: "column",
     backgroundColor: "#FFFFFF",
     padding: 50,
+    paddingBottom: 64,
     fontSize: 11,
     fontFamily: "Helvetica",
+  },
+  // on a wrapper rather than the page: react-pdf drops the page-number
+  // text of the footer when it inherits a line height
+  body: {
     lineHeight: 1.7,
   },
   header: {
@@ -92,17 +109,75 @@ const styles = StyleSheet.create({
     textAlign: "justify",
     lineHeight: 1.75,
   },
-  listItem: {
-    marginLeft: 20,
-    marginBottom: 8,
-    lineHeight: 1.7,
-    paddingLeft: 8,
+  minorTitle: {
+    fontSize: 11.5,
+    fontWeight: "bold",
+    marginTop: 8,
+    marginBottom: 6,
+    color: "#333333",
+  },
+  list: {
+    marginBottom: 10,
   },
-  listBullet: {
-    marginRight: 8,
+  listRow: {
+    flexDirection: "row",
+    marginLeft: 12,
+    marginBottom: 4,
+  },
+  listMarker: {
+    width: 18,
     color: "#e5812b",
     fontWeight: "bold",
   },
+  listBody: {
+    flex: 1,
+  },
+  // paragraphs of tight list items, one line after the other
+  listText: {
+    marginBottom: 2,
+    lineHeight: 1.7,
+  },
+  blockquote: {
+    borderLeft: "3 solid #e5812b",
+    backgroundColor: "#fbf5ef",
+    paddingLeft: 10,
+    paddingTop: 6,
+    paddingRight: 8,
+    marginBottom: 12,
+    color: "#555555",
+  },
+  codeBlock: {
+    backgroundColor: "#f5f5f5",
+    border: "1 solid #e4e4e4",
+    padding: 8,
+    marginBottom: 12,
+  },
+  codeText: {
+    fontFamily: "Courier",
+    fontSize: 9,
+    lineHeight: 1.4,
+  },
+  inlineCode: {
+    fontFamily: "Courier",
+    fontSize: 10,
+    backgroundColor: "#f2f2f2",
+  },
+  link: {
+    color: "#c4661a",
+    textDecoration: "underline",
+  },
+  strikeText: {
+    textDecoration: "line-through",
+  },
+  rule: {
+    borderBottom: "1 solid #dddddd",
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  markdownCell: {
+    flex: 1,
+    paddingHorizontal: 4,
+  },
   playerTypeBadge: {
     backgroundColor: "#e5812b",
     color: "#FFFFFF",
@@ -119,128 +194,375 @@ const styles = StyleSheet.create({
   italicText: {
     fontStyle: "italic",
   },
+  footer: {
+    position: "absolute",
+    left: 50,
+    right: 50,
+    bottom: 28,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderTop: "1 solid #dddddd",
+    paddingTop: 6,
+    fontSize: 8.5,
+    color: "#888888",
+  },
+  table: {
+    marginBottom: 14,
+    borderTop: "1 solid #dddddd",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1 solid #eeeeee",
+    paddingVertical: 3,
+    fontSize: 9.5,
+    lineHeight: 1.4,
+  },
+  tableHead: {
+    fontWeight: "bold",
+    color: "#333333",
+    backgroundColor: "#f6f6f6",
+  },
+  cellLabel: {
+    flex: 3,
+    paddingLeft: 4,
+  },
+  cell: {
+    flex: 1.2,
+    textAlign: "right",
+    paddingRight: 4,
+  },
+  better: {
+    color: "#2e9d6a",
+  },
+  worse: {
+    color: "#d0463b",
+  },
+  chart: {
+    marginBottom: 16,
+  },
+  chartTitle: {
+    fontSize: 10.5,
+    fontWeight: "bold",
+    color: "#333333",
+    marginBottom: 4,
+  },
+  chartLabel: {
+    position: "absolute",
+    fontSize: 7,
+    color: "#777777",
+    lineHeight: 1,
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 4,
+    fontSize: 8,
+    lineHeight: 1.3,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 3,
+    marginRight: 4,
+  },
+  snapshots: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+  },
+  snapshot: {
+    width: "49%",
+    marginBottom: 12,
+  },
+  snapshotImage: {
+    width: "100%",
+    objectFit: "contain",
+    border: "1 solid #dddddd",
+  },
+  snapshotCaption: {
+    fontSize: 9,
+    color: "#555555",
+    marginTop: 3,
+    lineHeight: 1.3,
+  },
 });
 
-// Helper function to parse text with bold/italic formatting
-function parseInlineFormatting(text: string): React.ReactElement[] {
-  const parts: React.ReactElement[] = [];
-  let currentIndex = 0;
-  
-  // Match **bold** or *italic* or ***bold+italic***
-  const regex = /(\*\*\*([^*]+)\*\*\*|\*\*([^*]+)\*\*|\*([^*]+)\*)/g;
-  let match;
-  let lastIndex = 0;
-  
-  while ((match = regex.exec(text)) !== null) {
-    // Add text before the match
-    if (match.index > lastIndex) {
-      parts.push(
-        <Text key={currentIndex++}>{text.substring(lastIndex, match.index)}</Text>
-      );
-    }
-    
-    // Add formatted text
-    if (match[1].startsWith("***")) {
-      // Bold + italic
-      parts.push(
-        <Text key={currentIndex++} style={[styles.boldText, styles.italicText]}>
-          {match[2]}
-        </Text>
-      );
-    } else if (match[1].startsWith("**")) {
-      // Bold
-      parts.push(
-        <Text key={currentIndex++} style={styles.boldText}>
-          {match[3]}
-        </Text>
-      );
-    } else {
-      // Italic
-      parts.push(
-        <Text key={currentIndex++} style={styles.italicText}>
-          {match[4]}
-        </Text>
-      );
-    }
-    
-    lastIndex = regex.lastIndex;
-  }
-  
-  // Add remaining text
-  if (lastIndex < text.length) {
-    parts.push(
-      <Text key={currentIndex++}>{text.substring(lastIndex)}</Text>
-    );
+const GROUP_ORDER: MetricGroup[] = ["Peak velocity", "Timing", "Stride", "Posture"];
+
+/** Letter width less the page padding, in points. */
+const CONTENT_WIDTH = 612 - 2 * 50;
+const CHART_HEIGHT = 150;
+const PLOT = { left: 38, right: 8, top: 12, bottom: 18 };
+
+const fixed = (value: number, digits: number) => value.toFixed(digits);
+
+function signed(value: number, digits: number): string {
+  const s = value.toFixed(digits);
+  return value > 0 ? `+${s}` : s;
+}
+
+/** Round tick positions covering [lo, hi], about `count` of them. */
+function ticks(lo: number, hi: number, count = 4): number[] {
+  const span = hi - lo || 1;
+  const raw = span / count;
+  const mag = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10].map((m) => m * mag).find((s) => s >= raw) ?? raw;
+  const out: number[] = [];
+  for (let v = Math.ceil(lo / step) * step; v <= hi + 1e-9; v += step) out.push(Number(v.toFixed(6)));
+  return out;
+}
+
+/** The session's metrics in one table per group. */
+function MetricsTable({ metrics }: { metrics: SessionMetric[] }) {
+  return (
+    <>
+      {GROUP_ORDER.map((group) => {
+        const rows = metrics.filter((m) => m.group === group);
+        if (!rows.length) return null;
+        return (
+          <View key={group} style={styles.table} wrap={false}>
+            <View style={[styles.tableRow, styles.tableHead]}>
+              <Text style={styles.cellLabel}>{group}</Text>
+              <Text style={styles.cell}>Value</Text>
+              <Text style={styles.cell}>At</Text>
+            </View>
+            {rows.map((m) => (
+              <View key={m.id} style={styles.tableRow}>
+                <Text style={styles.cellLabel}>{m.label}</Text>
+                <Text style={styles.cell}>
+                  {fixed(m.value, m.digits)} {m.unit}
+                </Text>
+                <Text style={styles.cell}>{fixed(m.t, 3)} s</Text>
+              </View>
+            ))}
+          </View>
+        );
+      })}
+    </>
+  );
+}
+
+/** Metric by metric against the previous session, coloured by whether it improved. */
+function ComparisonTable({ metrics, previous }: { metrics: SessionMetric[]; previous: PreviousSession }) {
+  const changes = metricChanges(metrics, previous.metrics);
+  if (!changes.length) {
+    return <Text style={styles.paragraph}>None of this session's metrics were measured in {previous.session}.</Text>;
   }
-  
-  return parts.length > 0 ? parts : [<Text key={0}>{text}</Text>];
+  return (
+    <View style={styles.table}>
+      <View style={[styles.tableRow, styles.tableHead]} fixed>
+        <Text style={styles.cellLabel}>Metric</Text>
+        <Text style={styles.cell}>{previous.session}</Text>
+        <Text style={styles.cell}>This session</Text>
+        <Text style={styles.cell}>Change</Text>
+      </View>
+      {changes.map(({ metric, before, change, improved }) => (
+        <View key={metric.id} style={styles.tableRow} wrap={false}>
+          <Text style={styles.cellLabel}>{metric.label}</Text>
+          <Text style={styles.cell}>{fixed(before, metric.digits)}</Text>
+          <Text style={styles.cell}>{fixed(metric.value, metric.digits)}</Text>
+          <Text style={improved == null ? styles.cell : [styles.cell, improved ? styles.better : styles.worse]}>
+            {signed(change, metric.digits)} {metric.unit}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
 }
 
-// Parse markdown-like content to PDF elements
-function parseMarkdownToPDF(content: string): React.ReactElement[] {
-  const lines = content.split("\n");
-  const elements: React.ReactElement[] = [];
-  let currentParagraph: string[] = [];
+/** A line chart drawn with the PDF's own vector primitives, events as dashed verticals. */
+function ChartBlock({ chart }: { chart: ReportChart }) {
+  const points = chart.series.flatMap((s) => s.points);
+  if (!points.length) return null;
+  const t0 = Math.min(...points.map((p) => p.t));
+  let t1 = Math.max(...points.map((p) => p.t));
+  let v0 = Math.min(0, ...points.map((p) => p.v));
+  let v1 = Math.max(0, ...points.map((p) => p.v));
+  if (t1 <= t0) t1 = t0 + 1;
+  if (v1 <= v0) v1 = v0 + 1;
+  const pad = (v1 - v0) * 0.05;
+  v0 -= v0 < 0 ? pad : 0;
+  v1 += pad;
 
-  const flushParagraph = () => {
-    if (currentParagraph.length > 0) {
-      const paraText = currentParagraph.join(" ").trim();
-      const formattedText = parseInlineFormatting(paraText);
-      elements.push(
-        <Text key={`para-${elements.length}`} style={styles.paragraph}>
-          {formattedText}
-        </Text>
-      );
-      currentParagraph = [];
-    }
-  };
+  const w = CONTENT_WIDTH - PLOT.left - PLOT.right;
+  const h = CHART_HEIGHT - PLOT.top - PLOT.bottom;
+  const x = (t: number) => PLOT.left + ((t - t0) / (t1 - t0)) * w;
+  const y = (v: number) => PLOT.top + (1 - (v - v0) / (v1 - v0)) * h;
+  const vTicks = ticks(v0, v1);
+  const tTicks = ticks(t0, t1, 6);
+  const markers = chart.markers.filter((m) => m.t >= t0 && m.t <= t1);
 
-  lines.forEach((line, index) => {
-    const trimmed = line.trim();
+  return (
+    <View style={styles.chart} wrap={false}>
+      <Text style={styles.chartTitle}>
+        {chart.title} ({chart.unit})
+      </Text>
+      <View style={{ width: CONTENT_WIDTH, height: CHART_HEIGHT }}>
+        <Svg width={CONTENT_WIDTH} height={CHART_HEIGHT}>
+          {vTicks.map((v) => (
+            <Line key={`v${v}`} x1={PLOT.left} x2={PLOT.left + w} y1={y(v)} y2={y(v)} stroke={v === 0 ? "#bbbbbb" : "#eeeeee"} strokeWidth={0.6} />
+          ))}
+          {markers.map((m) => (
+            <Line key={m.short} x1={x(m.t)} x2={x(m.t)} y1={PLOT.top} y2={PLOT.top + h} stroke={m.color} strokeWidth={0.8} strokeDasharray="3 2" />
+          ))}
+          {chart.series.map((s) => (
+            <Polyline
+              key={s.label}
+              points={s.points.map((p) => `${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(" ")}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.2}
+              strokeLinejoin="round"
+            />
+          ))}
+          <Line x1={PLOT.left} x2={PLOT.left} y1={PLOT.top} y2={PLOT.top + h} stroke="#999999" strokeWidth={0.8} />
+          <Line x1={PLOT.left} x2={PLOT.left + w} y1={PLOT.top + h} y2={PLOT.top + h} stroke="#999999" strokeWidth={0.8} />
+        </Svg>
+        {vTicks.map((v) => (
+          <Text key={`v${v}`} style={[styles.chartLabel, { left: 0, width: PLOT.left - 4, top: y(v) - 3.5, textAlign: "right" }]}>
+            {Number(v.toFixed(2))}
+          </Text>
+        ))}
+        {tTicks.map((t) => (
+          <Text key={`t${t}`} style={[styles.chartLabel, { left: x(t) - 15, width: 30, top: PLOT.top + h + 4, textAlign: "center" }]}>
+            {Number(t.toFixed(2))} s
+          </Text>
+        ))}
+        {markers.map((m) => (
+          <Text key={m.short} style={[styles.chartLabel, { left: x(m.t) - 15, width: 30, top: 1, textAlign: "center", color: "#555555" }]}>
+            {m.short}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.legend}>
+        {chart.series.map((s) => (
+          <View key={s.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: s.color }]} />
+            <Text>{s.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
 
-    // Section headers (##)
-    if (trimmed.startsWith("## ")) {
-      flushParagraph();
-      const sectionTitle = trimmed.substring(3).trim();
-      elements.push(
-        <View key={`section-${index}`} style={styles.section}>
-          <Text style={styles.sectionTitle}>{sectionTitle}</Text>
-        </View>
-      );
-    }
-    // Subsections (###)
-    else if (trimmed.startsWith("### ")) {
-      flushParagraph();
-      const subsectionTitle = trimmed.substring(4).trim();
-      elements.push(
-        <Text key={`subsection-${index}`} style={styles.subsectionTitle}>
-          {subsectionTitle}
-        </Text>
-      );
-    }
-    // List items (- or *)
-    else if (trimmed.startsWith("- ") || trimmed.startsWith("* ")) {
-      flushParagraph();
-      const listItem = trimmed.substring(2).trim();
-      const formattedText = parseInlineFormatting(listItem);
-      elements.push(
-        <Text key={`list-${index}`} style={styles.listItem}>
-          <Text style={styles.listBullet}>•</Text> {formattedText}
-        </Text>
-      );
-    }
-    // Empty line - flush paragraph
-    else if (trimmed === "") {
-      flushParagraph();
-    }
-    // Regular text
-    else if (trimmed.length > 0) {
-      currentParagraph.push(trimmed);
+/** Bullets by nesting depth; the built-in Helvetica has no hollow or square one. */
+const BULLETS = ["•", "–", "·"];
+
+function renderInlines(nodes: Inline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return "\n";
+      case "strong":
+        return <Text key={i} style={styles.boldText}>{renderInlines(node.children)}</Text>;
+      case "em":
+        return <Text key={i} style={styles.italicText}>{renderInlines(node.children)}</Text>;
+      case "del":
+        return <Text key={i} style={styles.strikeText}>{renderInlines(node.children)}</Text>;
+      case "code":
+        return <Text key={i} style={styles.inlineCode}>{node.text}</Text>;
+      case "link":
+        return (
+          <Link key={i} src={node.href} style={styles.link}>
+            {renderInlines(node.children)}
+          </Link>
+        );
+      case "image":
+        // remote images can't be fetched while laying out; keep their description
+        return <Text key={i} style={styles.italicText}>{node.alt || node.src}</Text>;
     }
   });
+}
 
-  flushParagraph();
-  return elements;
+function listMarker(list: Extract<Block, { type: "list" }>, index: number, depth: number): string {
+  const checked = list.items[index].checked;
+  if (checked != null) return checked ? "[x]" : "[ ]";
+  return list.ordered ? `${list.start + index}.` : BULLETS[depth % BULLETS.length];
+}
+
+/**
+ * Markdown blocks as PDF elements. `depth` counts enclosing lists (for the
+ * bullet), `tight` is set inside items of a tight list.
+ */
+function renderBlocks(blocks: Block[], depth = 0, tight = false): React.ReactElement[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "heading":
+        if (block.level <= 2) {
+          return (
+            <View key={i} style={styles.section}>
+              <Text style={styles.sectionTitle} minPresenceAhead={40}>
+                {renderInlines(block.children)}
+              </Text>
+            </View>
+          );
+        }
+        return (
+          <Text key={i} style={block.level === 3 ? styles.subsectionTitle : styles.minorTitle} minPresenceAhead={30}>
+            {renderInlines(block.children)}
+          </Text>
+        );
+      case "paragraph":
+        return (
+          <Text key={i} style={tight ? styles.listText : styles.paragraph}>
+            {renderInlines(block.children)}
+          </Text>
+        );
+      case "list":
+        return (
+          <View key={i} style={depth ? undefined : styles.list}>
+            {block.items.map((item, j) => (
+              <View key={j} style={styles.listRow}>
+                <Text style={styles.listMarker}>{listMarker(block, j, depth)}</Text>
+                <View style={styles.listBody}>{renderBlocks(item.children, depth + 1, block.tight)}</View>
+              </View>
+            ))}
+          </View>
+        );
+      case "blockquote":
+        return (
+          <View key={i} style={styles.blockquote}>
+            {renderBlocks(block.children, depth)}
+          </View>
+        );
+      case "code":
+        return (
+          <View key={i} style={styles.codeBlock}>
+            <Text style={styles.codeText}>{block.text}</Text>
+          </View>
+        );
+      case "table":
+        return (
+          <View key={i} style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHead]} fixed>
+              {block.head.map((cell, c) => (
+                <Text key={c} style={[styles.markdownCell, { textAlign: block.align[c] ?? "left" }]}>
+                  {renderInlines(cell)}
+                </Text>
+              ))}
+            </View>
+            {block.rows.map((row, r) => (
+              <View key={r} style={styles.tableRow} wrap={false}>
+                {row.map((cell, c) => (
+                  <Text key={c} style={[styles.markdownCell, { textAlign: block.align[c] ?? "left" }]}>
+                    {renderInlines(cell)}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        );
+      case "hr":
+        return <View key={i} style={styles.rule} />;
+    }
+  });
 }
 
 export const PDFReportTemplate: React.FC<PDFReportProps> = ({
@@ -249,54 +571,107 @@ export const PDFReportTemplate: React.FC<PDFReportProps> = ({
   session,
   playerType,
   logoBase64,
+  metrics = [],
+  previous = null,
+  charts = [],
+  snapshots = [],
 }) => {
   const playerTypeLabel = playerType === "hitter" ? "Hitter" : playerType === "pitcher" ? "Pitcher" : "Athlete";
-  const pdfContent = parseMarkdownToPDF(reportContent);
+  const pdfContent = renderBlocks(parseMarkdown(reportContent));
 
   return (
     <Document>
       <Page size="LETTER" style={styles.page}>
-        {/* Header with Logo and Branding */}
-        <View style={styles.header}>
-          <View style={styles.headerRow}>
-            {logoBase64 && (
-              <Image
-                src={logoBase64}
-                style={styles.logo}
-              />
-            )}
-            <Text style={styles.brandText}>SequenceBioLab</Text>
+        <View style={styles.body}>
+          {/* Header with Logo and Branding */}
+          <View style={styles.header}>
+            <View style={styles.headerRow}>
+              {logoBase64 && (
+                <Image
+                  src={logoBase64}
+                  style={styles.logo}
+                />
+              )}
+              <Text style={styles.brandText}>SequenceBioLab</Text>
+            </View>
+            <Text style={styles.reportTitle}>Motion Capture Analysis Report</Text>
+            <View style={styles.metadata}>
+              <Text>
+                <Text style={styles.metadataLabel}>Player:</Text> {playerName}
+              </Text>
+              <Text>
+                {"\n"}
+                <Text style={styles.metadataLabel}>Session:</Text> {session}
+              </Text>
+              <Text>
+                {"\n"}
+                <Text style={styles.metadataLabel}>Classification:</Text> {playerTypeLabel}
+              </Text>
+              <Text>
+                {"\n"}
+                <Text style={styles.metadataLabel}>Date:</Text>{" "}
+                {new Date().toLocaleDateString("en-US", { 
+                  year: "numeric", 
+                  month: "long", 
+                  day: "numeric" 
+                })}
+              </Text>
+            </View>
           </View>
-          <Text style={styles.reportTitle}>Motion Capture Analysis Report</Text>
-          <View style={styles.metadata}>
-            <Text>
-              <Text style={styles.metadataLabel}>Player:</Text> {playerName}
-            </Text>
-            <Text>
-              {"\n"}
-              <Text style={styles.metadataLabel}>Session:</Text> {session}
-            </Text>
-            <Text>
-              {"\n"}
-              <Text style={styles.metadataLabel}>Classification:</Text> {playerTypeLabel}
-            </Text>
-            <Text>
-              {"\n"}
-              <Text style={styles.metadataLabel}>Date:</Text>{" "}
-              {new Date().toLocaleDateString("en-US", { 
-                year: "numeric", 
-                month: "long", 
-                day: "numeric" 
-              })}
-            </Text>
+
+          {/* Report Content */}
+          <View style={styles.content}>
+            {pdfContent.map((element, index) => (
+              <React.Fragment key={`content-${index}`}>{element}</React.Fragment>
+            ))}
           </View>
+
+          {/* Measured data, from a fresh page */}
+          {metrics.length > 0 && (
+            <View break>
+              <Text style={styles.sectionTitle} minPresenceAhead={120}>Session Metrics</Text>
+              <MetricsTable metrics={metrics} />
+            </View>
+          )}
+
+          {previous && metrics.length > 0 && (
+            <View>
+              <Text style={styles.sectionTitle} minPresenceAhead={80}>Compared with {previous.session}</Text>
+              <ComparisonTable metrics={metrics} previous={previous} />
+            </View>
+          )}
+
+          {charts.length > 0 && (
+            <View break={!metrics.length}>
+              <Text style={styles.sectionTitle} minPresenceAhead={180}>Charts</Text>
+              {charts.map((chart) => (
+                <ChartBlock key={chart.title} chart={chart} />
+              ))}
+            </View>
+          )}
+
+          {snapshots.length > 0 && (
+            <View>
+              <Text style={styles.sectionTitle} minPresenceAhead={180}>Key Positions</Text>
+              <View style={styles.snapshots}>
+                {snapshots.map((snap) => (
+                  <View key={snap.label} style={styles.snapshot} wrap={false}>
+                    <Image src={snap.image} style={styles.snapshotImage} />
+                    <Text style={styles.snapshotCaption}>
+                      {snap.label} · {fixed(snap.t, 3)} s
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
         </View>
 
-        {/* Report Content */}
-        <View style={styles.content}>
-          {pdfContent.map((element, index) => (
-            <React.Fragment key={`content-${index}`}>{element}</React.Fragment>
-          ))}
+        <View style={styles.footer} fixed>
+          <Text>
+            {playerName} · {session}
+          </Text>
+          <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
         </View>
       </Page>
     </Document>
@@ -0,0 +1,95 @@
+// src/components/PdfViewer.tsx
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { useMeasure } from "./useMeasure";
+
+type Props = {
+  url: string;
+  /** 1 = pages as wide as the viewer */
+  zoom: number;
+  onPageCount?: (pages: number) => void;
+};
+
+/** pdf.js is large: loaded the first time a PDF is shown. */
+async function loadPdfJs() {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+}
+
+function PdfPage({ doc, index, width }: { doc: PDFDocumentProxy; index: number; width: number }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width <= 0) return;
+    let cancelled = false;
+    let task: { cancel: () => void } | null = null;
+    (async () => {
+      const page = await doc.getPage(index + 1);
+      if (cancelled) return;
+      const base = page.getViewport({ scale: 1 });
+      const dpr = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale: (width / base.width) * dpr });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${viewport.height / dpr}px`;
+      const render = page.render({ canvas, viewport });
+      task = render;
+      await render.promise;
+    })().catch((err) => {
+      if (!cancelled && err?.name !== "RenderingCancelledException") console.error(`PDF page ${index + 1} failed:`, err);
+    });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, index, width]);
+
+  return <canvas ref={canvasRef} className="pdf-page" />;
+}
+
+/** Every page of a PDF, stacked and scaled to the viewer's width. */
+export default function PdfViewer({ url, zoom, onPageCount }: Props) {
+  const { ref, rect } = useMeasure<HTMLDivElement>();
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setError(null);
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      loaded = await pdfjs.getDocument(url).promise;
+      if (cancelled) {
+        loaded.destroy();
+        return;
+      }
+      setDoc(loaded);
+      onPageCount?.(loaded.numPages);
+    })().catch((err) => {
+      if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+    });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+    // onPageCount is a notification, not an input
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url]);
+
+  // 24px of gutter, so the scrollbar doesn't force a horizontal one
+  const width = Math.max(200, ((rect?.width ?? 0) - 24) * zoom);
+
+  return (
+    <div ref={ref} className="pdf-viewer">
+      {error && <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>Could not open the PDF: {error}</span>}
+      {!doc && !error && <span className="small">Loading…</span>}
+      {doc && rect && Array.from({ length: doc.numPages }, (_, i) => <PdfPage key={i} doc={doc} index={i} width={width} />)}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// src/components/PhasePanel.tsx
+import React from "react";
+import type { EventId } from "../utils/events";
+
+/** One of the events that anchor the phase axis. */
+export type PhaseAnchor = {
+  id: EventId;
+  label: string;
+  color: string;
+  /** FBX seconds, null when neither detected nor set */
+  t: number | null;
+  manual: boolean;
+};
+
+type Props = {
+  /** graphs in % of the movement instead of seconds */
+  normalized: boolean;
+  onNormalizedChange: (on: boolean) => void;
+  /** foot lift (0%), foot plant (50%), contact/release (100%) */
+  anchors: PhaseAnchor[];
+  onSetAtPlayhead: (id: EventId) => void;
+  onReset: (id: EventId) => void;
+  onSeek: (t: number) => void;
+  style?: React.CSSProperties;
+};
+
+const PERCENT = ["0%", "50%", "100%"];
+
+/**
+ * Floating panel for phase-normalized time: switches the graphs to percent
+ * of the movement and lets the anchoring events be moved to the playhead
+ * where detection got them wrong (or missed them).
+ */
+export default function PhasePanel({
+  normalized,
+  onNormalizedChange,
+  anchors,
+  onSetAtPlayhead,
+  onReset,
+  onSeek,
+  style,
+}: Props) {
+  const complete = anchors.every((a) => a.t != null);
+  const ordered = complete && anchors.every((a, i) => i === 0 || a.t! > anchors[i - 1].t!);
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Phases</span>
+
+      <label className="toggle" title={ordered ? undefined : "Needs all three events, in order"}>
+        <input
+          type="checkbox"
+          checked={normalized && ordered}
+          disabled={!ordered}
+          onChange={(e) => onNormalizedChange(e.target.checked)}
+        />
+        <span>Graph time as % of the movement</span>
+      </label>
+
+      {anchors.map((a, i) => (
+        <div key={a.id} className="ctrl" style={{ justifyContent: "space-between", gap: 6 }}>
+          <span className="label" style={{ minWidth: 34, color: a.color }}>{PERCENT[i]}</span>
+          <button
+            className="btn ghost"
+            style={{ flex: 1, justifyContent: "flex-start", padding: "2px 6px" }}
+            disabled={a.t == null}
+            onClick={() => a.t != null && onSeek(a.t)}
+            title={a.t != null ? "Go to this event" : undefined}
+          >
+            {a.label}
+            <span className="small" style={{ marginLeft: 6 }}>
+              {a.t != null ? `${a.t.toFixed(3)} s` : "not found"}
+              {a.manual ? " · set by hand" : ""}
+            </span>
+          </button>
+          <button className="btn ghost" style={{ padding: "2px 6px" }} onClick={() => onSetAtPlayhead(a.id)} title="Place this event at the playhead">
+            Set
+          </button>
+          {a.manual && (
+            <button className="btn ghost" style={{ padding: "2px 6px" }} onClick={() => onReset(a.id)} title="Back to the detected time">
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+
+      {complete && !ordered && (
+        <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>
+          The events are out of order: foot lift must come before foot plant, and plant before the strike.
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+// src/components/ProgressDashboard.tsx
+import { useEffect, useMemo, useState } from "react";
+import { useMeasure } from "./useMeasure";
+import { loadSessionSummary, sessionDate } from "../utils/progress";
+import type { SessionSummary } from "../utils/progress";
+import type { MovementType } from "../utils/events";
+import type { MetricId, SessionMetric } from "../utils/metrics";
+
+/** A session of the player and where its Excel file lives. */
+export type ProgressSession = { session: string; excel: string };
+
+type Props = {
+  player: string;
+  sessions: ProgressSession[];
+  /** session on screen, ringed in the charts */
+  current: string | null;
+  onOpen: (session: string) => void;
+  onClose: () => void;
+};
+
+type Point = { session: string; date: number; metric: SessionMetric };
+type Series = { movement: MovementType; points: Point[] };
+type Trend = { id: MetricId; label: string; unit: string; digits: number; better?: "higher" | "lower"; series: Series[] };
+
+/** Hitting and pitching reps are trended separately. */
+const SERIES_STYLE: Record<MovementType, { label: string; color: string }> = {
+  pitcher: { label: "Pitcher", color: "#e5812b" },
+  hitter: { label: "Hitter", color: "#8fd3ff" },
+  unknown: { label: "Other", color: "#cfd6e2" },
+};
+const BEST_COLOR = "#f5c542";
+
+const DAY_MS = 86_400_000;
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function bestPoint(points: Point[], better?: "higher" | "lower"): Point | null {
+  if (!better || !points.length) return null;
+  return points.reduce((a, b) =>
+    better === "higher" ? (b.metric.value > a.metric.value ? b : a) : b.metric.value < a.metric.value ? b : a
+  );
+}
+
+function TrendChart({
+  trend,
+  current,
+  onOpen,
+}: {
+  trend: Trend;
+  current: string | null;
+  onOpen: (session: string) => void;
+}) {
+  const { ref, rect } = useMeasure<HTMLDivElement>();
+  const width = Math.max(200, rect?.width ?? 320);
+  const height = 140;
+  const margin = { top: 12, right: 14, bottom: 22, left: 44 };
+  const innerW = width - margin.left - margin.right;
+  const innerH = height - margin.top - margin.bottom;
+
+  const all = trend.series.flatMap((s) => s.points);
+  let d0 = Math.min(...all.map((p) => p.date));
+  let d1 = Math.max(...all.map((p) => p.date));
+  if (d1 - d0 < DAY_MS) [d0, d1] = [d0 - DAY_MS, d1 + DAY_MS];
+  let v0 = Math.min(...all.map((p) => p.metric.value));
+  let v1 = Math.max(...all.map((p) => p.metric.value));
+  const pad = (v1 - v0) * 0.12 || Math.abs(v1) * 0.1 || 1;
+  v0 -= pad;
+  v1 += pad;
+
+  const xOf = (date: number) => margin.left + ((date - d0) / (d1 - d0)) * innerW;
+  const yOf = (v: number) => margin.top + (1 - (v - v0) / (v1 - v0)) * innerH;
+  const fmt = (v: number) => `${v.toFixed(trend.digits)} ${trend.unit}`;
+
+  return (
+    <div className="trend-card">
+      <span style={{ color: "var(--text)", fontSize: 12, fontWeight: 700 }}>{trend.label}</span>
+      <div ref={ref} style={{ width: "100%" }}>
+        <svg width={width} height={height} role="img" aria-label={`${trend.label} over time`}>
+          <line x1={margin.left} x2={width - margin.right} y1={margin.top + innerH} y2={margin.top + innerH} stroke="rgba(255,255,255,0.15)" />
+          {[v1 - pad, v0 + pad].map((v, i) => (
+            <g key={i}>
+              <line x1={margin.left} x2={width - margin.right} y1={yOf(v)} y2={yOf(v)} stroke="rgba(255,255,255,0.06)" />
+              <text x={margin.left - 6} y={yOf(v) + 3} fill="rgba(255,255,255,0.55)" fontSize={10} textAnchor="end">
+                {v.toFixed(trend.digits)}
+              </text>
+            </g>
+          ))}
+          {[Math.min(...all.map((p) => p.date)), Math.max(...all.map((p) => p.date))].map((date, i) => (
+            <text
+              key={i}
+              x={xOf(date)}
+              y={height - 6}
+              fill="rgba(255,255,255,0.55)"
+              fontSize={10}
+              textAnchor={i === 0 && all.length > 1 ? "start" : "end"}
+            >
+              {formatDate(date)}
+            </text>
+          ))}
+
+          {trend.series.map(({ movement, points }) => {
+            const { color } = SERIES_STYLE[movement];
+            const best = bestPoint(points, trend.better);
+            const latest = points[points.length - 1];
+            return (
+              <g key={movement}>
+                <polyline
+                  points={points.map((p) => `${xOf(p.date)},${yOf(p.metric.value)}`).join(" ")}
+                  fill="none"
+                  style={{ stroke: color }}
+                  strokeWidth={1.8}
+                  strokeLinejoin="round"
+                />
+                {points.map((p) => {
+                  const x = xOf(p.date);
+                  const y = yOf(p.metric.value);
+                  return (
+                    <g key={p.session} style={{ cursor: "pointer" }} onClick={() => onOpen(p.session)}>
+                      <title>{`${p.session}: ${fmt(p.metric.value)} (click to open)`}</title>
+                      {p === best && <circle cx={x} cy={y} r={8} fill="none" style={{ stroke: BEST_COLOR }} strokeWidth={1.5} />}
+                      <circle
+                        cx={x}
+                        cy={y}
+                        r={p === latest ? 5 : 3.5}
+                        style={{ fill: color }}
+                        stroke={p.session === current ? "#fff" : "rgba(0,0,0,0.5)"}
+                        strokeWidth={p.session === current ? 2 : 1}
+                      />
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      {trend.series.map(({ movement, points }) => {
+        const best = bestPoint(points, trend.better);
+        const latest = points[points.length - 1];
+        return (
+          <span key={movement} className="small" style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {trend.series.length > 1 && <span style={{ color: SERIES_STYLE[movement].color }}>{SERIES_STYLE[movement].label}</span>}
+            {best && (
+              <span>
+                <span style={{ color: BEST_COLOR }}>Best</span> {fmt(best.metric.value)} ({formatDate(best.date)})
+              </span>
+            )}
+            <span>
+              Latest {fmt(latest.metric.value)} ({formatDate(latest.date)})
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Full-screen dashboard of one player's session metrics over time: every
+ * session's workbook is summarised and each metric is drawn as a trend line
+ * over the capture date. Clicking a point opens that session.
+ */
+export default function ProgressDashboard({ player, sessions, current, onOpen, onClose }: Props) {
+  const [summaries, setSummaries] = useState<Record<string, SessionSummary | null>>({});
+
+  // one session at a time: each workbook is parsed on the main thread
+  useEffect(() => {
+    let cancelled = false;
+    setSummaries({});
+    (async () => {
+      for (const { session, excel } of sessions) {
+        let summary: SessionSummary | null = null;
+        try {
+          summary = await loadSessionSummary(excel);
+        } catch (err) {
+          console.error(`Progress: ${session} failed to load:`, err);
+        }
+        if (cancelled) return;
+        setSummaries((prev) => ({ ...prev, [session]: summary }));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessions]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const undated = sessions.filter((s) => sessionDate(s.session) == null).map((s) => s.session);
+  const failed = sessions.filter((s) => summaries[s.session] === null).map((s) => s.session);
+  const loaded = sessions.filter((s) => s.session in summaries).length;
+
+  const trends = useMemo(() => {
+    const dated = sessions
+      .map(({ session }) => ({ session, date: sessionDate(session), summary: summaries[session] }))
+      .filter((s): s is { session: string; date: number; summary: SessionSummary } => s.date != null && !!s.summary)
+      .sort((a, b) => a.date - b.date);
+
+    const byId = new Map<MetricId, Trend>();
+    for (const { session, date, summary } of dated) {
+      for (const metric of summary.metrics) {
+        let trend = byId.get(metric.id);
+        if (!trend) {
+          trend = { id: metric.id, label: metric.label, unit: metric.unit, digits: metric.digits, better: metric.better, series: [] };
+          byId.set(metric.id, trend);
+        }
+        let series = trend.series.find((s) => s.movement === summary.movement);
+        if (!series) {
+          series = { movement: summary.movement, points: [] };
+          trend.series.push(series);
+        }
+        series.points.push({ session, date, metric });
+      }
+    }
+    return [...byId.values()];
+  }, [sessions, summaries]);
+
+  const datedCount = sessions.length - undated.length;
+
+  return (
+    <div className="dashboard-backdrop" onClick={onClose}>
+      <div className="panel-wrap dashboard" onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span style={{ color: "var(--text)", fontSize: 16, fontWeight: 700 }}>{player} · Progress</span>
+            <span className="small">
+              {loaded < sessions.length
+                ? `Loading sessions… ${loaded} / ${sessions.length}`
+                : `${sessions.length} session${sessions.length === 1 ? "" : "s"}`}
+            </span>
+          </div>
+          <button className="btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {loaded === sessions.length && datedCount < 2 && (
+          <span className="small">Trends appear once the player has sessions on two or more dates.</span>
+        )}
+
+        <div className="trend-grid">
+          {trends.map((trend) => (
+            <TrendChart key={trend.id} trend={trend} current={current} onOpen={onOpen} />
+          ))}
+        </div>
+
+        {undated.length > 0 && (
+          <span className="small">Not on the timeline (no date in the folder name): {undated.join(", ")}</span>
+        )}
+        {failed.length > 0 && (
+          <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>
+            Could not load: {failed.join(", ")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// src/components/RenderClipPanel.tsx
+import React, { useEffect, useState } from "react";
+import CustomSelect from "./CustomSelect";
+
+export type ClipSize = "720p" | "1080p";
+
+/** What to render; times in FBX seconds. */
+export type ClipSettings = {
+  from: number;
+  to: number;
+  /** camera preset, or "current" to keep the view as it is */
+  view: string;
+  speed: number;
+  size: ClipSize;
+  includeGraphs: boolean;
+  title: string;
+};
+
+type Props = {
+  duration: number;
+  fps: number;
+  /** A–B loop, used as the initial range */
+  loopRange: { a: number; b: number } | null;
+  defaultTitle: string;
+  views: Array<{ value: string; label: string }>;
+  /** docked graphs are on screen to composite */
+  hasGraphs: boolean;
+  /** share done (0–1) while rendering, else null */
+  progress: number | null;
+  error: string | null;
+  onRender: (settings: ClipSettings) => void;
+  onCancel: () => void;
+  style?: React.CSSProperties;
+};
+
+const SPEEDS = [
+  { value: "1", label: "1x (real time)" },
+  { value: "0.5", label: "0.5x" },
+  { value: "0.25", label: "0.25x" },
+  { value: "0.1", label: "0.1x" },
+];
+
+const SIZES: Array<{ value: ClipSize; label: string }> = [
+  { value: "720p", label: "1280 × 720" },
+  { value: "1080p", label: "1920 × 1080" },
+];
+
+function RangeSlider({
+  label,
+  value,
+  max,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  step: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="ctrl" style={{ justifyContent: "space-between" }}>
+      <span className="label" style={{ minWidth: 40 }}>{label}</span>
+      <input
+        className="slider"
+        type="range"
+        min={0}
+        max={Math.max(step, max)}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        style={{ width: 150 }}
+      />
+      <span className="small" style={{ minWidth: 48, textAlign: "right" }}>{value.toFixed(3)} s</span>
+    </div>
+  );
+}
+
+/** Floating panel to render a range of the playback, with graphs and a title card, to a WebM file. */
+export default function RenderClipPanel({
+  duration,
+  fps,
+  loopRange,
+  defaultTitle,
+  views,
+  hasGraphs,
+  progress,
+  error,
+  onRender,
+  onCancel,
+  style,
+}: Props) {
+  const [from, setFrom] = useState(loopRange?.a ?? 0);
+  const [to, setTo] = useState(loopRange?.b ?? duration);
+  const [view, setView] = useState("current");
+  const [speed, setSpeed] = useState("0.25");
+  const [size, setSize] = useState<ClipSize>("720p");
+  const [includeGraphs, setIncludeGraphs] = useState(true);
+  const [title, setTitle] = useState(defaultTitle);
+
+  // start from the loop when there is one, else the whole clip
+  useEffect(() => {
+    setFrom(loopRange?.a ?? 0);
+    setTo(loopRange?.b ?? duration);
+  }, [loopRange, duration]);
+  useEffect(() => setTitle(defaultTitle), [defaultTitle]);
+
+  const busy = progress != null;
+  const frames = Math.max(0, Math.floor((to - from) * fps + 1e-6) + 1);
+  const seconds = (to - from) / parseFloat(speed);
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 300, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Render clip</span>
+
+      <RangeSlider label="From" value={from} max={duration} step={1 / fps} onChange={(v) => setFrom(Math.min(v, to))} />
+      <RangeSlider label="To" value={to} max={duration} step={1 / fps} onChange={(v) => setTo(Math.max(v, from))} />
+
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Camera</span>
+        <CustomSelect value={view} onChange={setView} options={[{ value: "current", label: "Current view" }, ...views]} />
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Speed</span>
+        <CustomSelect value={speed} onChange={setSpeed} options={SPEEDS} />
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label">Size</span>
+        <CustomSelect value={size} onChange={(v) => setSize(v as ClipSize)} options={SIZES} />
+      </div>
+      <input
+        className="text-input"
+        placeholder="Title card (leave empty for none)"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <label className="toggle" title={hasGraphs ? "Stack the docked graphs under the 3D view" : "Dock a graph at the bottom to include it"}>
+        <input
+          type="checkbox"
+          checked={includeGraphs && hasGraphs}
+          disabled={!hasGraphs}
+          onChange={(e) => setIncludeGraphs(e.target.checked)}
+        />
+        <span>Include graphs</span>
+      </label>
+
+      <span className="small">
+        {frames} frames at {fps} fps → {seconds.toFixed(1)} s of video
+      </span>
+      {error && <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>{error}</span>}
+
+      {busy ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <div className="render-progress">
+            <div style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <button className="btn ghost" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          className="btn primary"
+          disabled={frames < 2}
+          onClick={() =>
+            onRender({
+              from,
+              to,
+              view,
+              speed: parseFloat(speed),
+              size,
+              includeGraphs: includeGraphs && hasGraphs,
+              title: title.trim(),
+            })
+          }
+        >
+          Render WebM
+        </button>
+      )}
+    </div>
+  );
+}
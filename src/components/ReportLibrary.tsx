@@ -0,0 +1,118 @@
+// src/components/ReportLibrary.tsx
+import { useEffect, useMemo, useState } from "react";
+import PdfViewer from "./PdfViewer";
+
+/** A PDF report filed with one of the player's sessions. */
+export type LibraryReport = {
+  session: string;
+  file: string;
+  title: string;
+  /** UTC timestamp, null when unknown */
+  date: number | null;
+  url: string;
+};
+
+type Props = {
+  player: string;
+  reports: LibraryReport[];
+  /** session on screen: its reports are listed first and the newest is opened */
+  current: string | null;
+  onClose: () => void;
+};
+
+const ZOOMS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/** Newest first; the current session's reports ahead of the rest. */
+function ordered(reports: LibraryReport[], current: string | null): LibraryReport[] {
+  return [...reports].sort(
+    (a, b) =>
+      Number(b.session === current) - Number(a.session === current) ||
+      (b.date ?? -Infinity) - (a.date ?? -Infinity) ||
+      a.title.localeCompare(b.title)
+  );
+}
+
+/** The player's report library: every PDF filed with their sessions, viewed in the page. */
+export default function ReportLibrary({ player, reports, current, onClose }: Props) {
+  const list = useMemo(() => ordered(reports, current), [reports, current]);
+  const [selected, setSelected] = useState<string | null>(() => list[0]?.url ?? null);
+  const [zoom, setZoom] = useState(1);
+  const [pages, setPages] = useState<number | null>(null);
+  const report = list.find((r) => r.url === selected) ?? null;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const zoomBy = (step: number) => {
+    const i = ZOOMS.indexOf(zoom);
+    setZoom(ZOOMS[Math.min(ZOOMS.length - 1, Math.max(0, i + step))]);
+  };
+
+  return (
+    <div className="dashboard-backdrop" onClick={onClose}>
+      <div className="panel-wrap dashboard report-library" onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span style={{ color: "var(--text)", fontSize: 16, fontWeight: 700 }}>{player} · Reports</span>
+            <span className="small">
+              {reports.length} report{reports.length === 1 ? "" : "s"}
+              {report && pages != null ? ` · ${report.title}: ${pages} page${pages === 1 ? "" : "s"}` : ""}
+            </span>
+          </div>
+          <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <button className="btn ghost" onClick={() => zoomBy(-1)} disabled={!report || zoom === ZOOMS[0]} title="Zoom out">
+              −
+            </button>
+            <span className="small" style={{ minWidth: 36, textAlign: "center" }}>{Math.round(zoom * 100)}%</span>
+            <button className="btn ghost" onClick={() => zoomBy(1)} disabled={!report || zoom === ZOOMS[ZOOMS.length - 1]} title="Zoom in">
+              +
+            </button>
+            {report && (
+              <a className="btn" href={report.url} download={report.file}>
+                Download
+              </a>
+            )}
+            <button className="btn" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="report-library-body">
+          <div className="report-list">
+            {list.map((r) => (
+              <button
+                key={r.url}
+                className={r.url === selected ? "report-item active" : "report-item"}
+                onClick={() => {
+                  setSelected(r.url);
+                  setPages(null);
+                }}
+              >
+                <span className="report-item-title">{r.title}</span>
+                <span className="small">
+                  {r.date != null ? formatDate(r.date) : "Undated"} · {r.session}
+                  {r.session === current ? " (open)" : ""}
+                </span>
+              </button>
+            ))}
+          </div>
+          {report ? (
+            <PdfViewer url={report.url} zoom={zoom} onPageCount={setPages} />
+          ) : (
+            <span className="small">No reports have been filed for this player.</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
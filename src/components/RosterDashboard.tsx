@@ -0,0 +1,210 @@
+// src/components/RosterDashboard.tsx
+import { useEffect, useMemo, useState } from "react";
+import { loadSessionSummary } from "../utils/progress";
+import type { SessionSummary } from "../utils/progress";
+import type { ProgressSession } from "./ProgressDashboard";
+import type { MovementType } from "../utils/events";
+import type { MetricId, SessionMetric } from "../utils/metrics";
+import { OUTLIER_Z, ordinal, percentileRank, robustZ } from "../utils/roster";
+
+type Props = {
+  players: string[];
+  /** a player's default session, or null when they have none */
+  loadDefault: (player: string) => Promise<ProgressSession | null>;
+  onOpen: (player: string, session: string) => void;
+  onClose: () => void;
+};
+
+type Entry = { player: string; session: string; summary: SessionSummary };
+type Filter = "all" | "pitcher" | "hitter";
+type SortKey = "player" | MetricId;
+
+/** Core metrics shown as columns, in order. */
+const COLUMNS: Array<{ id: MetricId; label: string }> = [
+  { id: "pelvisPeak", label: "Pelvis" },
+  { id: "torsoPeak", label: "Torso" },
+  { id: "armPeak", label: "Arm" },
+  { id: "handPeak", label: "Hand" },
+  { id: "plantToStrike", label: "Plant → strike" },
+  { id: "strideLength", label: "Stride" },
+  { id: "maxSeparation", label: "Separation" },
+];
+
+const FILTERS: Array<{ value: Filter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "pitcher", label: "Pitchers" },
+  { value: "hitter", label: "Hitters" },
+];
+
+const MOVEMENT_LABEL: Record<MovementType, string> = { pitcher: "Pitcher", hitter: "Hitter", unknown: "—" };
+
+function metricOf(entry: Entry, id: MetricId): SessionMetric | undefined {
+  return entry.summary.metrics.find((m) => m.id === id);
+}
+
+/**
+ * Admin roster table: each player's default session summarised into the
+ * core metrics, with percentile ranks among players of the same movement
+ * (hitters against hitters, pitchers against pitchers) and outliers flagged.
+ */
+export default function RosterDashboard({ players, loadDefault, onOpen, onClose }: Props) {
+  const [entries, setEntries] = useState<Record<string, Entry | null>>({});
+  const [filter, setFilter] = useState<Filter>("all");
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "pelvisPeak", desc: true });
+
+  // one player at a time: each workbook is parsed on the main thread
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const player of players) {
+        let entry: Entry | null = null;
+        try {
+          const src = await loadDefault(player);
+          if (src) entry = { player, session: src.session, summary: await loadSessionSummary(src.excel) };
+        } catch (err) {
+          console.error(`Roster: ${player} failed to load:`, err);
+        }
+        if (cancelled) return;
+        setEntries((prev) => ({ ...prev, [player]: entry }));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [players, loadDefault]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const loaded = useMemo(() => Object.values(entries).filter((e): e is Entry => !!e), [entries]);
+  const failed = players.filter((p) => entries[p] === null);
+
+  // ranks are taken within each movement group, whatever the filter shows
+  const groups = useMemo(() => {
+    const out = new Map<string, number[]>();
+    for (const e of loaded) {
+      for (const m of e.summary.metrics) {
+        const key = `${e.summary.movement}:${m.id}`;
+        out.set(key, [...(out.get(key) ?? []), m.value]);
+      }
+    }
+    return out;
+  }, [loaded]);
+
+  const rows = useMemo(() => {
+    const visible = loaded.filter((e) => filter === "all" || e.summary.movement === filter);
+    const dir = sort.desc ? -1 : 1;
+    return visible.sort((a, b) => {
+      if (sort.key === "player") return dir * a.player.localeCompare(b.player);
+      const va = metricOf(a, sort.key)?.value;
+      const vb = metricOf(b, sort.key)?.value;
+      // players without the metric go last either way
+      if (va == null || vb == null) return va == null ? (vb == null ? 0 : 1) : -1;
+      return dir * (va - vb);
+    });
+  }, [loaded, filter, sort]);
+
+  const cell = (entry: Entry, id: MetricId) => {
+    const m = metricOf(entry, id);
+    if (!m) return <td key={id} className="roster-cell">–</td>;
+    const values = groups.get(`${entry.summary.movement}:${id}`) ?? [];
+    const pct = percentileRank(values, m.value, m.better);
+    const z = robustZ(values, m.value) ?? 0;
+    const outlier = Math.abs(z) > OUTLIER_Z;
+    const tip = [
+      `${m.label}: ${m.value.toFixed(m.digits)} ${m.unit}`,
+      pct != null ? `${ordinal(pct)} percentile among ${values.length} ${MOVEMENT_LABEL[entry.summary.movement].toLowerCase()}s` : null,
+      outlier ? `Outlier: ${Math.abs(z).toFixed(1)} robust SDs ${z > 0 ? "above" : "below"} the median` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return (
+      <td key={id} className={outlier ? "roster-cell outlier" : "roster-cell"} title={tip}>
+        {m.value.toFixed(m.digits)}
+        {pct != null && <span className="small roster-pct">{ordinal(pct)}</span>}
+      </td>
+    );
+  };
+
+  const header = (key: SortKey, label: string, unit?: string) => (
+    <th
+      key={key}
+      onClick={() => setSort((s) => ({ key, desc: s.key === key ? !s.desc : key !== "player" }))}
+      aria-sort={sort.key === key ? (sort.desc ? "descending" : "ascending") : undefined}
+    >
+      {label}
+      {unit && <span className="small"> {unit}</span>}
+      {sort.key === key && <span className="small"> {sort.desc ? "▼" : "▲"}</span>}
+    </th>
+  );
+
+  const unitOf = (id: MetricId) => {
+    for (const e of loaded) {
+      const m = metricOf(e, id);
+      if (m) return m.unit;
+    }
+    return undefined;
+  };
+
+  return (
+    <div className="dashboard-backdrop" onClick={onClose}>
+      <div className="panel-wrap dashboard" onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span style={{ color: "var(--text)", fontSize: 16, fontWeight: 700 }}>Roster</span>
+            <span className="small">
+              {Object.keys(entries).length < players.length
+                ? `Loading players… ${Object.keys(entries).length} / ${players.length}`
+                : `${loaded.length} players · default sessions · percentiles within hitters / pitchers`}
+            </span>
+          </div>
+          <div style={{ display: "flex", gap: 6 }}>
+            {FILTERS.map((f) => (
+              <button key={f.value} className={filter === f.value ? "btn primary" : "btn ghost"} onClick={() => setFilter(f.value)}>
+                {f.label}
+              </button>
+            ))}
+            <button className="btn" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+
+        <table className="roster-table">
+          <thead>
+            <tr>
+              {header("player", "Player")}
+              <th>Type</th>
+              {COLUMNS.map((c) => header(c.id, c.label, unitOf(c.id)))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((e) => (
+              <tr key={e.player}>
+                <td>
+                  <button className="roster-player" onClick={() => onOpen(e.player, e.session)} title={`Open ${e.session}`}>
+                    {e.player}
+                  </button>
+                  <span className="small" style={{ marginLeft: 6 }}>{e.session}</span>
+                </td>
+                <td className="small">{MOVEMENT_LABEL[e.summary.movement]}</td>
+                {COLUMNS.map((c) => cell(e, c.id))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {failed.length > 0 && (
+          <span className="small" style={{ color: "#ff6b6b", opacity: 1 }}>
+            Could not load: {failed.join(", ")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { useMeasure } from "./useMeasure";
+import { normalizedCurve } from "../utils/sequence";
+import type { SequenceResult, SegmentId } from "../utils/sequence";
+import type { EventMarker } from "../utils/events";
+import { stretchAlignment, toDataTime, toFbxTime } from "../utils/timeAlign";
+import type { TimeAlignment } from "../utils/timeAlign";
+import { formatPhase, fromPhase, phaseTicks, toPhase } from "../utils/norms";
+import type { PhaseKnot } from "../utils/norms";
+
+interface Props {
+  sequence: SequenceResult;
+  time: number;             // FBX time (s)
+  fbxDuration: number;      // duration of the FBX (s)
+  alignment?: TimeAlignment; // JSON → FBX time; default stretches the sequence over fbxDuration
+  phase?: PhaseKnot[] | null; // x axis in % of the movement instead of seconds
+  height?: number;          // default 220
+  title?: string;
+  onSeek?: (tJson: number) => void;
+  markers?: EventMarker[];  // phase events (FBX seconds)
+}
+
+/**
+ * Kinematic-sequence chart: each segment's |velocity| normalized to its own
+ * peak, with the peak marked. Clicking a peak seeks the playhead to it.
+ */
+const SequenceGraph: React.FC<Props> = ({
+  sequence,
+  time,
+  fbxDuration,
+  alignment,
+  phase,
+  height = 220,
+  title = "Kinematic Sequence",
+  onSeek,
+  markers,
+}) => {
+  const { ref, rect } = useMeasure<HTMLDivElement>();
+  const [hoverId, setHoverId] = useState<SegmentId | null>(null);
+
+  const xMax = sequence.duration > 0 ? sequence.duration : 1;
+  const align = useMemo(() => alignment ?? stretchAlignment(xMax, fbxDuration), [alignment, xMax, fbxDuration]);
+
+  const margin = { top: 40, right: 22, bottom: 42, left: 52 };
+  const width = Math.max(160, rect?.width ?? 420);
+  const innerW = Math.max(10, width - margin.left - margin.right);
+  const innerH = Math.max(10, height - margin.top - margin.bottom);
+
+  // x runs in JSON time, or in phase (warped through the events)
+  const toX = useCallback((t: number) => (phase ? toPhase(phase, t) : t), [phase]);
+  const xLo = toX(0);
+  const xHi = toX(xMax);
+  const xToPx = useCallback(
+    (t: number) => margin.left + ((toX(Math.min(xMax, Math.max(0, t))) - xLo) / (xHi - xLo)) * innerW,
+    [toX, xMax, xLo, xHi, innerW, margin.left]
+  );
+  const yToPx = (u: number) => margin.top + (1 - Math.min(1.05, Math.max(0, u)) / 1.05) * innerH;
+
+  const curves = useMemo(
+    () =>
+      sequence.segments.map((seg) => {
+        const norm = normalizedCurve(seg);
+        let d = "";
+        for (let i = 0; i < norm.length; i++) {
+          const x = xToPx(seg.signal.t[i]);
+          const y = margin.top + (1 - Math.min(1.05, norm[i]) / 1.05) * innerH;
+          d += i === 0 ? `M ${x} ${y}` : ` L ${x} ${y}`;
+        }
+        return { seg, d };
+      }),
+    [sequence, xToPx, innerH, margin.top]
+  );
+
+  const xTicks = useMemo(() => {
+    if (phase) return phaseTicks(xLo, xHi).map((u) => ({ jsonT: fromPhase(phase, u), label: formatPhase(u) }));
+    const n = 5;
+    return Array.from({ length: n + 1 }, (_, i) => ({
+      jsonT: (i / n) * xMax,
+      label: `${toFbxTime(align, (i / n) * xMax).toFixed(2)}s`,
+    }));
+  }, [xMax, align, phase, xLo, xHi]);
+
+  // current playhead: convert FBX time → JSON time
+  const playheadX = xToPx(toDataTime(align, time));
+  const markerX = (tFbx: number) => xToPx(toDataTime(align, tFbx));
+
+  const labelOf = (id: SegmentId) => sequence.segments.find((s) => s.id === id)?.label ?? id;
+
+  return (
+    <div ref={ref} style={{ width: "100%", position: "relative" }}>
+      <svg width={width} height={height} role="img" aria-label={title}>
+        <rect x={0} y={0} width={width} height={height} fill="rgba(12,14,18,0.6)" rx={10} />
+
+        <text x={margin.left} y={18} fill="#cfd6e2" fontSize={13} fontWeight={700}>
+          {title}
+        </text>
+        <text x={margin.left} y={33} fill={sequence.inOrder ? "#3ddc97" : "#ff7a7a"} fontSize={11}>
+          {sequence.inOrder ? "Proximal → distal" : "Out of order"}
+          {" · "}
+          {sequence.order.map(labelOf).join(" → ")}
+        </text>
+
+        {/* Y grid (percent of each segment's peak) */}
+        {[0, 0.25, 0.5, 0.75, 1].map((u) => (
+          <g key={`yg-${u}`}>
+            <line
+              x1={margin.left}
+              x2={width - margin.right}
+              y1={yToPx(u)}
+              y2={yToPx(u)}
+              stroke="rgba(200,200,200,0.10)"
+              strokeWidth={1}
+            />
+            <text x={margin.left - 10} y={yToPx(u) + 4} textAnchor="end" fill="#d0d0d0" fontSize={12}>
+              {Math.round(u * 100)}%
+            </text>
+          </g>
+        ))}
+
+        {/* X grid + labels (labels in FBX seconds or percent) */}
+        {xTicks.map(({ jsonT, label }, i) => (
+          <g key={`xg-${i}`}>
+            <line
+              x1={xToPx(jsonT)}
+              x2={xToPx(jsonT)}
+              y1={margin.top}
+              y2={height - margin.bottom}
+              stroke="rgba(200,200,200,0.06)"
+              strokeWidth={1}
+            />
+            <text x={xToPx(jsonT)} y={height - margin.bottom + 20} textAnchor="middle" fill="#d0d0d0" fontSize={12}>
+              {label}
+            </text>
+          </g>
+        ))}
+
+        {/* Phase event markers */}
+        {markers?.map((m, i) => (
+          <g key={`ev-${m.id}`}>
+            <title>{m.label}</title>
+            <line
+              x1={markerX(m.t)}
+              x2={markerX(m.t)}
+              y1={margin.top}
+              y2={height - margin.bottom}
+              stroke={m.color ?? "#8fd3ff"}
+              strokeWidth={1}
+              opacity={0.75}
+            />
+            <text
+              x={markerX(m.t) + 3}
+              y={height - margin.bottom - 6 - (i % 2) * 11}
+              fill={m.color ?? "#8fd3ff"}
+              fontSize={10}
+              fontWeight={700}
+            >
+              {m.label}
+            </text>
+          </g>
+        ))}
+
+        {/* Curves */}
+        {curves.map(({ seg, d }) => (
+          <path
+            key={`c-${seg.id}`}
+            d={d}
+            fill="none"
+            stroke={seg.color}
+            strokeWidth={hoverId === seg.id ? 2.6 : 1.8}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            opacity={hoverId && hoverId !== seg.id ? 0.35 : 0.95}
+          />
+        ))}
+
+        {/* Playhead */}
+        <line
+          x1={playheadX}
+          x2={playheadX}
+          y1={margin.top}
+          y2={height - margin.bottom}
+          stroke="#ffffff"
+          strokeWidth={1.2}
+          opacity={0.9}
+        />
+
+        {/* Peaks (click to seek) */}
+        {sequence.segments.map((seg) => {
+          const x = xToPx(seg.peakTime);
+          const y = yToPx(1);
+          return (
+            <g
+              key={`p-${seg.id}`}
+              style={{ cursor: onSeek ? "pointer" : "default" }}
+              onPointerEnter={() => setHoverId(seg.id)}
+              onPointerLeave={() => setHoverId(null)}
+              onClick={() => onSeek?.(seg.peakTime)}
+            >
+              <line
+                x1={x}
+                x2={x}
+                y1={y}
+                y2={height - margin.bottom}
+                stroke={seg.color}
+                strokeWidth={1}
+                strokeDasharray="4 4"
+                opacity={0.6}
+              />
+              <circle cx={x} cy={y} r={9} fill="transparent" />
+              <circle cx={x} cy={y} r={4.5} fill={seg.color} stroke="#fff" strokeWidth={1} />
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend: peak values + gaps */}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "4px 14px",
+          padding: "6px 4px 0",
+          fontSize: 12,
+          color: "#cfd6e2",
+        }}
+      >
+        {sequence.segments.map((seg) => (
+          <button
+            key={`l-${seg.id}`}
+            type="button"
+            onClick={() => onSeek?.(seg.peakTime)}
+            onPointerEnter={() => setHoverId(seg.id)}
+            onPointerLeave={() => setHoverId(null)}
+            style={{
+              display: "inline-flex",
+              alignItems: "center",
+              gap: 6,
+              background: "none",
+              border: "none",
+              color: "inherit",
+              padding: 0,
+              cursor: onSeek ? "pointer" : "default",
+              font: "inherit",
+            }}
+            title={`${seg.signal.source.join(", ")} (${seg.sheet})`}
+          >
+            <span style={{ width: 10, height: 10, borderRadius: 5, background: seg.color }} />
+            <span style={{ fontWeight: 700 }}>{seg.label}</span>
+            <span style={{ opacity: 0.85 }}>
+              {Math.abs(seg.peakValue).toFixed(seg.kind === "angular" ? 0 : 1)} {seg.unit}
+            </span>
+          </button>
+        ))}
+        {sequence.gaps.map((g) => (
+          <span key={`g-${g.from}-${g.to}`} style={{ opacity: 0.85 }}>
+            {labelOf(g.from)} → {labelOf(g.to)}: {Math.round(g.dt * 1000)} ms
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SequenceGraph;
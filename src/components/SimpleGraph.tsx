@@ -1,31 +1,83 @@
-import React, { useMemo, useRef, useState, useEffect, useCallback } from "react";
+import React, { useMemo, useRef, useState, useCallback } from "react";
+import { useMeasure } from "./useMeasure";
+import type { EventMarker } from "../utils/events";
+import { stretchAlignment, toDataTime, toFbxTime } from "../utils/timeAlign";
+import type { TimeAlignment } from "../utils/timeAlign";
+import { formatPhase, fromPhase, phaseTicks, toPhase } from "../utils/norms";
+import type { PhaseKnot } from "../utils/norms";
 
 type SeriesPoint = { t?: number; value: number };
 
-interface Props {
+export type GraphSeries = {
+  id: string;
+  label: string;
+  color: string;
   data: SeriesPoint[];
+  dashed?: boolean;
+  faint?: boolean;          // thin and translucent, e.g. the raw signal under a filtered one
+};
+
+/** Reference range (e.g. a normative mean ± SD) shaded behind a series. */
+export type GraphBand = {
+  seriesId: string;         // drawn in this series' colour, on its y axis
+  label: string;
+  data: Array<{ t: number; lo: number; hi: number; mean: number }>;
+};
+
+export type YAxisMode = "shared" | "independent";
+
+type Domain = { min: number; max: number; maxTime: number };
+
+interface Props {
+  data?: SeriesPoint[];     // single-series shorthand
+  series?: GraphSeries[];   // N overlaid series (takes precedence over `data`)
+  bands?: GraphBand[];      // reference bands, JSON seconds like the series
+  yMode?: YAxisMode;        // default "shared"
+  onYModeChange?: (mode: YAxisMode) => void;
+  onRemoveSeries?: (id: string) => void;
   time: number;             // FBX time (s)
   jsonDuration: number;     // duration of the JSON series (s)
   fbxDuration: number;      // duration of the FBX (s)
+  alignment?: TimeAlignment; // JSON → FBX time; default stretches jsonDuration over fbxDuration
+  phase?: PhaseKnot[] | null; // x axis in % of the movement (JSON time → phase) instead of seconds
   height?: number;          // default 180
   title?: string;
   yLabel?: string;          // shown under the title
   onSeek?: (tJson: number) => void;
+  markers?: EventMarker[];  // phase events (FBX seconds)
+  loopRange?: { a: number; b: number } | null; // A–B loop (FBX seconds), shaded
+  onSelectRange?: (t0Json: number, t1Json: number) => void; // shift-drag across the plot
 }
 
 /* ---- helpers ---- */
 
-function useMeasure<T extends HTMLElement>() {
-  const ref = useRef<T | null>(null);
-  const [rect, setRect] = useState<DOMRect | null>(null);
-  useEffect(() => {
-    if (!ref.current) return;
-    const ro = new ResizeObserver(() => setRect(ref.current!.getBoundingClientRect()));
-    ro.observe(ref.current);
-    setRect(ref.current.getBoundingClientRect());
-    return () => ro.disconnect();
-  }, []);
-  return { ref, rect };
+const DEFAULT_COLOR = "#e5812b";
+
+function domainOf(data: SeriesPoint[]): Domain | null {
+  let min = Infinity, max = -Infinity;
+  let maxTime = 0;
+  for (const d of data) {
+    const v = d.value;
+    if (Number.isFinite(v)) {
+      if (v < min) min = v;
+      if (v > max) {
+        max = v;
+        maxTime = d.t ?? 0;
+      }
+    }
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+  return { min, max, maxTime };
+}
+
+function padDomain(d: Domain | null): Domain {
+  if (!d) return { min: 0, max: 1, maxTime: 0 };
+  if (d.min === d.max) {
+    const pad = Math.abs(d.min) > 1 ? Math.abs(d.min) * 0.05 : 0.5;
+    return { min: d.min - pad, max: d.max + pad, maxTime: d.maxTime };
+  }
+  const pad = (d.max - d.min) * 0.08;
+  return { min: d.min - pad, max: d.max + pad, maxTime: d.maxTime };
 }
 
 function nearestIndexByT(arr: SeriesPoint[], t: number) {
@@ -49,53 +101,93 @@ function nearestIndexByT(arr: SeriesPoint[], t: number) {
 
 const SimpleGraph: React.FC<Props> = ({
   data,
+  series,
+  bands,
+  yMode = "shared",
+  onYModeChange,
+  onRemoveSeries,
   time,
   jsonDuration,
   fbxDuration,
+  alignment,
+  phase,
   height = 180,
   title,
   yLabel,
   onSeek,
+  markers,
+  loopRange,
+  onSelectRange,
 }) => {
   const { ref, rect } = useMeasure<HTMLDivElement>();
 
+  /* ------------------------- Series --------------------------- */
+  const allSeries = useMemo<GraphSeries[]>(() => {
+    if (series) return series;
+    return data ? [{ id: "main", label: title ?? "", color: DEFAULT_COLOR, data }] : [];
+  }, [series, data, title]);
+
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set());
+  const toggleSeries = useCallback((id: string) => {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const visible = useMemo(() => allSeries.filter((s) => !hidden.has(s.id) && s.data.length > 0), [allSeries, hidden]);
+  const showLegend = allSeries.length > 1 || !!onRemoveSeries;
+  const visibleBands = useMemo(
+    () => (bands ?? []).filter((b) => b.data.length > 1 && visible.some((s) => s.id === b.seriesId)),
+    [bands, visible]
+  );
+
   /* ---------------------- X & Y domains ---------------------- */
   // JSON domain drives drawing & interaction
   const xMin = 0;
   const xMax = jsonDuration > 0
     ? jsonDuration
-    : Math.max(0, (data.length ? (data[data.length - 1].t ?? 0) : 0));
-
-  // FBX seconds used for axis labels and playhead readout
-  const labelSeconds = useMemo(() => {
-    return (fbxDuration && Number.isFinite(fbxDuration) && fbxDuration > 0)
-      ? fbxDuration
-      : xMax; // fall back to JSON time if FBX unknown
-  }, [fbxDuration, xMax]);
-
-  // y domain
-  const { yMin, yMax, maxValueTime } = useMemo(() => {
-    if (!data || data.length === 0) return { yMin: 0, yMax: 1, maxValueTime: 0 };
-    let min = Infinity, max = -Infinity;
-    let maxTime = 0;
-    for (const d of data) {
-      const v = d.value;
-      if (Number.isFinite(v)) {
-        if (v < min) min = v;
-        if (v > max) {
-          max = v;
-          maxTime = d.t ?? 0;
-        }
-      }
-    }
-    if (!Number.isFinite(min) || !Number.isFinite(max)) return { yMin: 0, yMax: 1, maxValueTime: 0 };
-    if (min === max) {
-      const pad = Math.abs(min) > 1 ? Math.abs(min) * 0.05 : 0.5;
-      return { yMin: min - pad, yMax: max + pad, maxValueTime: maxTime };
+    : Math.max(0, ...allSeries.map((s) => (s.data.length ? (s.data[s.data.length - 1].t ?? 0) : 0)));
+
+  // JSON ↔ FBX seconds (axis labels, playhead, markers); JSON time if FBX unknown
+  const align = useMemo(
+    () => alignment ?? stretchAlignment(xMax, Number.isFinite(fbxDuration) ? fbxDuration : 0),
+    [alignment, xMax, fbxDuration]
+  );
+
+  // y domains: one per series (independent axes) plus their union (shared axis)
+  const domains = useMemo(() => {
+    const per = new Map<string, Domain>();
+    let union: Domain | null = null;
+    for (const s of visible) {
+      // a band stretches its series' axis so it is never clipped
+      const extra = visibleBands
+        .filter((b) => b.seriesId === s.id)
+        .flatMap((b) => b.data.flatMap((p) => [{ value: p.lo }, { value: p.hi }]));
+      const own = domainOf(s.data);
+      const d = own && extra.length ? { ...domainOf([...s.data, ...extra])!, maxTime: own.maxTime } : own;
+      if (!d) continue;
+      per.set(s.id, padDomain(d));
+      union = union
+        ? { min: Math.min(union.min, d.min), max: Math.max(union.max, d.max), maxTime: union.maxTime }
+        : d;
     }
-    const pad = (max - min) * 0.08;
-    return { yMin: min - pad, yMax: max + pad, maxValueTime: maxTime };
-  }, [data]);
+    return { per, shared: padDomain(union) };
+  }, [visible, visibleBands]);
+
+  const independent = yMode === "independent" && visible.length > 1;
+  const seriesDomain = useCallback(
+    (id: string) => (independent ? domains.per.get(id) ?? domains.shared : domains.shared),
+    [independent, domains]
+  );
+
+  // the left axis belongs to the first visible series when axes are independent
+  const axisSeries = visible[0] ?? null;
+  const axisDomain = axisSeries ? seriesDomain(axisSeries.id) : domains.shared;
+  const yMin = axisDomain.min;
+  const yMax = axisDomain.max;
+  const maxValueTime = visible.length === 1 ? (domains.per.get(visible[0].id)?.maxTime ?? 0) : null;
 
   /* -------------------------- Ticks -------------------------- */
   // Generate nice round whole number ticks for y-axis
@@ -127,20 +219,25 @@ const SimpleGraph: React.FC<Props> = ({
     return res;
   }, [yMin, yMax]);
 
+  // The x axis runs in JSON time, or in phase (warped piecewise linearly through the events)
+  const toX = useCallback((tJson: number) => (phase ? toPhase(phase, tJson) : tJson), [phase]);
+  const fromX = useCallback((x: number) => (phase ? fromPhase(phase, x) : x), [phase]);
+  const xLo = toX(xMin);
+  const xHi = toX(xMax);
+
   // Generate ticks in JSON domain (so they align with the path),
-  // but *label* them in FBX seconds using the same fraction.
+  // but *label* them in FBX seconds (or percent of the movement).
   const xTicks = useMemo(() => {
-    const n = 5;
-    const res: { jsonT: number; labelSec: number }[] = [];
+    const res: { jsonT: number; label: string }[] = [];
     if (xMax <= xMin) return res;
+    if (phase) return phaseTicks(xLo, xHi).map((u) => ({ jsonT: fromX(u), label: formatPhase(u) }));
+    const n = 5;
     for (let i = 0; i <= n; i++) {
       const tJson = xMin + (i / n) * (xMax - xMin);
-      const frac = (tJson - xMin) / (xMax - xMin);
-      const tFbx = frac * (labelSeconds || 0);
-      res.push({ jsonT: tJson, labelSec: tFbx });
+      res.push({ jsonT: tJson, label: `${toFbxTime(align, tJson).toFixed(2)}s` });
     }
     return res;
-  }, [xMin, xMax, labelSeconds]);
+  }, [xMin, xMax, align, phase, xLo, xHi, fromX]);
 
   /* -------------------- Layout & transforms ------------------- */
   // Calculate left margin based on whole number tick labels
@@ -150,51 +247,76 @@ const SimpleGraph: React.FC<Props> = ({
   const labelPad = 14;
   const dynamicLeft = Math.min(130, Math.max(60, maxChars * CHAR_W + labelPad + 10));
 
-  const margin = { top: (title || yLabel) ? 40 : 24, right: 22, bottom: 42, left: dynamicLeft };
+  const margin = { top: (title || yLabel || showLegend) ? 40 : 24, right: 22, bottom: 42, left: dynamicLeft };
 
   const width = Math.max(160, (rect?.width ?? 420));
   const innerW = Math.max(10, width - margin.left - margin.right);
   const innerH = Math.max(10, height - margin.top - margin.bottom);
 
   const xToPx = useCallback((tJson: number) => {
-    if (xMax <= xMin) return margin.left;
-    const u = (tJson - xMin) / (xMax - xMin);
+    if (xHi <= xLo) return margin.left;
+    const u = (toX(tJson) - xLo) / (xHi - xLo);
     return margin.left + u * innerW;
-  }, [xMin, xMax, innerW, margin.left]);
+  }, [xLo, xHi, toX, innerW, margin.left]);
 
   const pxToX = useCallback((px: number) => {
-    if (xMax <= xMin) return 0;
+    if (xHi <= xLo) return 0;
     const u = (px - margin.left) / innerW;
-    return xMin + Math.min(1, Math.max(0, u)) * (xMax - xMin);
-  }, [xMin, xMax, innerW, margin.left]);
+    return fromX(xLo + Math.min(1, Math.max(0, u)) * (xHi - xLo));
+  }, [xLo, xHi, fromX, innerW, margin.left]);
 
-  const yToPx = useCallback((y: number) => {
-    if (yMax <= yMin) return margin.top + innerH / 2;
-    const u = (y - yMin) / (yMax - yMin);
+  const yToPxIn = useCallback((y: number, dom: Domain) => {
+    if (dom.max <= dom.min) return margin.top + innerH / 2;
+    const u = (y - dom.min) / (dom.max - dom.min);
     return margin.top + (1 - u) * innerH;
-  }, [yMin, yMax, innerH, margin.top]);
+  }, [innerH, margin.top]);
 
-  /* ------------------------- Geometry ------------------------- */
-  const pathD = useMemo(() => {
-    if (!data || data.length === 0) return "";
-    let d = "";
-    for (let i = 0; i < data.length; i++) {
-      const t = data[i].t ?? (i / Math.max(1, data.length - 1)) * (xMax - xMin);
-      const x = xToPx(t);
-      const y = yToPx(data[i].value);
-      d += (i === 0 ? `M ${x} ${y}` : ` L ${x} ${y}`);
-    }
-    return d;
-  }, [data, xToPx, yToPx, xMax, xMin]);
+  const yToPx = useCallback((y: number) => yToPxIn(y, axisDomain), [yToPxIn, axisDomain]);
 
-  // current playhead: convert FBX time → JSON time proportionally
-  const currentJsonTime = (fbxDuration > 0 && xMax > 0) ? (time / fbxDuration) * xMax : time;
+  /* ------------------------- Geometry ------------------------- */
+  const paths = useMemo(() => {
+    return visible.map((s) => {
+      const dom = seriesDomain(s.id);
+      let d = "";
+      for (let i = 0; i < s.data.length; i++) {
+        const t = s.data[i].t ?? (i / Math.max(1, s.data.length - 1)) * (xMax - xMin);
+        const x = xToPx(t);
+        const y = yToPxIn(s.data[i].value, dom);
+        d += (i === 0 ? `M ${x} ${y}` : ` L ${x} ${y}`);
+      }
+      return { s, d };
+    });
+  }, [visible, seriesDomain, xToPx, yToPxIn, xMax, xMin]);
+
+  const bandPaths = useMemo(() => {
+    return visibleBands.map((b) => {
+      const dom = seriesDomain(b.seriesId);
+      const pts = b.data.filter((p) => p.t >= xMin && p.t <= xMax);
+      const top = pts.map((p) => `${xToPx(p.t)} ${yToPxIn(p.hi, dom)}`);
+      const bottom = pts.map((p) => `${xToPx(p.t)} ${yToPxIn(p.lo, dom)}`).reverse();
+      const mean = pts.map((p, i) => `${i === 0 ? "M" : "L"} ${xToPx(p.t)} ${yToPxIn(p.mean, dom)}`).join(" ");
+      const color = visible.find((s) => s.id === b.seriesId)?.color ?? DEFAULT_COLOR;
+      return { b, color, area: pts.length > 1 ? `M ${[...top, ...bottom].join(" L ")} Z` : "", mean };
+    });
+  }, [visibleBands, visible, seriesDomain, xToPx, yToPxIn, xMin, xMax]);
+
+  // current playhead: convert FBX time → JSON time
+  const currentJsonTime = toDataTime(align, time);
   const playheadX = xToPx(Math.min(xMax, Math.max(xMin, currentJsonTime)));
 
+  // event markers arrive in FBX seconds; place them the same way as the playhead
+  const markerXs = useMemo(() => {
+    if (!markers?.length) return [];
+    return markers.map((m) => {
+      const tJson = toDataTime(align, m.t);
+      return { ...m, x: xToPx(Math.min(xMax, Math.max(xMin, tJson))) };
+    });
+  }, [markers, align, xMax, xMin, xToPx]);
+
   /* -------------------- Hover / interaction ------------------- */
   const [hoverX, setHoverX] = useState<number | null>(null);
   const [hoverT, setHoverT] = useState<number | null>(null);
-  const [hoverVal, setHoverVal] = useState<number | null>(null);
+  const [hoverVals, setHoverVals] = useState<Array<{ s: GraphSeries; value: number }> | null>(null);
 
   const updateHover = useCallback((clientX: number, clientY: number) => {
     if (!ref.current) return;
@@ -207,38 +329,60 @@ const SimpleGraph: React.FC<Props> = ({
       localY < margin.top ||
       localY > height - margin.bottom
     ) {
-      setHoverX(null); setHoverT(null); setHoverVal(null);
+      setHoverX(null); setHoverT(null); setHoverVals(null);
       return;
     }
     const tJson = pxToX(localX);
-    let val: number | null = null;
-    if (data && data.length > 0) {
-      const idx = nearestIndexByT(data, tJson);
-      val = data[idx]?.value ?? null;
+    const vals: Array<{ s: GraphSeries; value: number }> = [];
+    for (const s of visible) {
+      const idx = nearestIndexByT(s.data, tJson);
+      const v = s.data[idx]?.value;
+      if (v != null && Number.isFinite(v)) vals.push({ s, value: v });
     }
     setHoverX(localX);
     setHoverT(tJson);
-    setHoverVal(val);
-  }, [ref, margin, width, height, pxToX, data]);
+    setHoverVals(vals.length ? vals : null);
+  }, [ref, margin, width, height, pxToX, visible]);
 
   const clearHover = useCallback(() => {
-    setHoverX(null); setHoverT(null); setHoverVal(null);
+    setHoverX(null); setHoverT(null); setHoverVals(null);
   }, []);
 
   const downRef = useRef(false);
 
+  // shift-drag range selection (JSON seconds), reported on release
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const timeAtClientX = useCallback((clientX: number) => {
+    const box = ref.current?.getBoundingClientRect();
+    return box ? pxToX(clientX - box.left) : 0;
+  }, [ref, pxToX]);
+
+  // the loop arrives in FBX seconds; the band is drawn in the JSON domain
+  const loopBand = useMemo(() => {
+    const r = selection ?? (loopRange ? { from: toDataTime(align, loopRange.a), to: toDataTime(align, loopRange.b) } : null);
+    if (!r) return null;
+    const clamp = (t: number) => Math.min(xMax, Math.max(xMin, t));
+    const x0 = xToPx(clamp(Math.min(r.from, r.to)));
+    const x1 = xToPx(clamp(Math.max(r.from, r.to)));
+    return x1 > x0 ? { x: x0, w: x1 - x0 } : null;
+  }, [selection, loopRange, align, xMin, xMax, xToPx]);
+
   /* -------------------------- Tooltip ------------------------- */
   const hoverLabelSec = useMemo(() => {
     if (hoverT == null) return null;
     if (xMax <= xMin) return 0;
-    const frac = (hoverT - xMin) / (xMax - xMin);
-    return frac * (labelSeconds || 0);
-  }, [hoverT, xMin, xMax, labelSeconds]);
+    return toFbxTime(align, hoverT);
+  }, [hoverT, xMin, xMax, align]);
 
   const tooltip = useMemo(() => {
-    if (hoverX == null || hoverT == null || hoverVal == null) return null;
+    if (hoverX == null || hoverT == null || !hoverVals) return null;
     const px = hoverX;
-    const py = yToPx(hoverVal);
+    const points = hoverVals.map(({ s, value }) => ({
+      s,
+      value,
+      cy: yToPxIn(value, seriesDomain(s.id)),
+    }));
+    const py = Math.min(...points.map((p) => p.cy));
     const anchorRight = px > margin.left + innerW * 0.6;
     const style: React.CSSProperties = {
       position: "absolute",
@@ -255,11 +399,11 @@ const SimpleGraph: React.FC<Props> = ({
       boxShadow: "0 2px 10px rgba(0,0,0,0.35)",
       whiteSpace: "nowrap",
     };
-    const label = `${hoverVal.toFixed(2)} @ ${((hoverLabelSec ?? 0)).toFixed(3)}s`;
-    return { style, text: label, cx: px, cy: py };
-  }, [hoverX, hoverT, hoverVal, hoverLabelSec, yToPx, margin.left, margin.top, innerW, width]);
+    const timeLabel = phase && hoverT != null ? `@ ${formatPhase(toX(hoverT))}` : `@ ${((hoverLabelSec ?? 0)).toFixed(3)}s`;
+    return { style, timeLabel, cx: px, points };
+  }, [hoverX, hoverT, hoverVals, hoverLabelSec, phase, toX, yToPxIn, seriesDomain, margin.left, margin.top, innerW, width]);
 
-  if (!data || data.length === 0) {
+  if (allSeries.every((s) => s.data.length === 0)) {
     return <div ref={ref} style={{ width: "100%", height }} />;
   }
 
@@ -306,7 +450,7 @@ const SimpleGraph: React.FC<Props> = ({
                 x={margin.left - 10}
                 y={y + 4}
                 textAnchor="end"
-                fill="#d0d0d0"
+                fill={independent && axisSeries ? axisSeries.color : "#d0d0d0"}
                 fontSize={12}
               >
                 {label}
@@ -315,8 +459,8 @@ const SimpleGraph: React.FC<Props> = ({
           );
         })}
 
-        {/* X grid + labels (labels in FBX seconds) */}
-        {xTicks.map(({ jsonT, labelSec }, i) => {
+        {/* X grid + labels (labels in FBX seconds or percent) */}
+        {xTicks.map(({ jsonT, label }, i) => {
           const x = xToPx(jsonT);
           return (
             <g key={`xg-${i}`}>
@@ -335,33 +479,87 @@ const SimpleGraph: React.FC<Props> = ({
                 fill="#d0d0d0"
                 fontSize={12}
               >
-                {labelSec.toFixed(2)}s
+                {label}
               </text>
             </g>
           );
         })}
 
-        {/* Max value line (vertical) */}
-        <line
-          x1={xToPx(maxValueTime)}
-          x2={xToPx(maxValueTime)}
-          y1={margin.top}
-          y2={height - margin.bottom}
-          stroke="#c8d0dc"
-          strokeWidth={1}
-          strokeDasharray="4 4"
-          opacity={0.6}
-        />
+        {/* Max value line (vertical, single series only) */}
+        {maxValueTime != null && (
+          <line
+            x1={xToPx(maxValueTime)}
+            x2={xToPx(maxValueTime)}
+            y1={margin.top}
+            y2={height - margin.bottom}
+            stroke="#c8d0dc"
+            strokeWidth={1}
+            strokeDasharray="4 4"
+            opacity={0.6}
+          />
+        )}
 
-        {/* Signal */}
-        <path
-          d={pathD}
-          fill="none"
-          stroke="#e5812b"
-          strokeWidth={2}
-          strokeLinejoin="round"
-          strokeLinecap="round"
-        />
+        {/* Loop region (or the one being dragged out) */}
+        {loopBand && (
+          <rect
+            x={loopBand.x}
+            y={margin.top}
+            width={loopBand.w}
+            height={innerH}
+            fill="rgba(120,200,255,0.10)"
+            stroke="rgba(120,200,255,0.45)"
+            strokeWidth={1}
+          />
+        )}
+
+        {/* Phase event markers */}
+        {markerXs.map((m, i) => (
+          <g key={`ev-${m.id}`}>
+            <title>{m.label}</title>
+            <line
+              x1={m.x}
+              x2={m.x}
+              y1={margin.top}
+              y2={height - margin.bottom}
+              stroke={m.color ?? "#8fd3ff"}
+              strokeWidth={1}
+              opacity={0.75}
+            />
+            <text
+              x={m.x + 3}
+              y={margin.top + 10 + (i % 2) * 11}
+              fill={m.color ?? "#8fd3ff"}
+              fontSize={10}
+              fontWeight={700}
+            >
+              {m.label}
+            </text>
+          </g>
+        ))}
+
+        {/* Reference bands (behind the signals) */}
+        {bandPaths.map(({ b, color, area, mean }) => (
+          <g key={`band-${b.seriesId}`}>
+            <title>{b.label}</title>
+            <path d={area} fill={color} fillOpacity={0.14} stroke="none" />
+            <path d={mean} fill="none" stroke={color} strokeOpacity={0.45} strokeWidth={1} strokeDasharray="2 3" />
+          </g>
+        ))}
+
+        {/* Signals */}
+        {paths.map(({ s, d }) => (
+          <path
+            key={`s-${s.id}`}
+            d={d}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={s.faint ? 1 : 2}
+            strokeOpacity={s.faint ? 0.35 : 1}
+            strokeDasharray={s.dashed ? "6 4" : undefined}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        ))}
 
         {/* Playhead (aligned to FBX seconds but positioned in JSON domain) */}
         <line
@@ -388,10 +586,10 @@ const SimpleGraph: React.FC<Props> = ({
           />
         )}
 
-        {/* Hover marker */}
-        {tooltip && (
-          <circle cx={tooltip.cx} cy={tooltip.cy} r={3.5} fill="#e5812b" stroke="#fff" strokeWidth={1} />
-        )}
+        {/* Hover markers */}
+        {tooltip?.points.map((p) => (
+          <circle key={`hm-${p.s.id}`} cx={tooltip.cx} cy={p.cy} r={3.5} fill={p.s.color} stroke="#fff" strokeWidth={1} />
+        ))}
 
         {/* Interaction layer */}
         <rect
@@ -405,32 +603,138 @@ const SimpleGraph: React.FC<Props> = ({
             downRef.current = true;
             (e.currentTarget as Element).setPointerCapture(e.pointerId);
             updateHover(e.clientX, e.clientY);
+            if (e.shiftKey && onSelectRange) {
+              const t = timeAtClientX(e.clientX);
+              setSelection({ from: t, to: t });
+              return;
+            }
             if (onSeek && hoverT != null) onSeek(hoverT);
           }}
           onPointerMove={(e) => {
             updateHover(e.clientX, e.clientY);
-            if (downRef.current && onSeek && hoverT != null) onSeek(hoverT);
+            if (!downRef.current) return;
+            if (selection) setSelection({ ...selection, to: timeAtClientX(e.clientX) });
+            else if (onSeek && hoverT != null) onSeek(hoverT);
           }}
           onPointerUp={(e) => {
             downRef.current = false;
             (e.currentTarget as Element).releasePointerCapture(e.pointerId);
+            if (selection && onSelectRange && selection.to !== selection.from) {
+              onSelectRange(Math.min(selection.from, selection.to), Math.max(selection.from, selection.to));
+            }
+            setSelection(null);
           }}
           onPointerLeave={() => {
             downRef.current = false;
+            setSelection(null);
             clearHover();
           }}
           onPointerCancel={() => {
             downRef.current = false;
+            setSelection(null);
             clearHover();
           }}
         />
       </svg>
 
+      {/* Legend: click to toggle, × to remove */}
+      {showLegend && (
+        <div
+          style={{
+            position: "absolute",
+            top: 6,
+            right: 10,
+            maxWidth: "62%",
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "flex-end",
+            gap: "2px 10px",
+            fontSize: 11,
+            color: "#cfd6e2",
+          }}
+        >
+          {allSeries.map((s) => {
+            const off = hidden.has(s.id);
+            return (
+              <span key={`lg-${s.id}`} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                <button
+                  type="button"
+                  onClick={() => toggleSeries(s.id)}
+                  title={off ? "Show" : "Hide"}
+                  style={{
+                    display: "inline-flex",
+                    alignItems: "center",
+                    gap: 5,
+                    background: "none",
+                    border: "none",
+                    padding: 0,
+                    color: "inherit",
+                    font: "inherit",
+                    cursor: "pointer",
+                    opacity: off ? 0.4 : 1,
+                  }}
+                >
+                  <span
+                    style={{
+                      width: 12,
+                      height: 0,
+                      borderTop: `${s.faint ? 1 : 2}px ${s.dashed ? "dashed" : "solid"} ${s.color}`,
+                      opacity: s.faint ? 0.5 : 1,
+                    }}
+                  />
+                  {s.label}
+                </button>
+                {onRemoveSeries && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveSeries(s.id)}
+                    title="Remove"
+                    aria-label={`Remove ${s.label}`}
+                    style={{
+                      background: "none",
+                      border: "none",
+                      padding: 0,
+                      color: "#9aa3b2",
+                      font: "inherit",
+                      cursor: "pointer",
+                    }}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          {onYModeChange && allSeries.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onYModeChange(yMode === "shared" ? "independent" : "shared")}
+              title="Toggle shared / independent Y axes"
+              style={{
+                background: "rgba(255,255,255,0.06)",
+                border: "1px solid rgba(255,255,255,0.12)",
+                borderRadius: 6,
+                padding: "0 6px",
+                color: "inherit",
+                font: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              {yMode === "shared" ? "Shared Y" : "Independent Y"}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Tooltip */}
       {tooltip && (
         <div style={tooltip.style}>
-          <div style={{ fontWeight: 700 }}>{tooltip.text.split(" @ ")[0]}</div>
-          <div style={{ opacity: 0.85 }}>{tooltip.text.split(" @ ")[1]}</div>
+          {tooltip.points.map((p) => (
+            <div key={`tt-${p.s.id}`} style={{ fontWeight: 700, color: tooltip.points.length > 1 ? p.s.color : undefined }}>
+              {p.value.toFixed(2)}
+            </div>
+          ))}
+          <div style={{ opacity: 0.85 }}>{tooltip.timeLabel}</div>
         </div>
       )}
     </div>
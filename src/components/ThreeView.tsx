@@ -5,11 +5,70 @@ import { OrbitControls, Grid, Line, ContactShadows } from "@react-three/drei";
 import * as THREE from "three";
 import FBXModel from "./FBXModel";
 import SimpleGraph from "./SimpleGraph";
+import type { GraphBand, GraphSeries, YAxisMode } from "./SimpleGraph";
+import SequenceGraph from "./SequenceGraph";
 import GraphHoloPanel from "./GraphHoloPanel";
 import CustomSelect from "./CustomSelect";
-
-import { parseExcelToDataSets } from "../utils/excel";
+import GhostControls from "./GhostControls";
+import type { GhostSettings } from "./GhostControls";
+import MotionTrail from "./MotionTrail";
+import TrailControls from "./TrailControls";
+import BallTrajectory from "./BallTrajectory";
+import BallStats from "./BallStats";
+import FormulaPanel from "./FormulaPanel";
+import FilterPanel from "./FilterPanel";
+import AlignmentControls from "./AlignmentControls";
+import type { AlignmentSource } from "./AlignmentControls";
+import RenderClipPanel from "./RenderClipPanel";
+import VideoPanel from "./VideoPanel";
+import MetricsPanel from "./MetricsPanel";
+import ProgressDashboard from "./ProgressDashboard";
+import type { ProgressSession } from "./ProgressDashboard";
+import RosterDashboard from "./RosterDashboard";
+import NormsPanel from "./NormsPanel";
+import PhasePanel from "./PhasePanel";
+import AIReportPanel from "./AIReportPanel";
+import AIChatPanel from "./AIChatPanel";
+import ReportLibrary from "./ReportLibrary";
+import type { LibraryReport } from "./ReportLibrary";
+import type { PhaseAnchor } from "./PhasePanel";
+import type { ClipSettings } from "./RenderClipPanel";
+
+import { parseExcelToDataSets, parseExcelUrlToDataSets } from "../utils/excel";
 import type { RowsBySheet } from "../utils/excel";
+import { analyzeSequence } from "../utils/sequence";
+import { withJointAngles } from "../utils/jointAngles";
+import { evaluateFormula, parseFormula, withFormulas } from "../utils/formulas";
+import type { Formula } from "../utils/formulas";
+import { processChannel } from "../utils/filters";
+import type { ChannelProcessing } from "../utils/filters";
+import { detectEvents, eventStyle, eventTime, withEventOverrides } from "../utils/events";
+import type { EventId, EventMarker, EventOverrides } from "../utils/events";
+import { captureStart, findSheet, findTriplet } from "../utils/channels";
+import type { RigHandle, Track } from "../utils/rig";
+import { dataClock, dataToScene, dataTrack, estimateTimeAlignment, fitDataToRig, pointsTrack } from "../utils/sceneAlign";
+import { isValidAlignment, stretchAlignment, toDataTime, toFbxTime } from "../utils/timeAlign";
+import { DEFAULT_FPS, excelSampleRate, ratesDisagree } from "../utils/frameRate";
+import type { TimeAlignment } from "../utils/timeAlign";
+import { analyzeBallFlight } from "../utils/ballFlight";
+import { computeMetrics } from "../utils/metrics";
+import { sessionDate } from "../utils/progress";
+import { renderClip } from "../utils/clipRender";
+import {
+  NORM_SCHEMES,
+  buildNormDataset,
+  fromPhase,
+  normBand,
+  parseNorms,
+  phaseKnots,
+  serializeNorms,
+  toPhase,
+} from "../utils/norms";
+import type { NormDataset, NormScheme } from "../utils/norms";
+import { previousSessionOf, reportCharts } from "../utils/report";
+import type { ReportInput, ReportSnapshot } from "../utils/report";
+import { queryChannels } from "../utils/dataQuery";
+import type { QueryContext } from "../utils/dataQuery";
 
 /* ------------------------------------------------------------------ */
 /* Types & constants                                                   */
@@ -19,6 +78,10 @@ type SeriesPoint = { t?: number; value: number };
 type Mode = "player" | "admin";
 type Layout = "right" | "bottom";
 type PanelMode = "docked" | "in3d";
+type CompareLayout = "split" | "overlay";
+type CompareAlign = EventId | "start";
+/** A–B loop region (FBX seconds, a < b). */
+type LoopRange = { a: number; b: number };
 
 type PlayerManifest = {
   player: string;
@@ -26,12 +89,63 @@ type PlayerManifest = {
   sessions: string[];
   fbx?: string;
   excel?: string;
-  files?: Record<string, { fbx?: string; excel?: string }>;
+  files?: Record<string, { fbx?: string; excel?: string; video?: string }>;
+  /** per session: Excel → FBX time (see utils/timeAlign) */
+  alignment?: Record<string, TimeAlignment>;
+  /** per session: video time = FBX time + offset (s) */
+  videoOffset?: Record<string, number>;
+  /** per session: PDF reports filed with it (date as YYYY-MM-DD) */
+  reports?: Record<string, Array<{ file: string; date?: string | null; title?: string }>>;
+};
+
+/** Unsaved alignments edited in this browser, by player then session. */
+type AlignmentDrafts = Record<string, Record<string, TimeAlignment>>;
+/** Unsaved video offsets, likewise. */
+type VideoOffsetDrafts = Record<string, Record<string, number>>;
+
+/** The session video on screen; `source` is null for a file uploaded by hand. */
+type SessionVideo = { url: string; source: { player: string; session: string } | null };
+
+/** Series colours, assigned per graph in the order channels were added. */
+const SERIES_COLORS = ["#e5812b", "#4fa3ff", "#3ddc97", "#f5c542", "#c792ea", "#ff6b6b", "#8fd3ff"];
+
+const DEFAULT_GHOST: GhostSettings = {
+  offsetX: 0,
+  offsetZ: 0,
+  yaw: 0,
+  timeOffset: 0,
+  opacity: 0.35,
+  lockPelvis: false,
 };
 
-const FPS = 120;
+/** Seconds of path drawn behind / ahead of the playhead (FBX time). */
+type TrailWindow = { before: number; after: number };
+const DEFAULT_TRAIL_WINDOW: TrailWindow = { before: 0.5, after: 0.1 };
+/** Trail id for the data-derived centre of gravity (not a rig bone). */
+const COG_TRAIL = "@cog";
+
+/** Ball position/velocity tracks and launch arrow, already in scene space. */
+type BallScene = {
+  position: Track;
+  velocity: Track;
+  launch: { point: [number, number, number]; velocity: [number, number, number] } | null;
+};
 const isBrowser = typeof window !== "undefined";
 
+/** Camera presets, shared by the View menu and clip rendering. */
+const VIEW_OPTIONS = [
+  { value: "front", label: "Front" },
+  { value: "back", label: "Back" },
+  { value: "left", label: "Left" },
+  { value: "right", label: "Right" },
+  { value: "diagonal1", label: "Diagonal" },
+  { value: "diagonal2", label: "Diagonal 2" },
+];
+
+/** Playback speed range; the speed slider is logarithmic. */
+const MIN_SPEED = 0.01;
+const MAX_SPEED = 2;
+
 /** Suggested players for the dropdown (you can extend via URL ?players=A,B,C) */
 const DEFAULT_PLAYERS = ["Pete Alonso", "Player Name", "Player Name 2"];
 
@@ -45,6 +159,64 @@ const joinPath = (a: string, b: string) =>
   `${a.replace(/\/+$/, "")}/${b.replace(/^\/+/, "")}`;
 const withBase = (p: string) => joinPath(BASE_URL || "/", p);
 
+async function fetchPlayerManifest(player: string): Promise<PlayerManifest> {
+  const url = withBase(`data/${encodeURIComponent(player)}/index.json?ts=${Date.now()}`);
+  const r = await fetch(url);
+  if (!r.ok) throw new Error(`manifest ${r.status}`);
+  return r.json();
+}
+
+/** Resolve a session's FBX + Excel (+ optional video) URLs from its player's manifest. */
+function sessionFileUrls(manifest: PlayerManifest, player: string, session: string) {
+  const fileFBX = manifest.files?.[session]?.fbx ?? manifest.fbx ?? "EXPORT.fbx";
+  const fileExcel = manifest.files?.[session]?.excel ?? manifest.excel ?? "Kinematic_Data (1).xlsx";
+  const fileVideo = manifest.files?.[session]?.video;
+  const dir = `data/${encodeURIComponent(player)}/${session}`;
+  return {
+    fbx: withBase(`${dir}/${encodeURIComponent(fileFBX)}`),
+    excel: withBase(`${dir}/${encodeURIComponent(fileExcel)}`),
+    video: fileVideo ? withBase(`${dir}/${encodeURIComponent(fileVideo)}`) : null,
+  };
+}
+
+/** All of a player's filed reports, titled from the file name unless the manifest gives one. */
+function sessionReports(manifest: PlayerManifest, player: string): LibraryReport[] {
+  return Object.entries(manifest.reports ?? {}).flatMap(([session, list]) =>
+    list.map((r) => ({
+      session,
+      file: r.file,
+      title: r.title || r.file.replace(/\.pdf$/i, "").replace(/[_-]+/g, " ").trim(),
+      date: r.date ? sessionDate(r.date) : sessionDate(session),
+      url: withBase(`data/${encodeURIComponent(player)}/${session}/${encodeURIComponent(r.file)}`),
+    }))
+  );
+}
+
+/** Every player listed in `data/players.json`. */
+async function fetchRosterPlayers(): Promise<string[]> {
+  const r = await fetch(withBase(`data/players.json?ts=${Date.now()}`));
+  if (!r.ok) throw new Error(`players.json ${r.status}`);
+  const list: Array<{ player: string; defaultSession?: string }> = await r.json();
+  return list.map((p) => p.player).sort();
+}
+
+/** A player's default session and its Excel file (roster view). */
+async function defaultSessionSource(player: string): Promise<ProgressSession | null> {
+  const manifest = await fetchPlayerManifest(player);
+  const session = manifest.defaultSession ?? manifest.sessions?.[0];
+  return session ? { session, excel: sessionFileUrls(manifest, player, session).excel } : null;
+}
+
+/** Readable bone name: `upper_armL` → `Upper arm L`, `spine003` → `Spine 003`. */
+function boneLabel(name: string): string {
+  const s = name
+    .replace(/^mixamorig:/i, "")
+    .replace(/_/g, " ")
+    .replace(/([a-z\d])([LR])$/, "$1 $2")
+    .replace(/([a-z])(\d+)$/i, "$1 $2");
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
 /* ------------------------------------------------------------------ */
 /* Training Floor                                                      */
 /* ------------------------------------------------------------------ */
@@ -101,9 +273,32 @@ function TrainingFloor() {
 /* ------------------------------------------------------------------ */
 
 type CameraControlsRef = {
+  /** glide to a preset */
   setView: (view: string) => void;
+  /** cut straight to a preset */
+  jumpToView: (view: string) => void;
+  /** remember the current view; call the result to go back to it */
+  save: () => () => void;
 };
 
+function presetPosition(view: string): THREE.Vector3 {
+  const distance = 8;
+  switch (view) {
+    case "back":
+      return new THREE.Vector3(0, 2, -distance);
+    case "left":
+      return new THREE.Vector3(-distance, 2, 0);
+    case "right":
+      return new THREE.Vector3(distance, 2, 0);
+    case "diagonal1":
+      return new THREE.Vector3(distance * 0.7, 3, distance * 0.7);
+    case "diagonal2":
+      return new THREE.Vector3(-distance * 0.7, 3, distance * 0.7);
+    default:
+      return new THREE.Vector3(0, 2, distance);
+  }
+}
+
 function CameraControlsComponent({
   controlsRef,
 }: {
@@ -173,33 +368,7 @@ function CameraControlsComponent({
 
       const setView = (view: string) => {
         const target = new THREE.Vector3(0, 0, 0);
-        const distance = 8;
-        let position: [number, number, number];
-
-        switch (view) {
-          case "front":
-            position = [0, 2, distance];
-            break;
-          case "back":
-            position = [0, 2, -distance];
-            break;
-          case "left":
-            position = [-distance, 2, 0];
-            break;
-          case "right":
-            position = [distance, 2, 0];
-            break;
-          case "diagonal1":
-            position = [distance * 0.7, 3, distance * 0.7];
-            break;
-          case "diagonal2":
-            position = [-distance * 0.7, 3, distance * 0.7];
-            break;
-          default:
-            position = [0, 2, distance];
-        }
-
-        const pos = new THREE.Vector3(...position);
+        const pos = presetPosition(view);
         
         // Store start positions for animation
         startPositionRef.current = camera.position.clone();
@@ -219,7 +388,21 @@ function CameraControlsComponent({
         }
       };
 
-      controlsRef.current = { setView };
+      const place = (position: THREE.Vector3, target: THREE.Vector3) => {
+        animatingRef.current = false;
+        controls.enabled = true;
+        camera.position.copy(position);
+        controls.target?.copy(target);
+        controls.update?.();
+      };
+      const jumpToView = (view: string) => place(presetPosition(view), new THREE.Vector3(0, 0, 0));
+      const save = () => {
+        const position = camera.position.clone();
+        const target = controls.target ? controls.target.clone() : new THREE.Vector3(0, 0, 0);
+        return () => place(position, target);
+      };
+
+      controlsRef.current = { setView, jumpToView, save };
     }
   }, [controlsRef, camera, clock]);
 
@@ -232,17 +415,99 @@ function CameraControlsComponent({
   );
 }
 
+type FrameGrabberRef = {
+  /** resolves once a frame has been drawn with the scene at time `t` */
+  frame: (t: number) => Promise<void>;
+  /** draw the scene now and return the canvas, readable until the browser presents it */
+  snapshot: () => HTMLCanvasElement;
+};
+
+/** A drawn canvas as a JPEG data URL, scaled down to `maxWidth`. */
+function canvasImage(canvas: HTMLCanvasElement, maxWidth = 960): string {
+  const scale = Math.min(1, maxWidth / canvas.width);
+  const out = document.createElement("canvas");
+  out.width = Math.round(canvas.width * scale);
+  out.height = Math.round(canvas.height * scale);
+  out.getContext("2d")?.drawImage(canvas, 0, 0, out.width, out.height);
+  return out.toDataURL("image/jpeg", 0.85);
+}
+
+/** Lets clip rendering pose the scene at an exact time and copy what it draws. */
+function FrameGrabber({ time, grabRef }: { time: number; grabRef: React.MutableRefObject<FrameGrabberRef | null> }) {
+  const { gl, scene, camera } = useThree();
+  const waitingRef = useRef<{ t: number; resolve: () => void } | null>(null);
+
+  // resolves during the render loop; the awaiting code runs after every
+  // subscriber (e.g. the mixer) has caught up with this `time`
+  useFrame(() => {
+    const w = waitingRef.current;
+    if (w && w.t === time) {
+      waitingRef.current = null;
+      w.resolve();
+    }
+  });
+
+  useEffect(() => {
+    grabRef.current = {
+      frame: (t) => new Promise((resolve) => (waitingRef.current = { t, resolve })),
+      snapshot: () => {
+        gl.render(scene, camera);
+        return gl.domElement;
+      },
+    };
+    return () => {
+      grabRef.current = null;
+    };
+  }, [gl, scene, camera, grabRef]);
+
+  return null;
+}
+
 function Scene({
   fbxUrl,
   time,
   displayMode,
   onReadyDuration,
+  cloneRig = false,
+  pelvisRef,
+  ghostUrl = null,
+  ghostTime = 0,
+  ghost = DEFAULT_GHOST,
+  onGhostDuration,
+  onRig,
+  trails = [],
+  trailWindow = DEFAULT_TRAIL_WINDOW,
+  ball = null,
 }: {
   fbxUrl: string | null;
   time: number;
   displayMode: "normal" | "stick";
   onReadyDuration: (dur: number) => void;
+  /** needed when another canvas may already show the same FBX */
+  cloneRig?: boolean;
+  /** receives the main rig's pelvis position (ghost pelvis lock) */
+  pelvisRef?: React.MutableRefObject<THREE.Vector3 | null>;
+  /** translucent reference rig overlaid on the main one (compare mode) */
+  ghostUrl?: string | null;
+  ghostTime?: number;
+  ghost?: GhostSettings;
+  onGhostDuration?: (dur: number) => void;
+  onRig?: (rig: RigHandle) => void;
+  /** joint paths drawn around the playhead */
+  trails?: Array<{ id: string; track: Track; color: string }>;
+  trailWindow?: TrailWindow;
+  /** tracked ball in scene space */
+  ball?: BallScene | null;
 }) {
+  const ghostPosition = useMemo<[number, number, number]>(
+    () => [ghost.offsetX, 0, ghost.offsetZ],
+    [ghost.offsetX, ghost.offsetZ]
+  );
+  const ghostRotation = useMemo<[number, number, number]>(
+    () => [0, (ghost.yaw * Math.PI) / 180, 0],
+    [ghost.yaw]
+  );
+
   return (
     <>
       {/* Professional lighting setup */}
@@ -296,17 +561,67 @@ function Scene({
         <FBXModel
           url={fbxUrl}
           scale={0.01}
-          position={[0, 0, 0]}
-          rotation={[0, 0, 0]}
           time={time}
           displayMode={displayMode}
           onReadyDuration={onReadyDuration}
+          clone={cloneRig}
+          pelvisOut={pelvisRef}
+          onRig={onRig}
+        />
+      )}
+
+      {ball && (
+        <BallTrajectory
+          position={ball.position}
+          velocity={ball.velocity}
+          time={time}
+          before={trailWindow.before}
+          after={trailWindow.after}
+          launch={ball.launch}
+        />
+      )}
+
+      {trails.map((tr) => (
+        <MotionTrail
+          key={tr.id}
+          track={tr.track}
+          time={time}
+          before={trailWindow.before}
+          after={trailWindow.after}
+          color={tr.color}
+        />
+      ))}
+
+      {ghostUrl && (
+        <FBXModel
+          url={ghostUrl}
+          scale={0.01}
+          position={ghostPosition}
+          rotation={ghostRotation}
+          time={ghostTime}
+          displayMode={displayMode}
+          onReadyDuration={onGhostDuration}
+          clone
+          ghostOpacity={ghost.opacity}
+          pelvisAnchor={ghost.lockPelvis ? pelvisRef : null}
         />
       )}
     </>
   );
 }
 
+function setupRenderer({ gl, scene }: { gl: THREE.WebGLRenderer; scene: THREE.Scene }) {
+  gl.outputColorSpace = THREE.SRGBColorSpace;
+  gl.toneMapping = THREE.ACESFilmicToneMapping;
+  gl.toneMappingExposure = 1.1;
+  gl.shadowMap.enabled = true;
+  gl.shadowMap.type = THREE.PCFSoftShadowMap;
+  gl.setClearColor("#0a0d12", 1);
+
+  // Add subtle fog for depth
+  scene.fog = new THREE.FogExp2("#0a0d12", 0.015);
+}
+
 /* ------------------------------------------------------------------ */
 /* Main Component                                                      */
 /* ------------------------------------------------------------------ */
@@ -347,11 +662,6 @@ export default function ThreeView() {
   const [session, setSession] = useState<string | null>(urlSession);
   const [players, setPlayers] = useState<string[]>(initialPlayers);
 
-  /* PDF Viewer */
-  const [showPdfViewer, setShowPdfViewer] = useState(false);
-  const hasReport = playerName === "Pete Alonso";
-
-
 
   // keep playerName in sync with URL when locked
   useEffect(() => {
@@ -377,6 +687,11 @@ export default function ThreeView() {
   const [fbxUrl, setFbxUrl] = useState<string | null>(null);
   const [playing, setPlaying] = useState(true);
   const [speed, setSpeed] = useState(1);
+  // playing backwards (J); any pause ends it, so Space and Play always go forward
+  const [reverse, setReverse] = useState(false);
+  useEffect(() => {
+    if (!playing) setReverse(false);
+  }, [playing]);
   const [time, setTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [snapFrames, setSnapFrames] = useState(true);
@@ -390,11 +705,9 @@ export default function ThreeView() {
   const [rows, setRows] = useState<any[] | null>(null);
   const [channels, setChannels] = useState<string[]>([]);
 
-  const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
-  const [series, setSeries] = useState<SeriesPoint[] | null>(null);
-
-  const [selectedChannelB, setSelectedChannelB] = useState<string | null>(null);
-  const [seriesB, setSeriesB] = useState<SeriesPoint[] | null>(null);
+  // Channels overlaid on Graph 1 / Graph 2
+  const [graphChannels, setGraphChannels] = useState<string[][]>([[], []]);
+  const [graphYModes, setGraphYModes] = useState<YAxisMode[]>(["shared", "shared"]);
 
   const [jsonDuration, setJsonDuration] = useState(0);
 
@@ -409,6 +722,10 @@ export default function ThreeView() {
 
   const [showMainGraph, setShowMainGraph] = useState<boolean>(storedShowMain ? storedShowMain === "1" : true);
   const [showSecond, setShowSecond] = useState<boolean>(storedShowSecond ? storedShowSecond === "1" : true);
+  const storedShowSequence = isBrowser ? localStorage.getItem("seq_showSequence") : null;
+  const [showSequence, setShowSequence] = useState<boolean>(storedShowSequence === "1");
+  const storedShowEvents = isBrowser ? localStorage.getItem("seq_showEvents") : null;
+  const [showEvents, setShowEvents] = useState<boolean>(storedShowEvents ? storedShowEvents === "1" : true);
 
   useEffect(() => {
     if (isBrowser) localStorage.setItem("seq_showMainGraph", showMainGraph ? "1" : "0");
@@ -418,14 +735,86 @@ export default function ThreeView() {
     localStorage.setItem("seq_showSecondGraph", showSecond ? "1" : "0");
     localStorage.removeItem("seq_showMiniGraph");
   }, [showSecond]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showSequence", showSequence ? "1" : "0");
+  }, [showSequence]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showEvents", showEvents ? "1" : "0");
+  }, [showEvents]);
 
   // 3D panel positions
   const [posMain, setPosMain] = useState<[number, number, number]>([3.8, 0.02, -2.6]);
   const [posSecond, setPosSecond] = useState<[number, number, number]>([1.0, 0.02, -4.2]);
+  const [posSequence, setPosSequence] = useState<[number, number, number]>([-2.2, 0.02, -3.4]);
+
+  /* Library session the data came from; null for files uploaded by hand */
+  const [alignSource, setAlignSource] = useState<{ player: string; session: string } | null>(null);
+
+  /* Phase events (foot lift, foot plant, separation, contact/release, follow-through).
+     Any can be placed by hand: kept per session in this browser, or for the
+     upload until the next one. */
+  const detectedEvents = useMemo(() => (rowsBySheet ? detectEvents(rowsBySheet) : null), [rowsBySheet]);
+  const [eventOverrides, setEventOverrides] = useState<Record<string, Record<string, EventOverrides>>>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_eventOverrides") : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_eventOverrides", JSON.stringify(eventOverrides));
+  }, [eventOverrides]);
+  const [uploadEventOverrides, setUploadEventOverrides] = useState<EventOverrides>({});
+  const sessionEventOverrides = alignSource
+    ? eventOverrides[alignSource.player]?.[alignSource.session]
+    : uploadEventOverrides;
+  const detection = useMemo(
+    () => (detectedEvents && sessionEventOverrides ? withEventOverrides(detectedEvents, sessionEventOverrides) : detectedEvents),
+    [detectedEvents, sessionEventOverrides]
+  );
+
+  const setEventOverride = useCallback(
+    (id: EventId, t: number | null) => {
+      const apply = (prev: EventOverrides | undefined) => {
+        const next = { ...prev };
+        if (t == null) delete next[id];
+        else next[id] = t;
+        return next;
+      };
+      if (!alignSource) {
+        setUploadEventOverrides(apply);
+        return;
+      }
+      const { player, session } = alignSource;
+      setEventOverrides((prev) => ({ ...prev, [player]: { ...prev[player], [session]: apply(prev[player]?.[session]) } }));
+    },
+    [alignSource]
+  );
+
+  /* Kinematic sequence (pelvis → torso → arm → hand), arm read off the throwing side */
+  const sequence = useMemo(
+    () => (rowsBySheet ? analyzeSequence(rowsBySheet, detectedEvents?.leadSide) : null),
+    [rowsBySheet, detectedEvents]
+  );
+  const sequenceVisible = showSequence && !!sequence;
+
+  /* Session metrics (peaks, timings, stride, posture) */
+  const sessionMetrics = useMemo(
+    () => (rowsBySheet ? computeMetrics(rowsBySheet, detection) : []),
+    [rowsBySheet, detection]
+  );
+  const [showMetrics, setShowMetrics] = useState<boolean>(
+    () => isBrowser && localStorage.getItem("seq_showMetrics") === "1"
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showMetrics", showMetrics ? "1" : "0");
+  }, [showMetrics]);
 
   /* Graph dock sizing */
-  const requestedGraphCount = (showMainGraph ? 1 : 0) + (showSecond ? 1 : 0);
-  const dockPct = requestedGraphCount === 2 ? 0.3 : requestedGraphCount === 1 ? 0.2 : 0;
+  const requestedGraphCount = (showMainGraph ? 1 : 0) + (showSecond ? 1 : 0) + (sequenceVisible ? 1 : 0);
+  const dockPct =
+    requestedGraphCount >= 3 ? 0.4 : requestedGraphCount === 2 ? 0.3 : requestedGraphCount === 1 ? 0.2 : 0;
 
   const [dockPx, setDockPx] = useState(() =>
     Math.round((isBrowser ? window.innerHeight : 900) * dockPct)
@@ -450,14 +839,9 @@ export default function ThreeView() {
 
     async function loadAllPlayers() {
       try {
-        const url = withBase(`data/players.json?ts=${Date.now()}`);
-        const response = await fetch(url);
-        if (!response.ok) throw new Error(`players.json ${response.status}`);
-        
-        const playersList: Array<{ player: string; defaultSession?: string }> = await response.json();
+        const playerNames = await fetchRosterPlayers();
         if (cancelled) return;
 
-        const playerNames = playersList.map(p => p.player).sort();
         setPlayers((list) => {
           // Merge with existing list, keeping order: existing items first, then new ones
           const existing = new Set(list);
@@ -480,11 +864,7 @@ export default function ThreeView() {
 
     async function loadManifest(p: string) {
       try {
-        const url = withBase(`data/${encodeURIComponent(p)}/index.json?ts=${Date.now()}`);
-        const m: PlayerManifest = await fetch(url).then((r) => {
-          if (!r.ok) throw new Error(`manifest ${r.status}`);
-          return r.json();
-        });
+        const m = await fetchPlayerManifest(p);
         if (cancelled) return;
 
         setManifest(m);
@@ -509,19 +889,85 @@ export default function ThreeView() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [playerName, isPlayerLocked]);
 
+  /* Progress dashboard: metrics across all of the player's sessions */
+  const [showProgress, setShowProgress] = useState(false);
+  const progressSessions = useMemo(
+    () =>
+      manifest
+        ? sessions.map((s) => ({ session: s, excel: sessionFileUrls(manifest, playerName, s).excel }))
+        : [],
+    [manifest, sessions, playerName]
+  );
+  const closeProgress = useCallback(() => setShowProgress(false), []);
+
+  /* Report library: PDFs filed with the player's sessions */
+  const [showReports, setShowReports] = useState(false);
+  const libraryReports = useMemo(() => (manifest ? sessionReports(manifest, playerName) : []), [manifest, playerName]);
+  const closeReports = useCallback(() => setShowReports(false), []);
+  const openProgressSession = useCallback((s: string) => {
+    setSession(s);
+    setShowProgress(false);
+  }, []);
+
+  /* Roster (admin): every player's default session side by side */
+  const [showRoster, setShowRoster] = useState(false);
+  const closeRoster = useCallback(() => setShowRoster(false), []);
+  // the players.json list, read once per opening: the picker's list holds
+  // placeholders and URL entries, and changes under the roster's loading loop
+  const [rosterPlayers, setRosterPlayers] = useState<string[] | null>(null);
+  useEffect(() => {
+    if (!showRoster) return;
+    let cancelled = false;
+    setRosterPlayers(null);
+    fetchRosterPlayers()
+      .catch((e) => {
+        console.warn("Roster: could not load players.json:", e);
+        return [];
+      })
+      .then((list) => {
+        if (!cancelled) setRosterPlayers(list);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showRoster]);
+  const openRosterSession = useCallback((p: string, s: string) => {
+    setPlayerName(p);
+    setSession(s);
+    setShowRoster(false);
+  }, []);
+
+  /* AI report: the session's metrics written up by a language model */
+  const [showAIReport, setShowAIReport] = useState(false);
+  const reportInput = useMemo<ReportInput | null>(
+    () =>
+      rowsBySheet
+        ? {
+            player: playerName,
+            session: session ?? "Uploaded session",
+            movement: detection?.movement ?? "unknown",
+            metrics: sessionMetrics,
+            detection,
+            sequence,
+          }
+        : null,
+    [rowsBySheet, playerName, session, detection, sessionMetrics, sequence]
+  );
+  const reportChartList = useMemo(
+    () => (showAIReport && rowsBySheet ? reportCharts(rowsBySheet, detection, sequence) : []),
+    [showAIReport, rowsBySheet, detection, sequence]
+  );
+  const reportPrevious = useMemo(
+    () => (session ? previousSessionOf(progressSessions, session, sessionDate) : null),
+    [progressSessions, session]
+  );
+  const closeAIReport = useCallback(() => setShowAIReport(false), []);
+
   /* Load session's FBX + Excel using manifest */
   useEffect(() => {
     if (!manifest || !session) return;
 
-    const fileFBX = manifest.files?.[session]?.fbx ?? manifest.fbx ?? "EXPORT.fbx";
-    const fileExcel = manifest.files?.[session]?.excel ?? manifest.excel ?? "Kinematic_Data (1).xlsx";
-
-    const fbxPath = withBase(
-      `data/${encodeURIComponent(playerName)}/${session}/${encodeURIComponent(fileFBX)}`
-    );
-    const excelPath = withBase(
-      `data/${encodeURIComponent(playerName)}/${session}/${encodeURIComponent(fileExcel)}`
-    );
+    const { fbx: fbxPath, excel: excelPath, video: videoPath } = sessionFileUrls(manifest, playerName, session);
 
     // Update URL (player/session/lock) for shareability
     if (isBrowser) {
@@ -535,6 +981,8 @@ export default function ThreeView() {
     }
 
     setFbxUrl(fbxPath);
+    setAlignSource({ player: playerName, session });
+    setVideo(videoPath ? { url: videoPath, source: { player: playerName, session } } : null);
     setPlaying(true);
     setTime(0);
 
@@ -544,7 +992,7 @@ export default function ThreeView() {
           if (!r.ok) throw new Error(`excel ${r.status}`);
           return r.blob();
         });
-        const sets = await parseExcelToDataSets(blob as any, FPS);
+        const sets = await parseExcelToDataSets(blob as any, DEFAULT_FPS);
         const names = Object.keys(sets);
         if (!names.length) throw new Error("No usable sheets found.");
 
@@ -553,7 +1001,7 @@ export default function ThreeView() {
           names.find((n) => /joint.*position/i.test(n)) ??
           names[0];
 
-        setRowsBySheet(sets);
+        setRowsBySheet(withJointAngles(sets));
         setSheetNames(names);
         setSheet(preferred);
         setRows(sets[preferred]);
@@ -567,6 +1015,386 @@ export default function ThreeView() {
     })();
   }, [manifest, session, playerName, isPlayer, isPlayerLocked]);
 
+  /* Compare mode: a second session played alongside the main one */
+  const storedCompareLayout = isBrowser ? localStorage.getItem("seq_compareLayout") : null;
+  const storedCompareAlign = isBrowser ? localStorage.getItem("seq_compareAlign") : null;
+  const [compareOn, setCompareOn] = useState(false);
+  const [compareLayout, setCompareLayout] = useState<CompareLayout>(
+    storedCompareLayout === "overlay" ? "overlay" : "split"
+  );
+  const [compareAlign, setCompareAlign] = useState<CompareAlign>(
+    (storedCompareAlign as CompareAlign | null) ?? "footPlant"
+  );
+  const [comparePlayer, setComparePlayer] = useState<string>(initialPlayer);
+  const [compareManifest, setCompareManifest] = useState<PlayerManifest | null>(null);
+  const [compareSession, setCompareSession] = useState<string | null>(null);
+  const [compareFbxUrl, setCompareFbxUrl] = useState<string | null>(null);
+  const [compareRowsBySheet, setCompareRowsBySheet] = useState<RowsBySheet | null>(null);
+  const [compareDuration, setCompareDuration] = useState(0);
+
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_compareLayout", compareLayout);
+  }, [compareLayout]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_compareAlign", compareAlign);
+  }, [compareAlign]);
+
+  useEffect(() => {
+    if (!compareOn) return;
+    if (comparePlayer === playerName) {
+      setCompareManifest(manifest);
+      return;
+    }
+    let cancelled = false;
+    fetchPlayerManifest(comparePlayer)
+      .then((m) => {
+        if (!cancelled) setCompareManifest(m);
+      })
+      .catch((e) => {
+        console.error("Compare manifest load failed:", e);
+        if (!cancelled) setCompareManifest(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [compareOn, comparePlayer, playerName, manifest]);
+
+  // default to a different session than the one on screen
+  useEffect(() => {
+    const list = compareManifest?.sessions ?? [];
+    setCompareSession((prev) => {
+      if (prev && list.includes(prev)) return prev;
+      const other = comparePlayer === playerName ? list.find((s) => s !== session) : undefined;
+      return other ?? compareManifest?.defaultSession ?? list[0] ?? null;
+    });
+  }, [compareManifest, comparePlayer, playerName, session]);
+
+  useEffect(() => {
+    if (!compareOn || !compareManifest || !compareSession) {
+      setCompareFbxUrl(null);
+      setCompareRowsBySheet(null);
+      setCompareDuration(0);
+      return;
+    }
+    const urls = sessionFileUrls(compareManifest, comparePlayer, compareSession);
+    setCompareFbxUrl(urls.fbx);
+
+    let cancelled = false;
+    parseExcelUrlToDataSets(urls.excel, DEFAULT_FPS)
+      .then((sets) => {
+        if (!cancelled) setCompareRowsBySheet(withJointAngles(sets));
+      })
+      .catch((err) => {
+        console.error("Compare Excel load failed:", err);
+        if (!cancelled) setCompareRowsBySheet(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [compareOn, compareManifest, comparePlayer, compareSession]);
+
+  const onCompareDuration = useCallback((dur: number) => setCompareDuration(dur), []);
+
+  /* Ghost overlay (compare "same scene" layout) */
+  const [ghost, setGhost] = useState<GhostSettings>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_ghost") : null;
+      return stored ? { ...DEFAULT_GHOST, ...JSON.parse(stored) } : DEFAULT_GHOST;
+    } catch {
+      return DEFAULT_GHOST;
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_ghost", JSON.stringify(ghost));
+  }, [ghost]);
+
+  // admin-loaded reference rig (e.g. a model athlete) used instead of the compare session
+  const [ghostFile, setGhostFile] = useState<{ url: string; name: string } | null>(null);
+  useEffect(() => {
+    return () => {
+      if (ghostFile) URL.revokeObjectURL(ghostFile.url);
+    };
+  }, [ghostFile]);
+
+  const mainPelvisRef = useRef<THREE.Vector3 | null>(null);
+  const ghostOverlay = compareOn && compareLayout === "overlay";
+  const usingReference = ghostOverlay && !!ghostFile;
+
+  const compareDetection = useMemo(
+    () => (compareRowsBySheet ? detectEvents(compareRowsBySheet) : null),
+    [compareRowsBySheet]
+  );
+  // the chosen event's time in each session (Excel seconds), when both have it
+  const compareAnchor = useMemo(() => {
+    if (compareAlign === "start" || usingReference || !detection || !compareDetection) return null;
+    const a = eventTime(detection, compareAlign);
+    const b = eventTime(compareDetection, compareAlign);
+    return a != null && b != null ? { a, b } : null;
+  }, [compareAlign, usingReference, detection, compareDetection]);
+
+  /* Phase-normalized time: graphs in % of the movement (foot lift 0%, plant 50%,
+     contact/release 100%); the compare session is warped onto it phase by phase. */
+  const [normalizeTime, setNormalizeTime] = useState<boolean>(
+    () => isBrowser && localStorage.getItem("seq_normTime") === "1"
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_normTime", normalizeTime ? "1" : "0");
+  }, [normalizeTime]);
+  const [showPhases, setShowPhases] = useState(false);
+  const mainPhase = useMemo(() => phaseKnots(detection, "events"), [detection]);
+  const comparePhase = useMemo(() => phaseKnots(compareDetection, "events"), [compareDetection]);
+  const graphPhase = normalizeTime ? mainPhase : null;
+  const phaseWarp = useMemo(
+    () => (graphPhase && comparePhase && !usingReference ? { main: graphPhase, compare: comparePhase } : null),
+    [graphPhase, comparePhase, usingReference]
+  );
+
+  const compareLabel = usingReference
+    ? ghostFile!.name
+    : compareSession
+      ? comparePlayer === playerName
+        ? compareSession
+        : `${comparePlayer} · ${compareSession}`
+      : "";
+
+  /* Motion trails */
+  const [showTrails, setShowTrails] = useState<boolean>(
+    () => isBrowser && localStorage.getItem("seq_showTrails") === "1"
+  );
+  const [trailIds, setTrailIds] = useState<string[]>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_trailBones") : null;
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  });
+  const [trailWindow, setTrailWindow] = useState<TrailWindow>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_trailWindow") : null;
+      return stored ? { ...DEFAULT_TRAIL_WINDOW, ...JSON.parse(stored) } : DEFAULT_TRAIL_WINDOW;
+    } catch {
+      return DEFAULT_TRAIL_WINDOW;
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showTrails", showTrails ? "1" : "0");
+  }, [showTrails]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_trailBones", JSON.stringify(trailIds));
+  }, [trailIds]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_trailWindow", JSON.stringify(trailWindow));
+  }, [trailWindow]);
+
+  /* Excel ↔ FBX time alignment: saved per session in the player manifest. Edits
+     are drafts in this browser until the admin exports the manifest; files
+     uploaded by hand get a throwaway alignment of their own. */
+  const [uploadAlignment, setUploadAlignment] = useState<TimeAlignment | null>(null);
+  const [alignDrafts, setAlignDrafts] = useState<AlignmentDrafts>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_alignmentDrafts") : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_alignmentDrafts", JSON.stringify(alignDrafts));
+  }, [alignDrafts]);
+  const [showAlignment, setShowAlignment] = useState(false);
+  const [autoScore, setAutoScore] = useState<number | null>(null);
+
+  function detachAlignment() {
+    setAlignSource(null);
+    setUploadAlignment(null);
+    setAutoScore(null);
+  }
+
+  const excelClock = useMemo(() => (rowsBySheet ? dataClock(rowsBySheet) : null), [rowsBySheet]);
+  const { timeAlign, alignmentSource } = useMemo((): { timeAlign: TimeAlignment; alignmentSource: AlignmentSource } => {
+    const draft = alignSource ? alignDrafts[alignSource.player]?.[alignSource.session] : uploadAlignment;
+    if (isValidAlignment(draft)) return { timeAlign: draft, alignmentSource: "draft" };
+    const saved = alignSource && alignSource.player === manifest?.player ? manifest.alignment?.[alignSource.session] : null;
+    if (isValidAlignment(saved)) return { timeAlign: saved, alignmentSource: "manifest" };
+    return { timeAlign: stretchAlignment(excelClock?.duration ?? jsonDuration, duration), alignmentSource: "stretch" };
+  }, [alignSource, alignDrafts, uploadAlignment, manifest, excelClock, jsonDuration, duration]);
+
+  const setTimeAlign = useCallback(
+    (a: TimeAlignment | null) => {
+      if (!alignSource) {
+        setUploadAlignment(a);
+        return;
+      }
+      const { player, session } = alignSource;
+      setAlignDrafts((prev) => {
+        const forPlayer = { ...prev[player] };
+        if (a) forPlayer[session] = a;
+        else delete forPlayer[session];
+        const next = { ...prev, [player]: forPlayer };
+        if (!Object.keys(forPlayer).length) delete next[player];
+        return next;
+      });
+    },
+    [alignSource]
+  );
+
+  /* Session video, frame-locked to the playhead. Its offset is kept like the
+     time alignment: a draft in this browser until the manifest is exported. */
+  const [video, setVideo] = useState<SessionVideo | null>(null);
+  const [uploadVideoOffset, setUploadVideoOffset] = useState(0);
+  const [videoOffsetDrafts, setVideoOffsetDrafts] = useState<VideoOffsetDrafts>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_videoOffsetDrafts") : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_videoOffsetDrafts", JSON.stringify(videoOffsetDrafts));
+  }, [videoOffsetDrafts]);
+  const [showVideo, setShowVideo] = useState<boolean>(
+    () => !isBrowser || localStorage.getItem("seq_showVideo") !== "0"
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showVideo", showVideo ? "1" : "0");
+  }, [showVideo]);
+
+  const videoOffset = useMemo(() => {
+    if (!video?.source) return uploadVideoOffset;
+    const { player, session } = video.source;
+    const draft = videoOffsetDrafts[player]?.[session];
+    if (Number.isFinite(draft)) return draft;
+    const saved = manifest?.player === player ? manifest.videoOffset?.[session] : undefined;
+    return Number.isFinite(saved) ? (saved as number) : 0;
+  }, [video, uploadVideoOffset, videoOffsetDrafts, manifest]);
+
+  const setVideoOffset = useCallback(
+    (offset: number) => {
+      if (!video?.source) {
+        setUploadVideoOffset(offset);
+        return;
+      }
+      const { player, session } = video.source;
+      setVideoOffsetDrafts((prev) => ({ ...prev, [player]: { ...prev[player], [session]: offset } }));
+    },
+    [video]
+  );
+
+  function exportManifest() {
+    if (!manifest) return;
+    const videoOffsets = { ...manifest.videoOffset, ...videoOffsetDrafts[manifest.player] };
+    const out: PlayerManifest = {
+      ...manifest,
+      alignment: { ...manifest.alignment, ...alignDrafts[manifest.player] },
+      ...(Object.keys(videoOffsets).length ? { videoOffset: videoOffsets } : {}),
+    };
+    const blob = new Blob([JSON.stringify(out, null, 2) + "\n"], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = "index.json";
+    document.body.appendChild(a);
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 800);
+    a.remove();
+  }
+
+  // the loaded rig, tagged with its URL so a stale one is never used after a switch
+  const [loadedRig, setLoadedRig] = useState<{ url: string | null; rig: RigHandle } | null>(null);
+  const onRig = useCallback((r: RigHandle) => setLoadedRig({ url: fbxUrl, rig: r }), [fbxUrl]);
+  const rig = loadedRig && loadedRig.url === fbxUrl ? loadedRig.rig : null;
+
+  // frame rate: the clip's keyframes drive stepping; the workbook's Time column
+  // stands in until the rig loads (or if the clip's keys are too sparse to tell)
+  const excelFps = useMemo(() => (rowsBySheet ? excelSampleRate(rowsBySheet) : null), [rowsBySheet]);
+  const clipFps = rig?.fps ?? null;
+  const fps = clipFps ?? excelFps ?? DEFAULT_FPS;
+  const fpsMismatch = clipFps != null && excelFps != null && ratesDisagree(clipFps, excelFps);
+  useEffect(() => {
+    if (fpsMismatch) console.warn(`Frame rates disagree: FBX clip ${clipFps} fps, Excel ${excelFps} Hz`);
+  }, [fpsMismatch, clipFps, excelFps]);
+
+  // capture data registered onto the rig (null when they don't line up)
+  const dataFit = useMemo(
+    () => (rig && rowsBySheet ? fitDataToRig(rig, rowsBySheet, timeAlign) : null),
+    [rig, rowsBySheet, timeAlign]
+  );
+
+  const autoAlign = useMemo(() => {
+    if (!rig || !rowsBySheet) return null;
+    return () => {
+      const est = estimateTimeAlignment(rig, rowsBySheet);
+      setAutoScore(est ? est.score : null);
+      if (est) setTimeAlign({ offset: est.offset, rate: est.rate });
+    };
+  }, [rig, rowsBySheet, setTimeAlign]);
+  const cogTrack = useMemo(() => {
+    if (!rig || !rowsBySheet || !dataFit) return null;
+    const clock = dataClock(rowsBySheet);
+    const sheet = findSheet(rowsBySheet, /joint.*position/i);
+    const keys = sheet ? findTriplet(rowsBySheet[sheet], "/Calc/CenterOfGravity") : null;
+    return clock && sheet && keys ? dataTrack(rowsBySheet[sheet], keys, dataFit, clock, timeAlign, rig.duration) : null;
+  }, [rig, rowsBySheet, dataFit, timeAlign]);
+
+  const trailOptions = useMemo(() => {
+    const opts = (rig?.bones ?? []).map((b) => ({ value: b, label: boneLabel(b) }));
+    return cogTrack ? [{ value: COG_TRAIL, label: "Center of gravity" }, ...opts] : opts;
+  }, [rig, cogTrack]);
+
+  // bone tracks are sampled once per rig + selection; the playhead only moves the window
+  const trails = useMemo(() => {
+    if (!showTrails || !rig) return [];
+    const bones = rig.sample(trailIds.filter((id) => id !== COG_TRAIL), fps);
+    return trailIds
+      .map((id, i) => ({
+        id,
+        label: id === COG_TRAIL ? "Center of gravity" : boneLabel(id),
+        color: SERIES_COLORS[i % SERIES_COLORS.length],
+        track: id === COG_TRAIL ? cogTrack : bones[id],
+      }))
+      .filter((t): t is { id: string; label: string; color: string; track: Track } => !!t.track);
+  }, [showTrails, rig, trailIds, cogTrack, fps]);
+
+  /* Ball flight ("Ball Positions + Velocity" sheet) */
+  const [showBall, setShowBall] = useState<boolean>(
+    () => !isBrowser || localStorage.getItem("seq_showBall") !== "0"
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showBall", showBall ? "1" : "0");
+  }, [showBall]);
+
+  const strikeTime = detection ? eventTime(detection, "contact") ?? eventTime(detection, "release") : null;
+  const ballFlight = useMemo(
+    () => (rowsBySheet ? analyzeBallFlight(rowsBySheet, strikeTime) : null),
+    [rowsBySheet, strikeTime]
+  );
+  const ballScene = useMemo<BallScene | null>(() => {
+    if (!ballFlight || !rig || !rowsBySheet || !dataFit) return null;
+    // velocities only rotate into the scene
+    const turn = { ...dataFit, tx: 0, ty: 0, tz: 0 };
+    const position = pointsTrack(ballFlight.samples, dataFit, timeAlign, rig.duration);
+    const velocity = pointsTrack(
+      ballFlight.samples.map((s) => ({ t: s.t, p: s.v })),
+      turn,
+      timeAlign,
+      rig.duration
+    );
+    const { launch } = ballFlight;
+    return position && velocity
+      ? {
+          position,
+          velocity,
+          launch: launch
+            ? {
+                point: dataToScene(dataFit, ...ballFlight.samples[launch.index].p),
+                velocity: dataToScene(turn, ...launch.velocity),
+              }
+            : null,
+        }
+      : null;
+  }, [ballFlight, rig, rowsBySheet, dataFit, timeAlign]);
+
   /* Clean blob URLs */
   useEffect(() => {
     return () => {
@@ -581,10 +1409,23 @@ export default function ThreeView() {
     if (!file) return;
     if (fbxUrl?.startsWith("blob:")) URL.revokeObjectURL(fbxUrl);
     setFbxUrl(URL.createObjectURL(file));
+    detachAlignment();
+    // the session's video shows another rep now
+    setVideo((v) => (v?.source ? null : v));
     setPlaying(true);
     setTime(0);
   }
 
+  function handleVideoFile(e: React.ChangeEvent<HTMLInputElement>) {
+    if (mode !== "admin") return;
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (video?.url.startsWith("blob:")) URL.revokeObjectURL(video.url);
+    setVideo({ url: URL.createObjectURL(file), source: null });
+    setUploadVideoOffset(0);
+    setShowVideo(true);
+  }
+
   async function handleJsonFile(e: React.ChangeEvent<HTMLInputElement>) {
     if (mode !== "admin") return;
     const file = e.target.files?.[0];
@@ -595,6 +1436,8 @@ export default function ThreeView() {
       const arr = normalizeToArray(parsed) ?? [];
       const sets: RowsBySheet = { Data: arr };
       setRowsBySheet(sets);
+      detachAlignment();
+      setUploadEventOverrides({});
       setSheetNames(["Data"]);
       setSheet("Data");
       setRows(arr);
@@ -609,7 +1452,7 @@ export default function ThreeView() {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const sets = await parseExcelToDataSets(file, FPS);
+      const sets = await parseExcelToDataSets(file, DEFAULT_FPS);
       const names = Object.keys(sets);
       if (!names.length) throw new Error("No usable sheets found.");
 
@@ -618,7 +1461,9 @@ export default function ThreeView() {
         names.find((n) => /joint.*position/i.test(n)) ??
         names[0];
 
-      setRowsBySheet(sets);
+      setRowsBySheet(withJointAngles(sets));
+      detachAlignment();
+      setUploadEventOverrides({});
       setSheetNames(names);
       setSheet(preferred);
       setRows(sets[preferred]);
@@ -682,9 +1527,12 @@ export default function ThreeView() {
     );
   }
 
+  // `t0`: the capture clock's zero (see captureStart), which is read off `t`; rows
+  // keyed `time` (JSON uploads) start at their own first sample
   function buildSeries(
     data: Array<Record<string, unknown>>,
-    channel: string | null
+    channel: string | null,
+    t0?: number
   ): { pts: SeriesPoint[]; dur: number } {
     if (!data || data.length === 0 || !channel) return { pts: [], dur: 0 };
 
@@ -713,57 +1561,380 @@ export default function ThreeView() {
 
     if (pts.length === 0) return { pts: [], dur: 0 };
 
-    const t0 = pts[0].t ?? 0;
+    const origin = (tKey === "t" ? t0 : undefined) ?? pts[0].t ?? 0;
     const t1 = pts[pts.length - 1].t ?? 0;
-    const dur = Math.max(0, t1 - t0);
+    const dur = Math.max(0, t1 - origin);
 
     const normalized: SeriesPoint[] = pts.map((p) => ({
-      t: (p.t ?? 0) - t0,
+      t: (p.t ?? 0) - origin,
       value: p.value,
     }));
 
     return { pts: normalized, dur };
   }
 
+  /* User-defined formula channels (persisted in this browser per user: a locked
+     player link keeps its own, other visitors one set per mode) */
+  const formulasKey = `seq_formulas_${encodeURIComponent(isPlayerLocked ? `player:${initialPlayer}` : mode)}`;
+  const [formulas, setFormulas] = useState<Formula[]>(() => {
+    try {
+      // formulas saved before they were per user belong to the analysts
+      const stored = isBrowser
+        ? localStorage.getItem(formulasKey) ?? (mode === "admin" ? localStorage.getItem("seq_formulas") : null)
+        : null;
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem(formulasKey, JSON.stringify(formulas));
+  }, [formulasKey, formulas]);
+  const [showFormulas, setShowFormulas] = useState(false);
+
+  /* Per-channel filtering / differentiation for the graphs (persisted in this browser) */
+  const [channelFilters, setChannelFilters] = useState<Record<string, ChannelProcessing>>(() => {
+    try {
+      const stored = isBrowser ? localStorage.getItem("seq_channelFilters") : null;
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_channelFilters", JSON.stringify(channelFilters));
+  }, [channelFilters]);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const setChannelFilter = useCallback((key: string, proc: ChannelProcessing | null) => {
+    setChannelFilters((prev) => {
+      const next = { ...prev };
+      if (proc) next[key] = proc;
+      else delete next[key];
+      return next;
+    });
+  }, []);
+
+  const formulaResult = useMemo(
+    () => (rowsBySheet ? withFormulas(rowsBySheet, formulas) : null),
+    [rowsBySheet, formulas]
+  );
+  const channelSets = formulaResult?.sets ?? null;
+  const compareChannelSets = useMemo(
+    () => (compareRowsBySheet ? withFormulas(compareRowsBySheet, formulas).sets : null),
+    [compareRowsBySheet, formulas]
+  );
+
+  const validateFormula = useCallback(
+    (expr: string) => {
+      try {
+        const target = sheet ? channelSets?.[sheet] : null;
+        if (target?.length) evaluateFormula(expr, target);
+        else parseFormula(expr);
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+    },
+    [channelSets, sheet]
+  );
+
   /* Recompute sheet/channels/series when data changes */
   useEffect(() => {
-    if (!rowsBySheet || !sheet) return;
-    const newRows = rowsBySheet[sheet];
+    if (!channelSets || !sheet) return;
+    const newRows = channelSets[sheet];
     setRows(newRows);
 
     const chs = listNumericChannels(newRows);
     setChannels(chs);
 
-    setSelectedChannel((prev) => (prev && chs.includes(prev) ? prev : pickPreferredChannel(chs)));
-    setSelectedChannelB((prev) => {
-      if (prev && chs.includes(prev)) return prev;
+    // keep channels that exist on the new sheet; seed empty graphs with a default
+    setGraphChannels((prev) => {
+      const kept = prev.map((list) => list.filter((k) => chs.includes(k)));
       const first = pickPreferredChannel(chs);
-      const second = chs.find((k) => k !== first) ?? first ?? null;
-      return second;
+      const second = chs.find((k) => k !== first) ?? first;
+      return kept.map((list, i) => {
+        if (list.length) return list;
+        const seed = i === 0 ? first : second;
+        return seed ? [seed] : [];
+      });
     });
-  }, [rowsBySheet, sheet]);
+  }, [channelSets, sheet]);
 
   useEffect(() => {
-    if (!rows || !selectedChannel) {
-      setSeries(null);
+    if (!rows || rows.length === 0) {
       setJsonDuration(0);
       return;
     }
-    const { pts, dur } = buildSeries(rows, selectedChannel);
-    setSeries(pts);
-    setJsonDuration(dur);
-  }, [rows, selectedChannel]);
+    const tKey = rows.some((d) => typeof d?.t === "number") ? "t" : "time";
+    const ts = rows.map((d) => Number(d?.[tKey])).filter(Number.isFinite);
+    // the series are drawn on the capture clock, so the axis runs from its zero too
+    const t0 = tKey === "t" && channelSets ? captureStart(channelSets) : ts[0];
+    setJsonDuration(ts.length > 1 ? Math.max(0, ts[ts.length - 1] - t0) : 0);
+  }, [rows, channelSets]);
+
+  const compareRows = compareOn && !usingReference && sheet ? compareChannelSets?.[sheet] ?? null : null;
+
+  // Compare curves are dashed, in the same colour as the channel they mirror,
+  // and shifted onto the main session's clock so the aligned event coincides
+  // (or, with phase-normalized time, warped so every phase does).
+  // A channel's filter/derivative applies to both sessions; with a raw overlay
+  // the unfiltered curve is drawn faintly underneath.
+  const graphSeries = useMemo<GraphSeries[][]>(() => {
+    const shift = compareAnchor ? compareAnchor.a - compareAnchor.b : 0;
+    const toMainClock = phaseWarp
+      ? (t: number) => fromPhase(phaseWarp.main, toPhase(phaseWarp.compare, t))
+      : (t: number) => t + shift;
+
+    // every sheet on its session's capture clock, like the event markers
+    const mainT0 = channelSets ? captureStart(channelSets) : undefined;
+    const compareT0 = compareChannelSets ? captureStart(compareChannelSets) : undefined;
+    const processed = (data: Array<Record<string, unknown>>, k: string, t0?: number) => {
+      const pts = buildSeries(data, k, t0).pts;
+      const proc = channelFilters[k];
+      if (!proc || !pts.length) return { data: pts, raw: null };
+      const t = pts.map((p) => p.t ?? 0);
+      const { raw, filtered } = processChannel(proc, t, pts.map((p) => p.value));
+      const asPts = (v: number[]) => t.map((tt, i) => ({ t: tt, value: v[i] })).filter((p) => Number.isFinite(p.value));
+      const showRaw = proc.showRaw && proc.filter.kind !== "none";
+      return { data: asPts(filtered), raw: showRaw ? asPts(raw) : null };
+    };
+    const labelOf = (k: string) => `${prettyLabel(k)}${channelFilters[k]?.derivative ? " d/dt" : ""}`;
+
+    return graphChannels.map((list) => {
+      if (!rows) return [];
+      const out: GraphSeries[] = [];
+      list.forEach((k, i) => {
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        const { data, raw } = processed(rows, k, mainT0);
+        if (raw) out.push({ id: `raw:${k}`, label: `${labelOf(k)} (raw)`, color, data: raw, faint: true });
+        out.push({ id: k, label: labelOf(k), color, data });
+      });
+      if (compareRows) {
+        list.forEach((k, i) => {
+          const data = processed(compareRows, k, compareT0)
+            .data.map((p) => ({ t: toMainClock(p.t ?? 0), value: p.value }))
+            .filter((p) => p.t >= 0);
+          if (!data.length) return;
+          out.push({
+            id: `compare:${k}`,
+            label: `${labelOf(k)} · ${compareLabel}`,
+            color: SERIES_COLORS[i % SERIES_COLORS.length],
+            data,
+            dashed: true,
+          });
+        });
+      }
+      return out;
+    });
+  }, [rows, channelSets, compareChannelSets, graphChannels, channelFilters, compareRows, compareAnchor, phaseWarp, compareLabel]);
+
+  /* Reference bands: normative mean ± SD behind the graphed channels. The
+     roster average is built here (and kept in this browser); other datasets
+     are imported, or published as data/norms.json. */
+  const [showNorms, setShowNorms] = useState(false);
+  const [normSource, setNormSource] = useState<string>(
+    () => (isBrowser ? localStorage.getItem("seq_normSource") : null) ?? "off"
+  );
+  const [normScheme, setNormScheme] = useState<NormScheme>(() => {
+    const stored = isBrowser ? localStorage.getItem("seq_normScheme") : null;
+    return NORM_SCHEMES.find((s) => s.value === stored)?.value ?? "events";
+  });
+  const [rosterNorms, setRosterNorms] = useState<Partial<Record<NormScheme, NormDataset>>>(() => {
+    const out: Partial<Record<NormScheme, NormDataset>> = {};
+    for (const { value } of NORM_SCHEMES) {
+      try {
+        const stored = isBrowser ? localStorage.getItem(`seq_rosterNorms_${value}`) : null;
+        if (stored) out[value] = parseNorms(stored, "roster", "Roster average");
+      } catch {
+        // ignore a stale or damaged copy
+      }
+    }
+    return out;
+  });
+  const [otherNorms, setOtherNorms] = useState<NormDataset[]>([]);
+  const [normProgress, setNormProgress] = useState<number | null>(null);
+  const [normError, setNormError] = useState<string | null>(null);
+  const normAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    if (!rows || !selectedChannelB) {
-      setSeriesB(null);
-      return;
+    if (isBrowser) localStorage.setItem("seq_normSource", normSource);
+  }, [normSource]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_normScheme", normScheme);
+  }, [normScheme]);
+  useEffect(() => {
+    if (!isBrowser) return;
+    for (const [scheme, ds] of Object.entries(rosterNorms)) {
+      try {
+        localStorage.setItem(`seq_rosterNorms_${scheme}`, serializeNorms(ds));
+      } catch (e) {
+        console.warn("Roster norms too large to keep in this browser:", e);
+      }
     }
-    const { pts } = buildSeries(rows, selectedChannelB);
-    setSeriesB(pts);
-  }, [rows, selectedChannelB]);
+  }, [rosterNorms]);
+
+  // published dataset, if the site has one
+  useEffect(() => {
+    let cancelled = false;
+    fetch(withBase(`data/norms.json?ts=${Date.now()}`))
+      .then((r) => (r.ok ? r.text() : null))
+      .then((text) => {
+        if (!text || cancelled) return;
+        const ds = parseNorms(text, "published", "Published norms");
+        setOtherNorms((list) => [ds, ...list.filter((d) => d.id !== ds.id)]);
+      })
+      .catch((e) => console.warn("data/norms.json not usable:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const activeNorms =
+    normSource === "roster" ? rosterNorms[normScheme] ?? null : otherNorms.find((d) => d.id === normSource) ?? null;
+  const normSources = useMemo(
+    () => [
+      { value: "off", label: "Off" },
+      { value: "roster", label: "Roster average" },
+      ...otherNorms.map((d) => ({ value: d.id, label: d.label })),
+    ],
+    [otherNorms]
+  );
+  const normKnots = useMemo(
+    () => (activeNorms ? phaseKnots(detection, activeNorms.scheme) : null),
+    [activeNorms, detection]
+  );
+
+  // bands for the channels on each graph; none for differentiated channels (other units)
+  const graphBands = useMemo<GraphBand[][]>(() => {
+    return graphChannels.map((list) => {
+      if (!activeNorms || !normKnots || !detection || !sheet) return [];
+      const out: GraphBand[] = [];
+      for (const k of list) {
+        if (channelFilters[k]?.derivative) continue;
+        const data = normBand(activeNorms, detection.movement, sheet, k, normKnots);
+        if (data) out.push({ seriesId: k, label: `${activeNorms.label}: mean ± 1 SD`, data });
+      }
+      return out;
+    });
+  }, [graphChannels, activeNorms, normKnots, detection, sheet, channelFilters]);
+
+  const normNotice = !activeNorms
+    ? null
+    : !normKnots
+      ? activeNorms.scheme === "events"
+        ? "Bands need foot lift, foot plant and contact/release, which weren't all found in this session."
+        : "This session's events weren't detected, so the bands can't be lined up."
+      : graphChannels.flat().length && !graphBands.flat().length
+        ? `No reference data for the graphed channels${detection ? ` (${detection.movement})` : ""}.`
+        : null;
+
+  const buildRosterNorms = useCallback(async () => {
+    if (normAbortRef.current) return;
+    const abort = new AbortController();
+    normAbortRef.current = abort;
+    const scheme = normScheme;
+    setNormError(null);
+    setNormProgress(0);
+    try {
+      const roster = await fetchRosterPlayers();
+      const ds = await buildNormDataset(roster, async (p) => (await defaultSessionSource(p))?.excel ?? null, {
+        id: "roster",
+        label: "Roster average",
+        scheme,
+        onProgress: (done, total) => setNormProgress(done / total),
+        signal: abort.signal,
+      });
+      setRosterNorms((prev) => ({ ...prev, [scheme]: ds }));
+    } catch (e) {
+      if (!abort.signal.aborted) setNormError(e instanceof Error ? e.message : String(e));
+    } finally {
+      normAbortRef.current = null;
+      setNormProgress(null);
+    }
+  }, [normScheme]);
+
+  const importNorms = useCallback(async (file: File) => {
+    try {
+      const ds = parseNorms(await file.text(), `file:${file.name}`, file.name.replace(/\.json$/i, ""));
+      setOtherNorms((list) => [...list.filter((d) => d.id !== ds.id), ds]);
+      setNormSource(ds.id);
+      setNormError(null);
+    } catch (e) {
+      setNormError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, []);
+
+  const exportNorms = useCallback(() => {
+    if (!activeNorms) return;
+    const blob = new Blob([serializeNorms(activeNorms)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `norms_${activeNorms.label.replace(/\s+/g, "_")}_${activeNorms.scheme}.json`;
+    document.body.appendChild(a);
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 800);
+    a.remove();
+  }, [activeNorms]);
+
+  const addGraphChannel = useCallback((slot: number, key: string) => {
+    if (!key) return;
+    setGraphChannels((prev) =>
+      prev.map((list, i) => (i === slot && !list.includes(key) ? [...list, key] : list))
+    );
+  }, []);
+
+  /* AI assistant: questions answered from the session's data (formula channels included) */
+  const [showChat, setShowChat] = useState(false);
+  // the compare session, when one is loaded, answers "vs last session" questions
+  const chatOther = useMemo<QueryContext["other"]>(
+    () =>
+      compareRowsBySheet && compareChannelSets && !usingReference
+        ? {
+            label: compareLabel,
+            sets: compareChannelSets,
+            detection: compareDetection,
+            metrics: computeMetrics(compareRowsBySheet, compareDetection),
+          }
+        : null,
+    [compareRowsBySheet, compareChannelSets, usingReference, compareLabel, compareDetection]
+  );
+  const chatContext = useMemo<QueryContext | null>(
+    () => (channelSets ? { sets: channelSets, detection, metrics: sessionMetrics, other: chatOther } : null),
+    [channelSets, detection, sessionMetrics, chatOther]
+  );
+  // an answer's channel link: switch to its sheet and add it (or its x/y/z) to the main graph
+  const showQueryChannel = useCallback(
+    (id: string) => {
+      const ch = channelSets ? queryChannels(channelSets).find((c) => c.id === id) : null;
+      if (!ch) return;
+      setSheet(ch.sheet);
+      ch.keys.forEach((k) => addGraphChannel(0, k));
+      setShowMainGraph(true);
+    },
+    [channelSets, addGraphChannel]
+  );
+
+  const removeGraphChannel = useCallback((slot: number, id: string) => {
+    const key = id.replace(/^(compare|raw):/, "");
+    setGraphChannels((prev) => prev.map((list, i) => (i === slot ? list.filter((k) => k !== key) : list)));
+  }, []);
+
+  const setGraphYMode = useCallback((slot: number, yMode: YAxisMode) => {
+    setGraphYModes((prev) => prev.map((m, i) => (i === slot ? yMode : m)));
+  }, []);
+
+  const graphTitle = (slot: number, sep: string) => {
+    const list = graphChannels[slot];
+    const parts = ["Signal", sheet, list.length === 1 ? prettyLabel(list[0]) : null];
+    return parts.filter(Boolean).join(` ${sep} `);
+  };
+
 
 
+  /* A–B loop: set from the transport or by shift-dragging on a graph */
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+  useEffect(() => setLoopRange(null), [fbxUrl]);
 
   /* FBX duration callback */
   const onReadyDuration = useCallback((dur: number) => {
@@ -784,7 +1955,7 @@ export default function ThreeView() {
 
   useEffect(() => {
     subFrameAccRef.current = 0;
-  }, [speed, snapFrames, playing, duration]);
+  }, [speed, reverse, snapFrames, playing, duration]);
 
   const startLoop = useCallback(() => {
     cancelLoop();
@@ -798,55 +1969,332 @@ export default function ThreeView() {
       setTime((prev) => {
         if (!playing || duration <= 0) return prev;
 
-        let s = Math.min(2, Math.max(0.1, speed));
+        // wrap inside the loop region when there is one, else the whole clip
+        const lo = loopRange ? loopRange.a : 0;
+        const hi = loopRange ? loopRange.b : duration;
+        const span = hi - lo;
+        const wrap = (t: number) => lo + (((t - lo) % span) + span) % span;
+        if (prev < lo || prev > hi) return reverse ? hi : lo;
+
+        let s = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
         const delta = dt * s;
+        const dir = reverse ? -1 : 1;
 
-        if (!snapFrames) {
-          let next = prev + delta;
-          if (duration > 0) next = ((next % duration) + duration) % duration;
-          return next;
-        }
+        if (!snapFrames) return wrap(prev + dir * delta);
 
-        const step = 1 / FPS;
+        const step = 1 / fps;
         let acc = subFrameAccRef.current + delta;
         const frames = Math.floor(acc / step);
         subFrameAccRef.current = acc - frames * step;
 
         if (frames <= 0) return prev;
 
-        let next = prev + frames * step;
-        if (duration > 0) {
-          next = ((next % duration) + duration) % duration;
-          next = Math.min(Math.max(0, next), Math.max(0, duration - step / 2));
-        }
-        return next;
+        const next = wrap(prev + dir * frames * step);
+        return Math.min(Math.max(lo, next), Math.max(lo, hi - step / 2));
       });
 
       rafRef.current = requestAnimationFrame(loop);
     };
 
     rafRef.current = requestAnimationFrame(loop);
-  }, [cancelLoop, playing, duration, speed, snapFrames]);
+  }, [cancelLoop, playing, reverse, duration, speed, snapFrames, fps, loopRange]);
 
   useEffect(() => {
     startLoop();
     return cancelLoop;
   }, [startLoop, cancelLoop]);
 
+  /* Phase events → FBX seconds for graph markers + slider ticks */
+  const eventMarkers = useMemo<EventMarker[]>(() => {
+    if (!showEvents || !detection || duration <= 0) return [];
+    return detection.events.map((e) => ({
+      id: e.id,
+      label: e.short,
+      t: toFbxTime(timeAlign, e.t),
+      color: e.color,
+    }));
+  }, [showEvents, detection, duration, timeAlign]);
+
+  // foot lift, foot plant and contact/release: the 0 / 50 / 100% marks of phase time
+  const phaseAnchors = useMemo<PhaseAnchor[]>(() => {
+    if (!detection) return [];
+    const strike: EventId =
+      eventTime(detection, "contact") != null || (detection.movement === "hitter" && eventTime(detection, "release") == null)
+        ? "contact"
+        : "release";
+    return (["footLift", "footPlant", strike] as EventId[]).map((id) => {
+      const e = detection.events.find((ev) => ev.id === id);
+      return {
+        id,
+        label: eventStyle(id).label,
+        color: eventStyle(id).color,
+        t: e && duration > 0 ? toFbxTime(timeAlign, e.t) : null,
+        manual: !!e?.manual,
+      };
+    });
+  }, [detection, duration, timeAlign]);
+
+  const compareTimeAlign = useMemo(() => {
+    const saved = compareSession
+      ? alignDrafts[comparePlayer]?.[compareSession] ?? compareManifest?.alignment?.[compareSession]
+      : null;
+    if (isValidAlignment(saved)) return saved;
+    const clock = compareRowsBySheet ? dataClock(compareRowsBySheet) : null;
+    return stretchAlignment(clock?.duration ?? 0, compareDuration);
+  }, [compareSession, comparePlayer, alignDrafts, compareManifest, compareRowsBySheet, compareDuration]);
+
+  /* Transport: frame steps, event jumps, loop points */
+  const snapTime = useCallback(
+    (t: number) => Math.max(0, Math.min(duration, snapFrames ? Math.round(t * fps) / fps : t)),
+    [duration, snapFrames, fps]
+  );
+
+  const stepFrames = useCallback(
+    (n: number) => {
+      if (duration <= 0) return;
+      setPlaying(false);
+      setTime((t) => Math.max(0, Math.min(duration, (Math.round(t * fps) + n) / fps)));
+    },
+    [duration, fps]
+  );
+
+  // all detected events, whether or not their markers are shown
+  const eventTimes = useMemo(
+    () => (detection ? detection.events.map((e) => toFbxTime(timeAlign, e.t)).sort((a, b) => a - b) : []),
+    [detection, timeAlign]
+  );
+  const jumpToEvent = useCallback(
+    (dir: 1 | -1) => {
+      const eps = 0.5 / fps;
+      const target = dir > 0 ? eventTimes.find((t) => t > time + eps) : [...eventTimes].reverse().find((t) => t < time - eps);
+      if (target == null) return;
+      setPlaying(false);
+      setTime(snapTime(target));
+    },
+    [eventTimes, time, fps, snapTime]
+  );
+
+  const setLoopPoint = useCallback(
+    (which: "a" | "b") => {
+      const t = snapTime(time);
+      setLoopRange((r) => {
+        const a = which === "a" ? t : r?.a ?? 0;
+        const b = which === "b" ? t : r?.b ?? duration;
+        return b - a > 1 / fps ? { a, b } : null;
+      });
+    },
+    [time, duration, fps, snapTime]
+  );
+
+  // a range dragged out on a graph, in the graph's (Excel) seconds
+  const handleGraphRange = useCallback(
+    (t0: number, t1: number) => {
+      const a = snapTime(toFbxTime(timeAlign, Math.min(t0, t1)));
+      const b = snapTime(toFbxTime(timeAlign, Math.max(t0, t1)));
+      if (b - a > 1 / fps) {
+        setLoopRange({ a, b });
+        setTime(a);
+      }
+    },
+    [timeAlign, snapTime, fps]
+  );
+
+  /* Keyboard transport */
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onKey = (e: KeyboardEvent) => {
+      // hands off while a clip is rendering: it drives the playhead itself
+      if (e.metaKey || e.ctrlKey || e.altKey || duration <= 0 || clipAbortRef.current) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT|BUTTON)$/.test(el.tagName))) {
+        // sliders and checkboxes keep their own arrow keys; text fields keep everything
+        const type = (el as HTMLInputElement).type;
+        if (el.tagName !== "INPUT" || (type !== "checkbox" && type !== "range")) return;
+        if (type === "range" && e.key.startsWith("Arrow")) return;
+      }
+      switch (e.key) {
+        case " ":
+          setPlaying((p) => !p);
+          break;
+        case "ArrowRight":
+          stepFrames(e.shiftKey ? 10 : 1);
+          break;
+        case "ArrowLeft":
+          stepFrames(e.shiftKey ? -10 : -1);
+          break;
+        case "ArrowUp":
+          jumpToEvent(-1);
+          break;
+        case "ArrowDown":
+          jumpToEvent(1);
+          break;
+        case "Home":
+          setTime(loopRange?.a ?? 0);
+          break;
+        case "End":
+          setTime(loopRange?.b ?? snapTime(duration));
+          break;
+        case "k":
+        case "K":
+          setPlaying(false);
+          break;
+        case "l":
+        case "L":
+        case "j":
+        case "J": {
+          // L forward, J backward: play that way, again to speed up; turning around starts at 1x
+          const back = e.key === "j" || e.key === "J";
+          if (!playing) setPlaying(true);
+          else if (reverse === back) setSpeed((s) => Math.min(MAX_SPEED, s * 2));
+          else setSpeed(1);
+          setReverse(back);
+          break;
+        }
+        case "i":
+        case "I":
+          setLoopPoint("a");
+          break;
+        case "o":
+        case "O":
+          setLoopPoint("b");
+          break;
+        case "Escape":
+          if (!loopRange) return;
+          setLoopRange(null);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [duration, playing, reverse, loopRange, stepFrames, jumpToEvent, setLoopPoint, snapTime]);
+
+  /* Clip rendering: step the scene frame by frame and encode it with the docked graphs */
+  const [showRenderClip, setShowRenderClip] = useState(false);
+  const [clipProgress, setClipProgress] = useState<number | null>(null);
+  const [clipError, setClipError] = useState<string | null>(null);
+  const clipAbortRef = useRef<AbortController | null>(null);
+  const frameGrabRef = useRef<FrameGrabberRef | null>(null);
+  const graphDockRef = useRef<HTMLDivElement | null>(null);
+
+  const renderClipToFile = useCallback(
+    async (clip: ClipSettings) => {
+      const grab = frameGrabRef.current;
+      if (!grab || clipAbortRef.current) return;
+      const abort = new AbortController();
+      clipAbortRef.current = abort;
+      const resumeAt = time;
+      const restoreView = cameraControlsRef.current?.save();
+      setPlaying(false);
+      setClipError(null);
+      setClipProgress(0);
+      if (clip.view !== "current") cameraControlsRef.current?.jumpToView(clip.view);
+
+      const [width, height] = clip.size === "1080p" ? [1920, 1080] : [1280, 720];
+      const viewLabel = VIEW_OPTIONS.find((v) => v.value === clip.view)?.label ?? "Custom view";
+      try {
+        const blob = await renderClip(
+          async (t) => {
+            setTime(t);
+            await grab.frame(t);
+            const graphs = clip.includeGraphs && graphDockRef.current
+              ? [...graphDockRef.current.querySelectorAll<SVGSVGElement>('svg[role="img"]')]
+              : [];
+            return { scene: grab.snapshot, graphs };
+          },
+          {
+            from: clip.from,
+            to: clip.to,
+            fps,
+            speed: clip.speed,
+            width,
+            height,
+            title: clip.title
+              ? {
+                  title: clip.title,
+                  subtitle: session ?? undefined,
+                  details: [`${viewLabel} • ${clip.speed}x • ${fmt(clip.from)}–${fmt(clip.to)}`],
+                }
+              : null,
+            onProgress: setClipProgress,
+            signal: abort.signal,
+          }
+        );
+        const a = document.createElement("a");
+        a.href = URL.createObjectURL(blob);
+        a.download = `${[playerName, session ?? "clip", fmt(clip.from), fmt(clip.to)].join("_").replace(/\s+/g, "_")}.webm`;
+        document.body.appendChild(a);
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(a.href), 800);
+        a.remove();
+      } catch (e) {
+        if (!abort.signal.aborted) setClipError(e instanceof Error ? e.message : String(e));
+      } finally {
+        clipAbortRef.current = null;
+        setClipProgress(null);
+        setTime(resumeAt);
+        restoreView?.();
+      }
+    },
+    [time, fps, playerName, session]
+  );
+
+  /* Report snapshots: the scene posed at each event, taken the way clip frames are */
+  const captureReportSnapshots = useCallback(async (): Promise<ReportSnapshot[]> => {
+    const grab = frameGrabRef.current;
+    if (!grab || !detection || clipAbortRef.current) return [];
+    const resumeAt = time;
+    setPlaying(false);
+    const shots: ReportSnapshot[] = [];
+    try {
+      for (const e of detection.events) {
+        const t = snapTime(Math.min(Math.max(0, toFbxTime(timeAlign, e.t)), duration));
+        setTime(t);
+        await grab.frame(t);
+        shots.push({ label: e.label, t: e.t, image: canvasImage(grab.snapshot()) });
+      }
+    } finally {
+      setTime(resumeAt);
+    }
+    return shots;
+  }, [detection, time, timeAlign, duration, snapTime]);
+
+  /* Compare playhead: main time shifted so the aligned event coincides, held at the ends */
+  const compareTime = useMemo(() => {
+    if (compareDuration <= 0) return 0;
+    let t = time;
+    if (phaseWarp && duration > 0) {
+      // same phase of the movement in both sessions
+      const tExcel = fromPhase(phaseWarp.compare, toPhase(phaseWarp.main, toDataTime(timeAlign, time)));
+      t = toFbxTime(compareTimeAlign, tExcel);
+    } else if (compareAnchor && duration > 0) {
+      t += toFbxTime(compareTimeAlign, compareAnchor.b) - toFbxTime(timeAlign, compareAnchor.a);
+    }
+    if (ghostOverlay) t += ghost.timeOffset;
+    return Math.min(Math.max(0, t), compareDuration - 1e-3);
+  }, [time, duration, compareDuration, compareAnchor, phaseWarp, timeAlign, compareTimeAlign, ghostOverlay, ghost.timeOffset]);
+
+  const compareAlignOptions = useMemo(() => {
+    const opts: Array<{ value: string; label: string }> = [{ value: "start", label: "Start" }];
+    for (const e of detection?.events ?? []) {
+      if (!compareDetection || eventTime(compareDetection, e.id) != null) opts.push({ value: e.id, label: e.label });
+    }
+    return opts;
+  }, [detection, compareDetection]);
+
+  const compareSplit = compareOn && compareLayout === "split" && !!compareFbxUrl;
+
   /* Seek from graphs (map JSON time → FBX time) */
   const handleGraphSeek = useCallback(
     (tJson: number) => {
-      if (duration > 0 && jsonDuration > 0) {
-        let t = (tJson / jsonDuration) * duration;
-        if (snapFrames) t = Math.round(t * FPS) / FPS;
-        setTime(Math.max(0, Math.min(duration, t)));
-      } else if (duration > 0) {
-        let t = Math.max(0, Math.min(duration, tJson));
-        if (snapFrames) t = Math.round(t * FPS) / FPS;
-        setTime(t);
-      }
+      if (duration <= 0) return;
+      let t = toFbxTime(timeAlign, tJson);
+      if (snapFrames) t = Math.round(t * fps) / fps;
+      setTime(Math.max(0, Math.min(duration, t)));
     },
-    [duration, jsonDuration, snapFrames]
+    [duration, timeAlign, snapFrames, fps]
   );
 
   const fmt = (s: number) => `${s.toFixed(2)}s`;
@@ -866,7 +2314,9 @@ export default function ThreeView() {
   const ROW_GAP = 14;
   const EXTRA_CHROME = 12;
 
-  const availableGraphs = (series ? 1 : 0) + (seriesB ? 1 : 0);
+  const hasMain = graphSeries[0].length > 0;
+  const hasSecond = graphSeries[1].length > 0;
+  const availableGraphs = (hasMain ? 1 : 0) + (hasSecond ? 1 : 0) + (sequence ? 1 : 0);
   const activeGraphCount = Math.min(requestedGraphCount, availableGraphs);
 
   const shouldShowBottomDock =
@@ -875,9 +2325,9 @@ export default function ThreeView() {
   const dockHeightPx = shouldShowBottomDock ? dockPx : 0;
 
   const innerChrome = PANEL_PAD_TOP + PANEL_PAD_BOTTOM + EXTRA_CHROME;
-  const graphRowsForLayout = requestedGraphCount > 1 ? 2 : 1;
+  const graphRowsForLayout = Math.max(1, Math.min(3, requestedGraphCount));
   const computedSlot = Math.floor(
-    (dockHeightPx - innerChrome - (graphRowsForLayout > 1 ? ROW_GAP : 0)) / graphRowsForLayout
+    (dockHeightPx - innerChrome - (graphRowsForLayout - 1) * ROW_GAP) / graphRowsForLayout
   );
   const perGraphHeight = Math.max(isCompact ? 100 : 120, computedSlot);
 
@@ -906,9 +2356,37 @@ export default function ThreeView() {
               Upload Excel
               <input type="file" accept=".xlsx,.xls,.csv" onChange={handleExcelFile} style={{ display: "none" }} />
             </label>
+            <label className="btn" style={{ cursor: "pointer" }}>
+              Upload video
+              <input type="file" accept="video/mp4,video/webm,.mp4,.webm" onChange={handleVideoFile} style={{ display: "none" }} />
+            </label>
             <button className="btn ghost" onClick={exportCurrentJSON} disabled={!rows || rows.length === 0}>
               Export JSON
             </button>
+            <button
+              className={showAlignment ? "btn primary" : "btn"}
+              onClick={() => setShowAlignment((v) => !v)}
+              title="Line up the Excel data with the FBX animation"
+            >
+              Time sync
+            </button>
+            <button
+              className={showRenderClip ? "btn primary" : "btn"}
+              onClick={() => setShowRenderClip((v) => !v)}
+              disabled={!fbxUrl}
+              title="Render the playback, with graphs, to a video file"
+            >
+              Render clip
+            </button>
+            {!isPlayerLocked && (
+              <button
+                className="btn"
+                onClick={() => setShowRoster(true)}
+                title="Core metrics for every player, ranked against their peers"
+              >
+                Roster
+              </button>
+            )}
           </div>
         )}
 
@@ -954,36 +2432,119 @@ export default function ThreeView() {
           )}
         </div>
 
+        {/* Compare session selection */}
+        {compareOn && (
+          <div className="toolbar-group">
+            <div className="ctrl">
+              <span className="label">Compare</span>
+              {isPlayerLocked ? (
+                <span className="pill" title={comparePlayer}>{comparePlayer}</span>
+              ) : (
+                <CustomSelect
+                  value={comparePlayer}
+                  onChange={setComparePlayer}
+                  options={players.map((n) => ({ value: n, label: n }))}
+                  title={comparePlayer}
+                  searchable={true}
+                />
+              )}
+              <CustomSelect
+                value={compareSession ?? ""}
+                onChange={(v) => setCompareSession(v || null)}
+                options={(compareManifest?.sessions ?? []).map((s) => ({ value: s, label: s }))}
+                title={compareSession ?? undefined}
+                disabled={!compareManifest?.sessions?.length}
+                placeholder="Session..."
+              />
+            </div>
+            <div className="ctrl">
+              <span className="label">Align</span>
+              <CustomSelect
+                value={compareAlign}
+                onChange={(v) => setCompareAlign(v as CompareAlign)}
+                options={compareAlignOptions}
+                title={compareAnchor || compareAlign === "start" ? undefined : "Event not found in both sessions; aligned on start"}
+              />
+            </div>
+            <div className="ctrl">
+              <span className="label">Layout</span>
+              <CustomSelect
+                value={compareLayout}
+                onChange={(v) => setCompareLayout(v as CompareLayout)}
+                options={[
+                  { value: "split", label: "Side by side" },
+                  { value: "overlay", label: "Ghost overlay" },
+                ]}
+                title={compareLayout}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Visualization controls */}
         <div className="toolbar-group">
           {channels.length > 0 && (
             <>
               <div className="ctrl">
-                <span className="label">Stat 1</span>
+                <span className="label">Graph 1</span>
                 <CustomSelect
-                  value={selectedChannel ?? ""}
-                  onChange={(v) => setSelectedChannel(v || null)}
-                  options={channels.map((k) => ({
-                    value: k,
-                    label: prettyLabel(k),
-                  }))}
-                  title={selectedChannel ? prettyLabel(selectedChannel) : undefined}
+                  value=""
+                  onChange={(v) => addGraphChannel(0, v)}
+                  options={channels
+                    .filter((k) => !graphChannels[0].includes(k))
+                    .map((k) => ({
+                      value: k,
+                      label: prettyLabel(k),
+                    }))}
+                  title={graphChannels[0].map(prettyLabel).join(", ") || undefined}
+                  placeholder="Add channel…"
                   searchable={true}
                 />
               </div>
               <div className="ctrl">
-                <span className="label">Stat 2</span>
+                <span className="label">Graph 2</span>
                 <CustomSelect
-                  value={selectedChannelB ?? ""}
-                  onChange={(v) => setSelectedChannelB(v || null)}
-                  options={channels.map((k) => ({
-                    value: k,
-                    label: prettyLabel(k),
-                  }))}
-                  title={selectedChannelB ? prettyLabel(selectedChannelB) : undefined}
+                  value=""
+                  onChange={(v) => addGraphChannel(1, v)}
+                  options={channels
+                    .filter((k) => !graphChannels[1].includes(k))
+                    .map((k) => ({
+                      value: k,
+                      label: prettyLabel(k),
+                    }))}
+                  title={graphChannels[1].map(prettyLabel).join(", ") || undefined}
+                  placeholder="Add channel…"
                   searchable={true}
                 />
               </div>
+              <button
+                className={showFormulas ? "btn primary" : "btn"}
+                onClick={() => setShowFormulas((v) => !v)}
+                title="Define your own channels from formulas"
+              >
+                ƒx
+              </button>
+              <button
+                className={showFilters ? "btn primary" : "btn"}
+                onClick={() => setShowFilters((v) => !v)}
+                title="Filter or differentiate the graphed channels"
+              >
+                Filters
+              </button>
+              <button
+                className={showNorms ? "btn primary" : "btn"}
+                onClick={() => setShowNorms((v) => !v)}
+                title="Shade a reference range (e.g. the roster average ± SD) behind the graphed channels"
+              >
+                Norms
+              </button>
+              <button
+                className={showPhases ? "btn primary" : "btn"}
+                onClick={() => setShowPhases((v) => !v)}
+                title="Graph time as % of the movement, and place phase events by hand"
+              >
+                Phases
+              </button>
             </>
           )}
           <div className="ctrl">
@@ -994,14 +2555,7 @@ export default function ThreeView() {
                 setCurrentView(view);
                 handlePresetView(view);
               }}
-              options={[
-                { value: "front", label: "Front" },
-                { value: "back", label: "Back" },
-                { value: "left", label: "Left" },
-                { value: "right", label: "Right" },
-                { value: "diagonal1", label: "Diagonal" },
-                { value: "diagonal2", label: "Diagonal 2" },
-              ]}
+              options={VIEW_OPTIONS}
             />
           </div>
         </div>
@@ -1010,42 +2564,119 @@ export default function ThreeView() {
         <div className="toolbar-group transport-controls">
           <div className="ctrl grow">
             <span className="label">Time</span>
-            <input
-              className="slider"
-              type="range"
-              min={0}
-              max={Math.max(0.001, duration || 0.001)}
-              step={snapFrames ? 1 / FPS : Math.max(0.001, (duration || 1) / 1000)}
-              value={Math.min(time, duration || 0)}
-              onChange={(e) => {
-                const t = parseFloat(e.target.value);
-                setTime(snapFrames ? Math.round(t * FPS) / FPS : t);
-              }}
-              disabled={duration <= 0}
-              style={{ width: isCompact ? 180 : isPlayer ? 360 : 260 }}
-            />
-            {mode === "admin" && <span className="small">{`${fmt(time)} / ${fmt(duration || 0)} • ${FPS} fps`}</span>}
+            <div className="slider-wrap">
+              <input
+                className="slider"
+                type="range"
+                min={0}
+                max={Math.max(0.001, duration || 0.001)}
+                step={snapFrames ? 1 / fps : Math.max(0.001, (duration || 1) / 1000)}
+                value={Math.min(time, duration || 0)}
+                onChange={(e) => {
+                  const t = parseFloat(e.target.value);
+                  setTime(snapFrames ? Math.round(t * fps) / fps : t);
+                }}
+                disabled={duration <= 0}
+                style={{ width: isCompact ? 180 : isPlayer ? 360 : 260 }}
+              />
+              {loopRange && duration > 0 && (
+                <div
+                  className="slider-loop"
+                  style={{
+                    left: `${(loopRange.a / duration) * 100}%`,
+                    width: `${((loopRange.b - loopRange.a) / duration) * 100}%`,
+                  }}
+                />
+              )}
+              {detection && eventMarkers.map((m) => (
+                <button
+                  key={`tick-${m.id}`}
+                  type="button"
+                  className="slider-tick"
+                  style={{ left: `${(m.t / duration) * 100}%`, background: m.color }}
+                  title={detection.events.find((e) => e.id === m.id)?.label ?? m.label}
+                  onClick={() => setTime(snapFrames ? Math.round(m.t * fps) / fps : m.t)}
+                />
+              ))}
+            </div>
+            {mode === "admin" && <span className="small">{`${fmt(time)} / ${fmt(duration || 0)} • ${fps} fps`}</span>}
+            {mode === "admin" && fpsMismatch && (
+              <span
+                className="small"
+                style={{ color: "#f5c542", opacity: 1 }}
+                title={`The FBX clip is keyed at ${clipFps} fps but the Excel Time column is sampled at ${excelFps} Hz. Check the time alignment.`}
+              >
+                ⚠ Excel {excelFps} Hz
+              </span>
+            )}
           </div>
-          <button className="btn primary" onClick={() => setPlaying((p) => !p)} disabled={duration <= 0}>
-            {playing ? "Pause" : "Play"}
-          </button>
-          <button className="btn" onClick={() => setTime(0)} disabled={duration <= 0}>
+          <div className="ctrl transport-steps">
+            <button className="btn ghost" onClick={() => jumpToEvent(-1)} disabled={!eventTimes.length} title="Previous event (↑)">
+              ⏮
+            </button>
+            <button className="btn ghost" onClick={() => stepFrames(-1)} disabled={duration <= 0} title="Back one frame (←, Shift ← for 10)">
+              ◀︎
+            </button>
+            <button className="btn primary" onClick={() => setPlaying((p) => !p)} disabled={duration <= 0} title="Play / pause (Space; L forward, J backward, K pause)">
+              {playing ? "Pause" : "Play"}
+            </button>
+            <button className="btn ghost" onClick={() => stepFrames(1)} disabled={duration <= 0} title="Forward one frame (→, Shift → for 10)">
+              ▶︎
+            </button>
+            <button className="btn ghost" onClick={() => jumpToEvent(1)} disabled={!eventTimes.length} title="Next event (↓)">
+              ⏭
+            </button>
+          </div>
+          <button className="btn" onClick={() => setTime(loopRange?.a ?? 0)} disabled={duration <= 0} title="Back to the start (Home)">
             Reset
           </button>
+          <div className="ctrl">
+            <span className="label">Loop</span>
+            <button
+              className={loopRange ? "btn" : "btn ghost"}
+              onClick={() => setLoopPoint("a")}
+              disabled={duration <= 0}
+              title="Loop from the playhead (I) — or shift-drag across a graph"
+            >
+              A
+            </button>
+            <button
+              className={loopRange ? "btn" : "btn ghost"}
+              onClick={() => setLoopPoint("b")}
+              disabled={duration <= 0}
+              title="Loop up to the playhead (O)"
+            >
+              B
+            </button>
+            {loopRange && (
+              <button className="btn ghost" onClick={() => setLoopRange(null)} title="Clear the loop (Esc)">
+                ✕
+              </button>
+            )}
+          </div>
           <div className="ctrl">
             <span className="label">Speed</span>
             <input
               className="slider"
               type="range"
-              min={0.1}
-              max={2}
-              step={0.1}
-              value={speed}
-              onChange={(e) => setSpeed(parseFloat(e.target.value))}
+              min={Math.log10(MIN_SPEED)}
+              max={Math.log10(MAX_SPEED)}
+              step={0.01}
+              value={Math.log10(speed)}
+              onChange={(e) => {
+                // round to two significant digits so 1x, 0.5x, 0.01x are reachable
+                const v = Math.pow(10, parseFloat(e.target.value));
+                setSpeed(Math.min(MAX_SPEED, Math.max(MIN_SPEED, parseFloat(v.toPrecision(2)))));
+              }}
+              onDoubleClick={() => setSpeed(1)}
               disabled={duration <= 0}
               style={{ width: isCompact ? 100 : 120 }}
+              title="Playback speed (press L or J again to double it, double-click for 1x)"
             />
-            <span className="small">{speed.toFixed(1)}x</span>
+            <span className="small">
+              {reverse ? "−" : ""}
+              {speed < 0.1 ? speed.toFixed(2) : speed.toFixed(1)}x
+            </span>
           </div>
           <div className="ctrl">
             <span className="label">Display</span>
@@ -1079,9 +2710,113 @@ export default function ThreeView() {
             </svg>
             <span>Graph 2</span>
           </label>
-          {hasReport && (
-            <button className="btn btn--primary" onClick={() => setShowPdfViewer(true)}>
-              Report
+          <label className="toggle" title={sequence ? undefined : "No sequence channels in this session"}>
+            <input
+              type="checkbox"
+              checked={showSequence}
+              onChange={(e) => setShowSequence(e.target.checked)}
+              disabled={!sequence}
+            />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <path d="M1 12C3 12 3 4 5 4C7 4 7 12 9 12" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+              <path d="M6 12C8 12 9 2 11 2C12 2 12.5 6 13 8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+            <span>Sequence</span>
+          </label>
+          <label className="toggle" title={detection?.events.length ? undefined : "No events detected in this session"}>
+            <input
+              type="checkbox"
+              checked={showEvents}
+              onChange={(e) => setShowEvents(e.target.checked)}
+              disabled={!detection?.events.length}
+            />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <path d="M3 1V13M7 1V13M11 1V13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+              <path d="M1 4H5M5 8H9M9 5H13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+            <span>Events</span>
+          </label>
+          <label className="toggle" title={rowsBySheet ? "Peaks, timings and positions for this session" : "No session data loaded"}>
+            <input
+              type="checkbox"
+              checked={showMetrics && !!rowsBySheet}
+              onChange={(e) => setShowMetrics(e.target.checked)}
+              disabled={!rowsBySheet}
+            />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <path d="M2 12V7M7 12V2M12 12V5" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round"/>
+            </svg>
+            <span>Metrics</span>
+          </label>
+          <label className="toggle" title="Trace joint paths around the playhead">
+            <input type="checkbox" checked={showTrails} onChange={(e) => setShowTrails(e.target.checked)} />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <path d="M1 11C3 11 4 3 8 3" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeDasharray="1.5 2"/>
+              <circle cx="11" cy="3" r="2" stroke="currentColor" strokeWidth="1.5"/>
+            </svg>
+            <span>Trails</span>
+          </label>
+          <label className="toggle" title={ballFlight ? "Ball position, path and velocity" : "No ball track in this session"}>
+            <input
+              type="checkbox"
+              checked={showBall}
+              onChange={(e) => setShowBall(e.target.checked)}
+              disabled={!ballFlight}
+            />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <circle cx="7" cy="7" r="5.5" stroke="currentColor" strokeWidth="1.5"/>
+              <path d="M4 2.5C5.5 5 5.5 9 4 11.5M10 2.5C8.5 5 8.5 9 10 11.5" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/>
+            </svg>
+            <span>Ball</span>
+          </label>
+          <label className="toggle" title={video ? "Session video, locked to the playhead" : "No video for this session"}>
+            <input
+              type="checkbox"
+              checked={showVideo && !!video}
+              onChange={(e) => setShowVideo(e.target.checked)}
+              disabled={!video}
+            />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <rect x="1" y="3" width="9" height="8" rx="1.5" stroke="currentColor" strokeWidth="1.5"/>
+              <path d="M10 6L13 4V10L10 8" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round"/>
+            </svg>
+            <span>Video</span>
+          </label>
+          <label className="toggle" title="Play a second session alongside this one">
+            <input type="checkbox" checked={compareOn} onChange={(e) => setCompareOn(e.target.checked)} />
+            <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ flexShrink: 0 }}>
+              <rect x="1" y="2" width="5" height="10" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+              <rect x="8" y="2" width="5" height="10" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+            </svg>
+            <span>Compare</span>
+          </label>
+          <button
+            className="btn"
+            onClick={() => setShowProgress(true)}
+            disabled={!progressSessions.length}
+            title="Metrics across all of this player's sessions"
+          >
+            Progress
+          </button>
+          <button
+            className="btn"
+            onClick={() => setShowAIReport(true)}
+            disabled={!reportInput}
+            title="Write up this session's metrics with a language model, as markdown or PDF"
+          >
+            AI Report
+          </button>
+          <button
+            className={showChat ? "btn primary" : "btn"}
+            onClick={() => setShowChat((v) => !v)}
+            disabled={!chatContext}
+            title="Ask questions about this session's data"
+          >
+            AI Assistant
+          </button>
+          {libraryReports.length > 0 && (
+            <button className="btn btn--primary" onClick={() => setShowReports(true)} title="Reports filed for this player">
+              Reports ({libraryReports.length})
             </button>
           )}
 
@@ -1094,7 +2829,7 @@ export default function ThreeView() {
         style={{
           position: "absolute",
           left: 0,
-          right: 0,
+          right: compareSplit ? "50%" : 0,
           top: 0,
           bottom: panelMode === "docked" && graphDock === "bottom" && requestedGraphCount > 0 ? dockPx : 0,
         }}
@@ -1106,64 +2841,314 @@ export default function ThreeView() {
           alpha: false,
         }}
         shadows
-        onCreated={({ gl, scene }) => {
-          gl.outputColorSpace = THREE.SRGBColorSpace;
-          gl.toneMapping = THREE.ACESFilmicToneMapping;
-          gl.toneMappingExposure = 1.1;
-          gl.shadowMap.enabled = true;
-          gl.shadowMap.type = THREE.PCFSoftShadowMap;
-          gl.setClearColor("#0a0d12", 1);
-          
-          // Add subtle fog for depth
-          scene.fog = new THREE.FogExp2("#0a0d12", 0.015);
-        }}
+        onCreated={setupRenderer}
       >
-        <Scene fbxUrl={fbxUrl} time={time} displayMode={displayMode} onReadyDuration={onReadyDuration} />
+        <Scene
+          fbxUrl={fbxUrl}
+          time={time}
+          displayMode={displayMode}
+          onReadyDuration={onReadyDuration}
+          pelvisRef={mainPelvisRef}
+          ghostUrl={ghostOverlay ? ghostFile?.url ?? compareFbxUrl : null}
+          ghostTime={compareTime}
+          ghost={ghost}
+          onGhostDuration={onCompareDuration}
+          onRig={onRig}
+          trails={trails}
+          trailWindow={trailWindow}
+          ball={showBall ? ballScene : null}
+        />
         <CameraControlsComponent controlsRef={cameraControlsRef} />
+        <FrameGrabber time={time} grabRef={frameGrabRef} />
 
         {/* In-3D graph panels */}
-        {panelMode === "in3d" && showMainGraph && series && selectedChannel && (
+        {panelMode === "in3d" && showMainGraph && hasMain && (
           <GraphHoloPanel
-            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannel)}`}
+            title={graphTitle(0, "•")}
             position={posMain}
             setPosition={setPosMain}
             draggable={mode === "admin"}
           >
             <SimpleGraph
-              data={series}
+              series={graphSeries[0]}
+              bands={graphBands[0]}
+              yMode={graphYModes[0]}
+              onYModeChange={(m) => setGraphYMode(0, m)}
+              onRemoveSeries={(k) => removeGraphChannel(0, k)}
               time={time}
               jsonDuration={jsonDuration || 0}
               fbxDuration={duration || 0}
+              alignment={timeAlign}
+              phase={graphPhase}
               height={200}
               title=""
               onSeek={handleGraphSeek}
+              loopRange={loopRange}
+              onSelectRange={handleGraphRange}
+              markers={eventMarkers}
             />
           </GraphHoloPanel>
         )}
 
-        {panelMode === "in3d" && showSecond && seriesB && selectedChannelB && (
+        {panelMode === "in3d" && showSecond && hasSecond && (
           <GraphHoloPanel
-            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannelB)}`}
+            title={graphTitle(1, "•")}
             position={posSecond}
             setPosition={setPosSecond}
             draggable={mode === "admin"}
           >
             <SimpleGraph
-              data={seriesB}
+              series={graphSeries[1]}
+              bands={graphBands[1]}
+              yMode={graphYModes[1]}
+              onYModeChange={(m) => setGraphYMode(1, m)}
+              onRemoveSeries={(k) => removeGraphChannel(1, k)}
               time={time}
               jsonDuration={jsonDuration || 0}
               fbxDuration={duration || 0}
+              alignment={timeAlign}
+              phase={graphPhase}
               height={200}
               title=""
               onSeek={handleGraphSeek}
+              loopRange={loopRange}
+              onSelectRange={handleGraphRange}
+              markers={eventMarkers}
+            />
+          </GraphHoloPanel>
+        )}
+
+        {panelMode === "in3d" && sequenceVisible && sequence && (
+          <GraphHoloPanel
+            title="Kinematic Sequence"
+            position={posSequence}
+            setPosition={setPosSequence}
+            draggable={mode === "admin"}
+          >
+            <SequenceGraph
+              sequence={sequence}
+              time={time}
+              fbxDuration={duration || 0}
+              alignment={timeAlign}
+              phase={graphPhase}
+              height={200}
+              title=""
+              onSeek={handleGraphSeek}
+              markers={eventMarkers}
             />
           </GraphHoloPanel>
         )}
       </Canvas>
 
+      {/* Session video, next to the 3D view */}
+      {showVideo && video && (
+        <VideoPanel
+          src={video.url}
+          time={time}
+          offset={videoOffset}
+          // video can't play backwards: let it seek frame by frame instead
+          playing={playing && !reverse}
+          speed={speed}
+          frame={1 / fps}
+          onOffsetChange={mode === "admin" ? setVideoOffset : undefined}
+          style={{
+            position: "absolute",
+            right: 12,
+            top: isCompact ? 86 : 90,
+            width: isCompact ? "42vw" : "min(420px, 34vw)",
+            zIndex: 2,
+          }}
+        />
+      )}
+
+      {/* Compare session (side by side) */}
+      {compareSplit && (
+        <Canvas
+          key={`compare:${comparePlayer}:${compareSession ?? "none"}`}
+          style={{
+            position: "absolute",
+            left: "50%",
+            right: 0,
+            top: 0,
+            bottom: panelMode === "docked" && graphDock === "bottom" && requestedGraphCount > 0 ? dockPx : 0,
+            borderLeft: "1px solid var(--border-strong)",
+          }}
+          dpr={isCompact ? [1, 1.25] : [1, 2]}
+          camera={{ position: [4, 3, 6], fov: 50, near: 0.1, far: 200 }}
+          gl={{
+            antialias: true,
+            powerPreference: isCompact ? "low-power" : "high-performance",
+            alpha: false,
+          }}
+          shadows
+          onCreated={setupRenderer}
+        >
+          <Scene
+            fbxUrl={compareFbxUrl}
+            time={compareTime}
+            displayMode={displayMode}
+            onReadyDuration={onCompareDuration}
+            cloneRig
+          />
+          <OrbitControls enableDamping dampingFactor={0.08} />
+        </Canvas>
+      )}
+
+      {(ghostOverlay || showTrails || (showBall && ballFlight) || showFormulas || showFilters || showAlignment || showRenderClip || showNorms || (showPhases && !!rowsBySheet) || (showChat && !!chatContext) || (showMetrics && !!rowsBySheet)) && (
+        <div
+          style={{
+            position: "absolute",
+            left: 12,
+            top: isCompact ? 86 : 90,
+            display: "flex",
+            flexDirection: "column",
+            gap: 10,
+          }}
+        >
+          {ghostOverlay && (
+            <GhostControls
+              settings={ghost}
+              onChange={setGhost}
+              onReset={() => setGhost((g) => ({ ...DEFAULT_GHOST, opacity: g.opacity }))}
+              sourceLabel={compareLabel || "No session"}
+              onUpload={
+                mode === "admin"
+                  ? (file) => setGhostFile({ url: URL.createObjectURL(file), name: file.name })
+                  : undefined
+              }
+              onClearUpload={ghostFile ? () => setGhostFile(null) : undefined}
+            />
+          )}
+          {showTrails && (
+            <TrailControls
+              options={trailOptions}
+              selected={trails}
+              onAdd={(id) => setTrailIds((ids) => (ids.includes(id) ? ids : [...ids, id]))}
+              onRemove={(id) => setTrailIds((ids) => ids.filter((x) => x !== id))}
+              before={trailWindow.before}
+              after={trailWindow.after}
+              onWindowChange={(before, after) => setTrailWindow({ before, after })}
+            />
+          )}
+          {showFormulas && (
+            <FormulaPanel
+              formulas={formulas}
+              errors={formulaResult?.errors ?? {}}
+              onSave={(f) =>
+                setFormulas((list) =>
+                  list.some((x) => x.name === f.name) ? list.map((x) => (x.name === f.name ? f : x)) : [...list, f]
+                )
+              }
+              onRemove={(name) => setFormulas((list) => list.filter((x) => x.name !== name))}
+              validate={validateFormula}
+            />
+          )}
+          {showAlignment && (
+            <AlignmentControls
+              alignment={timeAlign}
+              source={alignmentSource}
+              frame={1 / fps}
+              onChange={setTimeAlign}
+              onAuto={autoAlign}
+              autoScore={autoScore}
+              onReset={() => {
+                setTimeAlign(null);
+                setAutoScore(null);
+              }}
+              onExport={alignSource ? exportManifest : undefined}
+            />
+          )}
+          {showFilters && (
+            <FilterPanel
+              channels={[...new Set(graphChannels.flat())].map((key) => ({ key, label: prettyLabel(key) }))}
+              settings={channelFilters}
+              onChange={setChannelFilter}
+            />
+          )}
+          {showNorms && (
+            <NormsPanel
+              source={normSource}
+              sources={normSources}
+              onSourceChange={setNormSource}
+              scheme={activeNorms?.scheme ?? normScheme}
+              schemeLocked={normSource !== "roster" && !!activeNorms}
+              onSchemeChange={setNormScheme}
+              active={activeNorms}
+              notice={normNotice}
+              error={normError}
+              buildProgress={mode === "admin" ? normProgress : undefined}
+              onBuild={mode === "admin" ? buildRosterNorms : undefined}
+              onCancelBuild={() => normAbortRef.current?.abort()}
+              onImport={importNorms}
+              onExport={mode === "admin" ? exportNorms : undefined}
+            />
+          )}
+          {showPhases && rowsBySheet && (
+            <PhasePanel
+              normalized={normalizeTime}
+              onNormalizedChange={setNormalizeTime}
+              anchors={phaseAnchors}
+              onSetAtPlayhead={(id) => setEventOverride(id, toDataTime(timeAlign, time))}
+              onReset={(id) => setEventOverride(id, null)}
+              onSeek={setTime}
+            />
+          )}
+          {showChat && chatContext && (
+            <AIChatPanel context={chatContext} onSeek={handleGraphSeek} onShowChannel={showQueryChannel} />
+          )}
+          {showRenderClip && (
+            <RenderClipPanel
+              duration={duration}
+              fps={fps}
+              loopRange={loopRange}
+              defaultTitle={playerName}
+              views={VIEW_OPTIONS}
+              hasGraphs={shouldShowBottomDock && activeGraphCount > 0}
+              progress={clipProgress}
+              error={clipError}
+              onRender={renderClipToFile}
+              onCancel={() => clipAbortRef.current?.abort()}
+            />
+          )}
+          {showMetrics && rowsBySheet && (
+            <MetricsPanel metrics={sessionMetrics} alignment={timeAlign} fps={fps} onSeek={handleGraphSeek} />
+          )}
+          {showBall && ballFlight && (
+            <BallStats flight={ballFlight} onSeekLaunch={handleGraphSeek} />
+          )}
+        </div>
+      )}
+
+      {compareOn && (compareFbxUrl || usingReference) && (
+        <>
+          <div
+            className="viewport-tag"
+            style={{ left: 16, bottom: (shouldShowBottomDock ? dockPx : 0) + 12 }}
+          >
+            {session ? `${playerName} · ${session}` : playerName}
+          </div>
+          <div
+            className="viewport-tag dashed"
+            style={{
+              left: compareSplit ? "calc(50% + 16px)" : undefined,
+              right: compareSplit ? undefined : 16,
+              bottom: (shouldShowBottomDock ? dockPx : 0) + 12,
+            }}
+          >
+            {compareLabel}
+            {phaseWarp
+              ? " · matched by phase"
+              : compareAlign !== "start" && compareAnchor
+                ? ` · aligned on ${compareAlignOptions.find((o) => o.value === compareAlign)?.label ?? compareAlign}`
+                : ""}
+          </div>
+        </>
+      )}
+
       {/* Docked graphs (bottom) */}
       {panelMode === "docked" && graphDock === "bottom" && requestedGraphCount > 0 && (
         <div
+          ref={graphDockRef}
           className="panel-wrap"
           style={{
             position: "absolute",
@@ -1187,26 +3172,56 @@ export default function ThreeView() {
                 paddingRight: 4,
               }}
             >
-              {showMainGraph && series && selectedChannel && (
+              {showMainGraph && hasMain && (
                 <SimpleGraph
-                  data={series}
+                  series={graphSeries[0]}
+                  bands={graphBands[0]}
+                  yMode={graphYModes[0]}
+                  onYModeChange={(m) => setGraphYMode(0, m)}
+                  onRemoveSeries={(k) => removeGraphChannel(0, k)}
                   time={time}
                   jsonDuration={jsonDuration || 0}
                   fbxDuration={duration || 0}
+                  alignment={timeAlign}
+                  phase={graphPhase}
                   height={perGraphHeight}
-                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}`}
+                  title={graphTitle(0, "·")}
                   onSeek={handleGraphSeek}
+                  loopRange={loopRange}
+                  onSelectRange={handleGraphRange}
+                  markers={eventMarkers}
                 />
               )}
-              {showSecond && seriesB && selectedChannelB && (
+              {showSecond && hasSecond && (
                 <SimpleGraph
-                  data={seriesB}
+                  series={graphSeries[1]}
+                  bands={graphBands[1]}
+                  yMode={graphYModes[1]}
+                  onYModeChange={(m) => setGraphYMode(1, m)}
+                  onRemoveSeries={(k) => removeGraphChannel(1, k)}
                   time={time}
                   jsonDuration={jsonDuration || 0}
                   fbxDuration={duration || 0}
+                  alignment={timeAlign}
+                  phase={graphPhase}
                   height={perGraphHeight}
-                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}`}
+                  title={graphTitle(1, "·")}
                   onSeek={handleGraphSeek}
+                  loopRange={loopRange}
+                  onSelectRange={handleGraphRange}
+                  markers={eventMarkers}
+                />
+              )}
+              {sequenceVisible && sequence && (
+                <SequenceGraph
+                  sequence={sequence}
+                  time={time}
+                  fbxDuration={duration || 0}
+                  alignment={timeAlign}
+                  phase={graphPhase}
+                  height={perGraphHeight}
+                  onSeek={handleGraphSeek}
+                  markers={eventMarkers}
                 />
               )}
             </div>
@@ -1239,28 +3254,58 @@ export default function ThreeView() {
               overflowY: "auto",
             }}
           >
-            {showMainGraph && series && selectedChannel && (
+            {showMainGraph && hasMain && (
               <SimpleGraph
-                data={series}
+                series={graphSeries[0]}
+                bands={graphBands[0]}
+                yMode={graphYModes[0]}
+                onYModeChange={(m) => setGraphYMode(0, m)}
+                onRemoveSeries={(k) => removeGraphChannel(0, k)}
                 time={time}
                 jsonDuration={jsonDuration || 0}
                 fbxDuration={duration || 0}
+                alignment={timeAlign}
+                phase={graphPhase}
                 height={isCompact ? 160 : 180}
-                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}`}
+                title={graphTitle(0, "·")}
                 yLabel="Value"
                 onSeek={handleGraphSeek}
+                loopRange={loopRange}
+                onSelectRange={handleGraphRange}
+                markers={eventMarkers}
               />
             )}
-            {showSecond && seriesB && selectedChannelB && (
+            {showSecond && hasSecond && (
               <SimpleGraph
-                data={seriesB}
+                series={graphSeries[1]}
+                bands={graphBands[1]}
+                yMode={graphYModes[1]}
+                onYModeChange={(m) => setGraphYMode(1, m)}
+                onRemoveSeries={(k) => removeGraphChannel(1, k)}
                 time={time}
                 jsonDuration={jsonDuration || 0}
                 fbxDuration={duration || 0}
+                alignment={timeAlign}
+                phase={graphPhase}
                 height={isCompact ? 160 : 180}
-                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}`}
+                title={graphTitle(1, "·")}
                 yLabel="Value"
                 onSeek={handleGraphSeek}
+                loopRange={loopRange}
+                onSelectRange={handleGraphRange}
+                markers={eventMarkers}
+              />
+            )}
+            {sequenceVisible && sequence && (
+              <SequenceGraph
+                sequence={sequence}
+                time={time}
+                fbxDuration={duration || 0}
+                alignment={timeAlign}
+                phase={graphPhase}
+                height={isCompact ? 200 : 220}
+                onSeek={handleGraphSeek}
+                markers={eventMarkers}
               />
             )}
           </div>
@@ -1419,6 +3464,107 @@ export default function ThreeView() {
           box-shadow: inset 0 1px 1px rgba(255,255,255,0.06), 0 0 0 1px var(--border);
           outline: none;
         }
+        .slider-wrap { position: relative; display: inline-flex; align-items: center; }
+        .slider-tick {
+          position: absolute; top: -7px; width: 3px; height: 8px; padding: 0;
+          margin-left: -1.5px; border: none; border-radius: 1px; cursor: pointer;
+          opacity: 0.9;
+        }
+        .slider-tick:hover { transform: scaleY(1.4); opacity: 1; }
+        .slider-loop {
+          position: absolute; top: 50%; height: 12px; transform: translateY(-50%);
+          border-radius: 3px; pointer-events: none;
+          background: rgba(120,200,255,0.18); box-shadow: inset 0 0 0 1px rgba(120,200,255,0.55);
+        }
+        .transport-steps { gap: 4px; }
+        .metric-row {
+          display: grid; grid-template-columns: 1fr auto 44px; align-items: baseline; gap: 8px;
+          width: 100%; padding: 3px 6px; margin: 0 -6px; border: none; border-radius: 6px;
+          background: transparent; color: var(--muted); font-size: 12px; text-align: left; cursor: pointer;
+        }
+        .metric-row:hover { background: rgba(255,255,255,0.06); color: var(--text); }
+        .metric-value { color: var(--text); font-weight: 700; font-variant-numeric: tabular-nums; text-align: right; }
+        .metric-frame { text-align: right; }
+        .dashboard-backdrop {
+          position: fixed; inset: 0; z-index: 1000; background: rgba(0,0,0,0.7);
+          display: flex; align-items: center; justify-content: center;
+        }
+        .dashboard {
+          width: min(1100px, 94vw); max-height: 90vh; overflow-y: auto; padding: 16px 18px;
+          display: flex; flex-direction: column; gap: 12px;
+        }
+        .trend-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 12px; }
+        .trend-card {
+          display: flex; flex-direction: column; gap: 4px; padding: 10px 10px 8px; min-width: 0;
+          border: 1px solid var(--border); border-radius: 10px; background: rgba(12,14,18,0.6);
+        }
+        .roster-table { width: 100%; border-collapse: collapse; font-size: 12px; color: var(--muted); }
+        .roster-table th {
+          position: sticky; top: -16px; background: var(--bg-1); text-align: right; font-weight: 600;
+          padding: 6px 8px; border-bottom: 1px solid var(--border-strong); cursor: pointer; white-space: nowrap;
+        }
+        .roster-table th:first-child, .roster-table td:first-child { text-align: left; }
+        .roster-table td { padding: 4px 8px; border-bottom: 1px solid var(--border); white-space: nowrap; }
+        .roster-table tbody tr:hover { background: rgba(255,255,255,0.04); }
+        .roster-cell { text-align: right; color: var(--text); font-variant-numeric: tabular-nums; }
+        .roster-cell.outlier { color: #ff6b6b; background: rgba(255,107,107,0.1); }
+        .roster-pct { display: inline-block; min-width: 34px; margin-left: 6px; }
+        .roster-player {
+          border: none; background: transparent; padding: 0; color: var(--text); font: inherit; font-weight: 600; cursor: pointer;
+        }
+        .roster-player:hover { color: var(--accent); }
+        .report-dialog { width: min(760px, 94vw); }
+        .chat-log {
+          max-height: 42vh; overflow-y: auto; display: flex; flex-direction: column; gap: 8px;
+          font-size: 12px; line-height: 1.5; color: var(--text);
+        }
+        .chat-turn { padding: 6px 8px; border-radius: 8px; background: rgba(255,255,255,0.04); }
+        .chat-turn p, .chat-turn ul { margin: 0 0 6px; }
+        .chat-turn ul { padding-left: 16px; }
+        .chat-turn > :last-child { margin-bottom: 0; }
+        .chat-turn.user { align-self: flex-end; max-width: 85%; background: rgba(229,129,43,0.16); }
+        .chat-turn.error { color: #ff6b6b; }
+        .chat-link {
+          border: none; background: transparent; padding: 0; font: inherit; color: var(--accent);
+          cursor: pointer; text-decoration: underline dotted;
+        }
+        .chat-suggestion {
+          border: 1px solid var(--border); border-radius: 8px; background: transparent; color: var(--muted);
+          padding: 5px 8px; font: inherit; font-size: 11px; text-align: left; cursor: pointer;
+        }
+        .chat-suggestion:hover { color: var(--text); border-color: var(--border-strong); }
+        .chat-call { display: block; margin-top: 3px; font-size: 10px; word-break: break-all; }
+        .chat-input {
+          flex: 1; min-width: 0; padding: 6px 8px; border-radius: 8px; border: 1px solid var(--border);
+          background: rgba(12,14,18,0.6); color: var(--text); font: inherit; font-size: 12px;
+        }
+        .report-library { height: 90vh; }
+        .report-library a.btn { text-decoration: none; }
+        .report-library-body { flex: 1; min-height: 0; display: flex; gap: 12px; }
+        .report-list { width: 220px; flex-shrink: 0; overflow-y: auto; display: flex; flex-direction: column; gap: 4px; }
+        .report-item {
+          display: flex; flex-direction: column; align-items: flex-start; gap: 2px; padding: 8px 10px; text-align: left;
+          border: 1px solid var(--border); border-radius: 10px; background: rgba(12,14,18,0.6); color: var(--text); cursor: pointer;
+        }
+        .report-item:hover { border-color: var(--border-strong); }
+        .report-item.active { border-color: var(--accent); }
+        .report-item-title { font-size: 12px; font-weight: 600; }
+        .pdf-viewer {
+          flex: 1; min-width: 0; overflow: auto; display: flex; flex-direction: column; align-items: center; gap: 12px;
+          padding: 12px; border-radius: 10px; background: rgba(0,0,0,0.35);
+        }
+        .pdf-page { flex-shrink: 0; background: #fff; box-shadow: 0 4px 18px rgba(0,0,0,0.5); }
+        .report-text {
+          min-height: 320px; resize: vertical; padding: 10px 12px; border-radius: 10px;
+          border: 1px solid var(--border); background: rgba(12,14,18,0.6); color: var(--text);
+          font: 12px/1.55 ui-monospace, SFMono-Regular, Menlo, monospace;
+        }
+        .render-progress {
+          flex: 1; height: 6px; border-radius: 999px; overflow: hidden;
+          background: rgba(255,255,255,0.08); box-shadow: 0 0 0 1px var(--border);
+        }
+        .render-progress > div { height: 100%; background: linear-gradient(90deg, var(--accent), var(--accent-deep)); }
+        .transport-steps .btn.ghost { padding-left: 8px; padding-right: 8px; }
 
         .toggle { 
           display: flex; 
@@ -1449,6 +3595,21 @@ export default function ThreeView() {
           font-size:12px;
         }
 
+        .text-input {
+          background: rgba(14,18,23,0.85); color: var(--text);
+          border: 1px solid var(--border-strong); border-radius: 8px;
+          padding: 6px 8px; font-size: 12px; outline: none;
+        }
+        .text-input:focus { border-color: var(--accent); }
+
+        .viewport-tag {
+          position: absolute; pointer-events: none;
+          padding: 4px 10px; border-radius: 8px;
+          background: rgba(14,18,23,0.72); border: 1px solid var(--border-strong);
+          color: var(--muted); font-size: 12px;
+        }
+        .viewport-tag.dashed { border-style: dashed; }
+
         .panel-wrap {
           pointer-events: auto; border-radius: 14px;
           background: linear-gradient(180deg, rgba(20,22,26,0.75), rgba(15,17,21,0.65));
@@ -1478,72 +3639,38 @@ export default function ThreeView() {
         }
       `}</style>
 
-      {/* PDF Viewer Modal */}
-      {showPdfViewer && (
-        <div style={{
-          position: "fixed",
-          top: 0,
-          left: 0,
-          width: "100vw",
-          height: "100vh",
-          backgroundColor: "rgba(0, 0, 0, 0.95)",
-          zIndex: 1000,
-          display: "flex",
-          flexDirection: "column",
-          alignItems: "center",
-          justifyContent: "center",
-        }}>
-          <div style={{
-            width: "90%",
-            height: "90%",
-            display: "flex",
-            flexDirection: "column",
-            gap: "16px",
-          }}>
-            <div style={{
-              display: "flex",
-              justifyContent: "space-between",
-              alignItems: "center",
-            }}>
-              <h2 style={{
-                color: "var(--ink-0)",
-                fontSize: "24px",
-                fontWeight: 700,
-                margin: 0,
-              }}>
-                Player Report
-              </h2>
-              <button
-                onClick={() => setShowPdfViewer(false)}
-                style={{
-                  background: "linear-gradient(180deg, var(--accent) 0%, var(--accent-deep) 100%)",
-                  color: "#0b0e12",
-                  border: "none",
-                  borderRadius: "8px",
-                  padding: "8px 16px",
-                  fontSize: "14px",
-                  fontWeight: 600,
-                  cursor: "pointer",
-                  transition: "transform 0.12s ease",
-                }}
-                onMouseOver={(e) => e.currentTarget.style.transform = "translateY(-1px)"}
-                onMouseOut={(e) => e.currentTarget.style.transform = "translateY(0)"}
-              >
-                Close
-              </button>
-            </div>
-            <iframe
-              src={withBase("Pete_Alonso.pdf")}
-              style={{
-                width: "100%",
-                height: "100%",
-                border: "1px solid var(--glass-brd)",
-                borderRadius: "var(--radius-md)",
-              }}
-              title="Player Report PDF"
-            />
-          </div>
-        </div>
+      {showProgress && (
+        <ProgressDashboard
+          player={playerName}
+          sessions={progressSessions}
+          current={session}
+          onOpen={openProgressSession}
+          onClose={closeProgress}
+        />
+      )}
+
+      {showAIReport && reportInput && (
+        <AIReportPanel
+          input={reportInput}
+          logoUrl={withBase("Logo.png")}
+          charts={reportChartList}
+          previousSession={reportPrevious}
+          captureSnapshots={duration > 0 && detection?.events.length ? captureReportSnapshots : undefined}
+          onClose={closeAIReport}
+        />
+      )}
+
+      {showRoster && rosterPlayers && (
+        <RosterDashboard
+          players={rosterPlayers}
+          loadDefault={defaultSessionSource}
+          onOpen={openRosterSession}
+          onClose={closeRoster}
+        />
+      )}
+
+      {showReports && (
+        <ReportLibrary player={playerName} reports={libraryReports} current={session} onClose={closeReports} />
       )}
 
 
@@ -0,0 +1,98 @@
+// src/components/TrailControls.tsx
+import React from "react";
+import CustomSelect from "./CustomSelect";
+
+type TrailItem = { id: string; label: string; color: string };
+
+type Props = {
+  /** joints that can be traced (rig bones plus data-derived points) */
+  options: Array<{ value: string; label: string }>;
+  selected: TrailItem[];
+  onAdd: (id: string) => void;
+  onRemove: (id: string) => void;
+  /** seconds shown behind / ahead of the playhead */
+  before: number;
+  after: number;
+  onWindowChange: (before: number, after: number) => void;
+  style?: React.CSSProperties;
+};
+
+/** Floating panel for motion trails: which joints to trace and over what window. */
+export default function TrailControls({
+  options,
+  selected,
+  onAdd,
+  onRemove,
+  before,
+  after,
+  onWindowChange,
+  style,
+}: Props) {
+  const chosen = new Set(selected.map((s) => s.id));
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, width: 260, ...style }}
+    >
+      <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Trails</span>
+
+      <CustomSelect
+        value=""
+        onChange={(v) => v && onAdd(v)}
+        options={options.filter((o) => !chosen.has(o.value))}
+        placeholder={options.length ? "Add joint…" : "No skeleton loaded"}
+        disabled={!options.length}
+        searchable={true}
+      />
+
+      {selected.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 10px", fontSize: 12, color: "var(--muted)" }}>
+          {selected.map((s) => (
+            <span key={s.id} style={{ display: "inline-flex", alignItems: "center", gap: 5 }}>
+              <span style={{ width: 10, height: 10, borderRadius: 5, background: s.color }} />
+              {s.label}
+              <button
+                type="button"
+                onClick={() => onRemove(s.id)}
+                aria-label={`Remove ${s.label}`}
+                style={{ background: "none", border: "none", padding: 0, color: "#9aa3b2", font: "inherit", cursor: "pointer" }}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label" style={{ minWidth: 58 }}>Behind</span>
+        <input
+          className="slider"
+          type="range"
+          min={0}
+          max={2}
+          step={0.05}
+          value={before}
+          onChange={(e) => onWindowChange(parseFloat(e.target.value), after)}
+          style={{ width: 120 }}
+        />
+        <span className="small" style={{ minWidth: 40, textAlign: "right" }}>{before.toFixed(2)}s</span>
+      </div>
+      <div className="ctrl" style={{ justifyContent: "space-between" }}>
+        <span className="label" style={{ minWidth: 58 }}>Ahead</span>
+        <input
+          className="slider"
+          type="range"
+          min={0}
+          max={2}
+          step={0.05}
+          value={after}
+          onChange={(e) => onWindowChange(before, parseFloat(e.target.value))}
+          style={{ width: 120 }}
+        />
+        <span className="small" style={{ minWidth: 40, textAlign: "right" }}>{after.toFixed(2)}s</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+// src/components/VideoPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+
+type Props = {
+  src: string;
+  /** playhead (FBX seconds) */
+  time: number;
+  /** video time = FBX time + offset (s) */
+  offset: number;
+  playing: boolean;
+  speed: number;
+  /** one FBX frame (s), the offset nudge unit */
+  frame: number;
+  /** absent: offset is read-only */
+  onOffsetChange?: (offset: number) => void;
+  style?: React.CSSProperties;
+};
+
+/** Slowest rate browsers play natively; below it the video is stepped by seeking. */
+const MIN_NATIVE_RATE = 0.25;
+/** Drift (s) tolerated while playing before the video is re-seeked. */
+const MAX_DRIFT = 0.04;
+
+function Nudge({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button className="btn ghost" onClick={onClick} style={{ padding: "2px 6px", minWidth: 34 }}>
+      {label}
+    </button>
+  );
+}
+
+/**
+ * Session video (e.g. a high-speed side camera) slaved to the 3D playhead.
+ * Paused or scrubbing, the video seeks to each new time; playing at a normal
+ * speed it plays natively and is pulled back whenever it drifts.
+ */
+export default function VideoPanel({ src, time, offset, playing, speed, frame, onOffsetChange, style }: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const target = time + offset;
+  const native = playing && speed >= MIN_NATIVE_RATE;
+  const outOfRange = videoDuration > 0 && (target < 0 || target > videoDuration);
+
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v || !videoDuration) return;
+    const t = Math.min(videoDuration, Math.max(0, target));
+    const run = native && !outOfRange;
+    // while playing natively only correct drift (and jumps: loops, seeks)
+    if ((!run || Math.abs(v.currentTime - t) > MAX_DRIFT * Math.max(1, speed)) && v.currentTime !== t) {
+      v.currentTime = t;
+    }
+    if (run) {
+      v.playbackRate = speed;
+      // also restarts after the video ran off its end and the clip looped
+      if (v.paused) v.play().catch(() => undefined);
+    } else if (!v.paused) {
+      v.pause();
+    }
+  }, [target, native, outOfRange, speed, videoDuration]);
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{ padding: "10px 12px", display: "flex", flexDirection: "column", gap: 8, ...style }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <span style={{ color: "var(--text)", fontSize: 13, fontWeight: 700 }}>Video</span>
+        <span className="small">{outOfRange ? "No video at this time" : `${Math.max(0, target).toFixed(3)} s`}</span>
+      </div>
+      <video
+        ref={videoRef}
+        src={src}
+        muted
+        playsInline
+        preload="auto"
+        onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration || 0)}
+        style={{ width: "100%", display: "block", borderRadius: 8, background: "#000", opacity: outOfRange ? 0.35 : 1 }}
+      />
+      {onOffsetChange && (
+        <div className="ctrl" style={{ justifyContent: "space-between" }}>
+          <span className="label" style={{ minWidth: 44 }}>Offset</span>
+          <Nudge label="−10" onClick={() => onOffsetChange(offset - 10 * frame)} />
+          <Nudge label="−1" onClick={() => onOffsetChange(offset - frame)} />
+          <span className="small" style={{ minWidth: 56, textAlign: "center" }}>{(offset * 1000).toFixed(0)} ms</span>
+          <Nudge label="+1" onClick={() => onOffsetChange(offset + frame)} />
+          <Nudge label="+10" onClick={() => onOffsetChange(offset + 10 * frame)} />
+        </div>
+      )}
+    </div>
+  );
+}
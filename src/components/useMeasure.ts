@@ -0,0 +1,16 @@
+// src/components/useMeasure.ts
+import { useEffect, useRef, useState } from "react";
+
+/** Track an element's bounding box (re-measured on resize). */
+export function useMeasure<T extends HTMLElement>() {
+  const ref = useRef<T | null>(null);
+  const [rect, setRect] = useState<DOMRect | null>(null);
+  useEffect(() => {
+    if (!ref.current) return;
+    const ro = new ResizeObserver(() => setRect(ref.current!.getBoundingClientRect()));
+    ro.observe(ref.current);
+    setRect(ref.current.getBoundingClientRect());
+    return () => ro.disconnect();
+  }, []);
+  return { ref, rect };
+}
@@ -0,0 +1,118 @@
+// src/utils/ai.ts
+
+/**
+ * Language model access behind one small interface, so features that write
+ * text (reports, chat) don't care which vendor answers — or whether any does:
+ * the offline provider answers deterministically without a network call.
+ * API keys come from the Vite env (`VITE_OPENAI_API_KEY`, `VITE_GEMINI_API_KEY`);
+ * the SDKs are loaded on first use.
+ */
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type CompletionOptions = {
+  signal?: AbortSignal;
+  /** 0 = as repeatable as the model allows */
+  temperature?: number;
+};
+
+export type ProviderId = "openai" | "gemini" | "offline";
+
+export type LLMProvider = {
+  id: ProviderId;
+  label: string;
+  /** The model's reply to the conversation so far. */
+  complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+};
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash";
+
+function abortError(): Error {
+  return new DOMException("Aborted", "AbortError");
+}
+
+export function openAIProvider(apiKey: string, model = DEFAULT_OPENAI_MODEL): LLMProvider {
+  return {
+    id: "openai",
+    label: `OpenAI (${model})`,
+    complete: async (messages, { signal, temperature = 0.3 } = {}) => {
+      const { default: OpenAI } = await import("openai");
+      // keys are the user's own, entered into their own build
+      const client = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+      const res = await client.chat.completions.create({ model, messages, temperature }, { signal });
+      const text = res.choices[0]?.message?.content;
+      if (!text) throw new Error("The model returned an empty answer");
+      return text;
+    },
+  };
+}
+
+export function geminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): LLMProvider {
+  return {
+    id: "gemini",
+    label: `Gemini (${model})`,
+    complete: async (messages, { signal, temperature = 0.3 } = {}) => {
+      const { GoogleGenerativeAI } = await import("@google/generative-ai");
+      const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+      const client = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model,
+        ...(system ? { systemInstruction: system } : {}),
+        generationConfig: { temperature },
+      });
+      const res = await client.generateContent(
+        {
+          contents: messages
+            .filter((m) => m.role !== "system")
+            .map((m) => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: m.content }] })),
+        },
+        { signal }
+      );
+      const text = res.response.text();
+      if (!text) throw new Error("The model returned an empty answer");
+      return text;
+    },
+  };
+}
+
+/** Offline reply: the last user message, verbatim. */
+function echoLastUser(messages: ChatMessage[]): string {
+  return [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+/**
+ * No model at all: `reply` answers from the messages alone (by default it
+ * echoes the last user message, i.e. exactly what a model would have been
+ * given). Same input, same output — for working offline and for tests.
+ */
+export function offlineProvider(reply: (messages: ChatMessage[]) => string = echoLastUser): LLMProvider {
+  return {
+    id: "offline",
+    label: "Offline (no model)",
+    complete: async (messages, { signal } = {}) => {
+      if (signal?.aborted) throw abortError();
+      return reply(messages);
+    },
+  };
+}
+
+/**
+ * Providers this build can use: those with a key configured, then the
+ * offline one (`offline`, e.g. with a feature's own reply). `VITE_AI_PROVIDER`
+ * picks which comes first.
+ */
+export function availableProviders(offline: LLMProvider = offlineProvider()): LLMProvider[] {
+  const env = import.meta.env;
+  const out: LLMProvider[] = [];
+  if (env.VITE_OPENAI_API_KEY) out.push(openAIProvider(env.VITE_OPENAI_API_KEY, env.VITE_OPENAI_MODEL || undefined));
+  if (env.VITE_GEMINI_API_KEY) out.push(geminiProvider(env.VITE_GEMINI_API_KEY, env.VITE_GEMINI_MODEL || undefined));
+  out.push(offline);
+  const preferred = out.findIndex((p) => p.id === env.VITE_AI_PROVIDER);
+  if (preferred > 0) out.unshift(...out.splice(preferred, 1));
+  return out;
+}
+
+/** `AbortError`s from either SDK or our own, so callers can tell cancel from failure. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && (err.name === "AbortError" || err.name === "APIUserAbortError");
+}
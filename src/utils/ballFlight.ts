@@ -0,0 +1,208 @@
+// src/utils/ballFlight.ts
+import type { Row, RowsBySheet } from "./excel";
+import { findSheet, findTriplet, sheetStart } from "./channels";
+import { classifyMovement } from "./events";
+
+/** One tracked ball position (data coordinates, metres, z up). */
+export type BallSample = {
+  /** Excel seconds on the joint sheet's clock, relative to its first sample */
+  t: number;
+  p: [number, number, number];
+  /** smoothed velocity (m/s) */
+  v: [number, number, number];
+};
+
+export type BallLaunch = {
+  /** "Release" for pitchers, "Exit" for hitters */
+  kind: "release" | "exit";
+  /** index into `samples` */
+  index: number;
+  t: number;
+  /** m/s */
+  speed: number;
+  /** degrees above horizontal */
+  launchAngle: number;
+  velocity: [number, number, number];
+};
+
+export type BallFlight = {
+  samples: BallSample[];
+  launch: BallLaunch | null;
+  /**
+   * How the ball sheet's clock was matched to the joint sheet: "shared" when
+   * the track starts in the hand, "launch" when it only covers the flight and
+   * was re-based (its launch is then placed on `strikeTime`).
+   */
+  clock: "shared" | "launch";
+};
+
+const MPS_TO_MPH = 2.236936;
+
+export function toMph(mps: number): number {
+  return mps * MPS_TO_MPH;
+}
+
+/** Half-width of the regression window used for velocity (samples). */
+const VEL_HALF = 4;
+/** A track whose first point is further than this from both wrists didn't start in the hand. */
+const IN_HAND_DIST = 0.35;
+/** Samples further than this from the median of their neighbours are tracker glitches (m). */
+const SPIKE_DIST = 0.05;
+/** Faster than any thrown or batted ball; launch metrics above it are reported as unavailable (m/s). */
+const MAX_BALL_SPEED = 60;
+
+function ballRows(sets: RowsBySheet): Row[] | null {
+  const sheet = findSheet(sets, /ball.*(position|velocity)/i, /ball/i);
+  return sheet ? sets[sheet] : null;
+}
+
+/**
+ * Ball centre per row. Some exports split the track over a second column set
+ * (`… (2)`) when the tracker loses and re-acquires the ball; those fill the gaps.
+ */
+function ballPositions(rows: Row[], t0: number): Array<{ t: number; p: [number, number, number] }> {
+  const primary = findTriplet(rows, "/Object/Ball/Center");
+  const secondary = findTriplet(rows, "/Object/Ball/Center", " (2)");
+  const out: Array<{ t: number; p: [number, number, number] }> = [];
+  for (const r of rows) {
+    for (const keys of [primary, secondary]) {
+      if (!keys) continue;
+      const p = keys.map((k) => r[k]) as [number, number, number];
+      if (p.every(Number.isFinite)) {
+        out.push({ t: r.t - t0, p });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Least-squares slope of position vs time over samples [i0, i1]. */
+function slope(pts: Array<{ t: number; p: [number, number, number] }>, i0: number, i1: number): [number, number, number] {
+  const lo = Math.max(0, i0);
+  const hi = Math.min(pts.length - 1, i1);
+  const n = hi - lo + 1;
+  if (n < 2) return [0, 0, 0];
+  let mt = 0;
+  const mp = [0, 0, 0];
+  for (let i = lo; i <= hi; i++) {
+    mt += pts[i].t / n;
+    for (let k = 0; k < 3; k++) mp[k] += pts[i].p[k] / n;
+  }
+  let den = 0;
+  const num = [0, 0, 0];
+  for (let i = lo; i <= hi; i++) {
+    const dt = pts[i].t - mt;
+    den += dt * dt;
+    for (let k = 0; k < 3; k++) num[k] += dt * (pts[i].p[k] - mp[k]);
+  }
+  return den > 0 ? [num[0] / den, num[1] / den, num[2] / den] : [0, 0, 0];
+}
+
+const norm = (v: number[]) => Math.hypot(v[0], v[1], v[2]);
+
+function medianOf(vs: number[]): number {
+  const a = [...vs].sort((x, y) => x - y);
+  const m = a.length >> 1;
+  return a.length % 2 ? a[m] : (a[m - 1] + a[m]) / 2;
+}
+
+/**
+ * Drop samples that jump away from their neighbours. On a straight or gently
+ * curving path the per-axis median of the surrounding samples sits on the
+ * point itself at any speed, so a fixed distance threshold works.
+ */
+function despike(pts: Array<{ t: number; p: [number, number, number] }>) {
+  const W = 3;
+  return pts.filter((s, i) => {
+    const win = pts.slice(Math.max(0, i - W), Math.min(pts.length, i + W + 1));
+    if (win.length < 5) return true;
+    const m = [0, 1, 2].map((k) => medianOf(win.map((w) => w.p[k])));
+    return Math.hypot(s.p[0] - m[0], s.p[1] - m[1], s.p[2] - m[2]) <= SPIKE_DIST;
+  });
+}
+
+/**
+ * Launch = the sample where the ball's velocity changes most between the
+ * windows just before and just after it (leaving the hand, or meeting the bat).
+ * When no change stands out against the flight speed the track started after
+ * launch, so the first sample is used.
+ */
+function findLaunch(pts: Array<{ t: number; p: [number, number, number] }>): number {
+  let best = 0;
+  let bestJump = 0;
+  for (let i = VEL_HALF; i < pts.length - 2; i++) {
+    const before = slope(pts, i - VEL_HALF, i);
+    const after = slope(pts, i, i + VEL_HALF);
+    const jump = norm([after[0] - before[0], after[1] - before[1], after[2] - before[2]]);
+    if (jump > bestJump) {
+      bestJump = jump;
+      best = i;
+    }
+  }
+  const flight = norm(slope(pts, best, best + 2 * VEL_HALF));
+  return bestJump > 0.5 * flight ? best : 0;
+}
+
+/** Distance from the first ball sample to the nearest wrist at the same time. */
+function distanceToHand(sets: RowsBySheet, first: { t: number; p: [number, number, number] }): number {
+  const sheet = findSheet(sets, /joint.*position/i);
+  if (!sheet) return Infinity;
+  const rows = sets[sheet];
+  const t0 = sheetStart(rows);
+  const row = rows.find((r) => r.t - t0 >= first.t) ?? rows[rows.length - 1];
+  let best = Infinity;
+  for (const side of ["Left", "Right"]) {
+    const keys = findTriplet(rows, `/Joint/Wrist/${side}`);
+    if (!keys) continue;
+    const w = keys.map((k) => row[k]);
+    const d = Math.hypot(w[0] - first.p[0], w[1] - first.p[1], w[2] - first.p[2]);
+    if (Number.isFinite(d)) best = Math.min(best, d);
+  }
+  return best;
+}
+
+/**
+ * Ball track and launch metrics from the "Ball Positions + Velocity" sheet.
+ *
+ * Velocity is re-derived from positions by a short least-squares fit — the
+ * sheet's own velocity columns are too noisy to read speed from directly.
+ * `strikeTime` (the detected contact/release, Excel seconds) places tracks
+ * that only cover the flight onto the joint sheet's clock.
+ */
+export function analyzeBallFlight(sets: RowsBySheet, strikeTime: number | null): BallFlight | null {
+  const rows = ballRows(sets);
+  if (!rows) return null;
+  // the export's Time column is shared across sheets: keep the joint sheet's zero
+  const joint = findSheet(sets, /joint.*position/i);
+  const pts = despike(ballPositions(rows, sheetStart(joint ? sets[joint] : rows)));
+  if (pts.length < 2 * VEL_HALF + 2) return null;
+
+  const launchIdx = findLaunch(pts);
+  const inHand = distanceToHand(sets, pts[0]) <= IN_HAND_DIST;
+  const shift = !inHand && strikeTime != null ? strikeTime - pts[launchIdx].t : 0;
+
+  const samples: BallSample[] = pts.map((s, i) => ({
+    t: s.t + shift,
+    p: s.p,
+    // never smooth across the launch: the velocity jumps there
+    v: i < launchIdx
+      ? slope(pts, Math.max(0, i - VEL_HALF), Math.min(launchIdx, i + VEL_HALF))
+      : slope(pts, Math.max(launchIdx, i - VEL_HALF), i + VEL_HALF),
+  }));
+
+  let launch: BallLaunch | null = null;
+  const v = slope(pts, launchIdx, launchIdx + 2 * VEL_HALF);
+  if ((launchIdx > 0 || !inHand) && norm(v) <= MAX_BALL_SPEED) {
+    launch = {
+      kind: classifyMovement(sets) === "hitter" ? "exit" : "release",
+      index: launchIdx,
+      t: samples[launchIdx].t,
+      speed: norm(v),
+      launchAngle: (Math.atan2(v[2], Math.hypot(v[0], v[1])) * 180) / Math.PI,
+      velocity: v,
+    };
+  }
+
+  return { samples, launch, clock: shift ? "launch" : "shared" };
+}
@@ -0,0 +1,116 @@
+// src/utils/channels.ts
+import type { Row, RowsBySheet } from "./excel";
+
+/** A sampled signal pulled out of a sheet (times re-based on `t0`, by default the sheet's first sample). */
+export type Signal = {
+  t: number[];
+  v: number[];
+  /** channel key(s) the signal was built from */
+  source: string[];
+};
+
+/** Find a sheet by name pattern (first match wins). */
+export function findSheet(sets: RowsBySheet, ...patterns: RegExp[]): string | null {
+  const names = Object.keys(sets);
+  for (const re of patterns) {
+    const hit = names.find((n) => re.test(n));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+/** Find a channel key present in the rows by pattern (first pattern that matches wins). */
+export function findChannel(rows: Row[], ...patterns: RegExp[]): string | null {
+  if (!rows.length) return null;
+  const keys = Object.keys(rows[0]).concat(Object.keys(rows[rows.length - 1]));
+  for (const re of patterns) {
+    const hit = keys.find((k) => k !== "t" && re.test(k));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+function firstT(rows: Row[]): number | undefined {
+  for (const r of rows) if (Number.isFinite(r.t)) return r.t;
+  return undefined;
+}
+
+/** Start time of a sheet (first finite `t`). */
+export function sheetStart(rows: Row[]): number {
+  return firstT(rows) ?? 0;
+}
+
+/**
+ * Zero of the capture clock. The export's Time column is shared across
+ * sheets, so every sheet is read against the joint sheet's first sample (the
+ * clock events use), not its own: a sheet that starts later keeps its offset.
+ */
+export function captureStart(sets: RowsBySheet): number {
+  const joint = findSheet(sets, /joint.*position/i);
+  const jointStart = joint ? firstT(sets[joint]) : undefined;
+  if (jointStart !== undefined) return jointStart;
+  const starts = Object.values(sets).map(firstT).filter((t) => t !== undefined);
+  return starts.length ? Math.min(...starts) : 0;
+}
+
+/** Extract a single channel as a signal. Rows missing the value are skipped. */
+export function channelSignal(rows: Row[], key: string, t0 = sheetStart(rows)): Signal {
+  const t: number[] = [];
+  const v: number[] = [];
+  for (const r of rows) {
+    const x = r[key];
+    if (!Number.isFinite(x) || !Number.isFinite(r.t)) continue;
+    t.push(r.t - t0);
+    v.push(x);
+  }
+  return { t, v, source: [key] };
+}
+
+/** Euclidean magnitude of 2–3 component channels, e.g. an x/y/z velocity triplet. */
+export function magnitudeSignal(rows: Row[], keys: string[], t0 = sheetStart(rows)): Signal {
+  const t: number[] = [];
+  const v: number[] = [];
+  for (const r of rows) {
+    if (!Number.isFinite(r.t)) continue;
+    let sum = 0;
+    let ok = true;
+    for (const k of keys) {
+      const x = r[k];
+      if (!Number.isFinite(x)) { ok = false; break; }
+      sum += x * x;
+    }
+    if (!ok) continue;
+    t.push(r.t - t0);
+    v.push(Math.sqrt(sum));
+  }
+  return { t, v, source: keys };
+}
+
+/**
+ * Resolve an x/y/z triplet from a base path, e.g. `/Joint/Wrist/Right` + `_velocity`
+ * → [`/Joint/Wrist/Right_x_velocity`, `…_y_velocity`, `…_z_velocity`].
+ * Handles both `_x` and `_X` spellings. Returns null if any axis is missing.
+ */
+export function findTriplet(rows: Row[], base: string, suffix = ""): string[] | null {
+  if (!rows.length) return null;
+  const row = rows[0];
+  for (const axes of [["x", "y", "z"], ["X", "Y", "Z"]]) {
+    const keys = axes.map((a) => `${base}_${a}${suffix}`);
+    if (keys.every((k) => k in row)) return keys;
+  }
+  return null;
+}
+
+/** Index of the sample with the largest |value| (NaN-safe). */
+export function argMaxAbs(v: number[]): number {
+  let best = -1;
+  let bestAbs = -Infinity;
+  for (let i = 0; i < v.length; i++) {
+    const a = Math.abs(v[i]);
+    if (Number.isFinite(a) && a > bestAbs) {
+      bestAbs = a;
+      best = i;
+    }
+  }
+  return best;
+}
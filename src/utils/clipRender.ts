@@ -0,0 +1,306 @@
+// src/utils/clipRender.ts
+import { createWebMMuxer } from "./webm";
+import type { WebMCodec } from "./webm";
+
+/**
+ * Offline rendering of a playback clip to WebM. The caller supplies each
+ * frame (the 3D view posed at an exact clip time plus the graph SVGs); this
+ * module composites them onto a canvas and encodes. Clip time advances by
+ * exactly one capture frame per video frame however long a frame takes to
+ * draw, so the result doesn't depend on the machine.
+ */
+
+export type ClipFrame = {
+  /**
+   * Render the 3D view and return its canvas. Called right before it's
+   * copied: a WebGL canvas is only readable until the browser presents it.
+   */
+  scene: () => CanvasImageSource & { width: number; height: number };
+  /** graph panels to stack under the view */
+  graphs: SVGSVGElement[];
+};
+
+export type TitleCard = {
+  title: string;
+  subtitle?: string;
+  /** small print, one line each */
+  details?: string[];
+};
+
+export type ClipRenderOptions = {
+  /** clip range (FBX seconds) */
+  from: number;
+  to: number;
+  /** capture frame rate: one video frame per capture frame */
+  fps: number;
+  /** playback speed of the video relative to real time (0.25 → 4× slower) */
+  speed: number;
+  width: number;
+  height: number;
+  title: TitleCard | null;
+  /** how long the title card holds (s) */
+  titleSeconds?: number;
+  onProgress?: (share: number) => void;
+  signal?: AbortSignal;
+};
+
+/** Share of the frame given to the graph strip when there are graphs. */
+const GRAPH_SHARE = 0.36;
+const BACKGROUND = "#0b0e12";
+const FONT = "system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+
+/* ------------------------------------------------------------------ */
+/* Compositing                                                         */
+/* ------------------------------------------------------------------ */
+
+/** Rasterise a live SVG (e.g. a SimpleGraph) at its on-screen size. */
+async function svgImage(svg: SVGSVGElement): Promise<HTMLImageElement> {
+  const w = svg.width.baseVal.value || svg.clientWidth;
+  const h = svg.height.baseVal.value || svg.clientHeight;
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  copy.setAttribute("viewBox", `0 0 ${w} ${h}`);
+  copy.setAttribute("font-family", FONT);
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(copy)], { type: "image/svg+xml" })
+  );
+  try {
+    const img = new Image(w, h);
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Draw `src` scaled to cover (crop) or fit inside (letterbox) the box. */
+function drawScaled(
+  ctx: CanvasRenderingContext2D,
+  src: CanvasImageSource,
+  sw: number,
+  sh: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  mode: "cover" | "contain"
+) {
+  if (sw <= 0 || sh <= 0) return;
+  const k = mode === "cover" ? Math.max(w / sw, h / sh) : Math.min(w / sw, h / sh);
+  const dw = sw * k;
+  const dh = sh * k;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+  ctx.drawImage(src, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+  ctx.restore();
+}
+
+async function drawFrame(ctx: CanvasRenderingContext2D, frame: ClipFrame, t: number) {
+  const { width: W, height: H } = ctx.canvas;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, W, H);
+
+  // rasterise the graphs first so nothing is awaited between rendering the scene and copying it
+  const graphs = await Promise.all(frame.graphs.map(svgImage));
+  const stripH = graphs.length ? Math.round(H * GRAPH_SHARE) : 0;
+  const sceneH = H - stripH;
+  const scene = frame.scene();
+  drawScaled(ctx, scene, scene.width, scene.height, 0, 0, W, sceneH, "cover");
+
+  const rowH = graphs.length ? stripH / graphs.length : 0;
+  graphs.forEach((img, i) => drawScaled(ctx, img, img.width, img.height, 0, sceneH + i * rowH, W, rowH, "contain"));
+
+  // clip time, bottom-left of the 3D view
+  const size = Math.round(H / 40);
+  ctx.font = `600 ${size}px ${FONT}`;
+  ctx.textBaseline = "bottom";
+  ctx.fillStyle = "rgba(233,238,247,0.85)";
+  ctx.fillText(`${t.toFixed(3)} s`, size, sceneH - size * 0.6);
+}
+
+function drawTitleCard(ctx: CanvasRenderingContext2D, card: TitleCard) {
+  const { width: W, height: H } = ctx.canvas;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, W, H);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  const big = Math.round(H / 12);
+  ctx.fillStyle = "#e5812b";
+  ctx.font = `700 ${big}px ${FONT}`;
+  ctx.fillText(card.title, W / 2, H * 0.42);
+
+  if (card.subtitle) {
+    ctx.fillStyle = "#e9eef7";
+    ctx.font = `500 ${Math.round(big * 0.45)}px ${FONT}`;
+    ctx.fillText(card.subtitle, W / 2, H * 0.42 + big);
+  }
+
+  const small = Math.round(big * 0.3);
+  ctx.fillStyle = "rgba(233,238,247,0.6)";
+  ctx.font = `400 ${small}px ${FONT}`;
+  (card.details ?? []).forEach((line, i) => ctx.fillText(line, W / 2, H * 0.42 + big * 1.8 + i * small * 1.6));
+  ctx.textAlign = "start";
+}
+
+/* ------------------------------------------------------------------ */
+/* Encoding                                                            */
+/* ------------------------------------------------------------------ */
+
+/** Where composited frames go; times in milliseconds of video. */
+type FrameSink = {
+  push: (canvas: HTMLCanvasElement, timestamp: number, duration: number) => Promise<void>;
+  finish: (duration: number) => Promise<Blob>;
+  /** release the encoder after a failure or abort */
+  cancel: () => void;
+};
+
+const ENCODER_CONFIGS: Array<{ codec: string; webm: WebMCodec }> = [
+  { codec: "vp09.00.10.08", webm: "V_VP9" },
+  { codec: "vp8", webm: "V_VP8" },
+];
+
+/** Keyframe at least this often (ms of video), so the file seeks well. */
+const KEYFRAME_INTERVAL = 1000;
+
+/** WebCodecs + our muxer: exact timestamps, as fast as the encoder goes. */
+async function webCodecsSink(width: number, height: number, framerate: number): Promise<FrameSink | null> {
+  if (typeof VideoEncoder === "undefined") return null;
+  const bitrate = Math.round(width * height * 4);
+  let chosen: (typeof ENCODER_CONFIGS)[number] | null = null;
+  for (const c of ENCODER_CONFIGS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: c.codec, width, height, bitrate, framerate });
+    if (supported) {
+      chosen = c;
+      break;
+    }
+  }
+  if (!chosen) return null;
+
+  const muxer = createWebMMuxer({ codec: chosen.webm, width, height });
+  let failure: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp / 1000, chunk.type === "key");
+    },
+    error: (e) => (failure = e),
+  });
+  encoder.configure({ codec: chosen.codec, width, height, bitrate, framerate });
+
+  let lastKey = -Infinity;
+  return {
+    push: async (canvas, timestamp, duration) => {
+      if (failure) throw failure;
+      // don't let frames pile up in the encoder
+      while (encoder.encodeQueueSize > 4) await new Promise((r) => setTimeout(r, 5));
+      const keyFrame = timestamp - lastKey >= KEYFRAME_INTERVAL;
+      if (keyFrame) lastKey = timestamp;
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(timestamp * 1000),
+        duration: Math.round(duration * 1000),
+      });
+      encoder.encode(frame, { keyFrame });
+      frame.close();
+    },
+    finish: async (duration) => {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      return muxer.finish(duration);
+    },
+    cancel: () => {
+      if (encoder.state !== "closed") encoder.close();
+    },
+  };
+}
+
+/**
+ * MediaRecorder fallback for browsers without WebCodecs. The recorder
+ * timestamps frames itself, so it's paused while a frame is drawn and each
+ * frame is held on screen for its duration: output timing is only as exact
+ * as the browser's timers.
+ */
+function mediaRecorderSink(canvas: HTMLCanvasElement): FrameSink | null {
+  if (typeof MediaRecorder === "undefined" || !canvas.captureStream) return null;
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((m) =>
+    MediaRecorder.isTypeSupported(m)
+  );
+  if (!mimeType) return null;
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: canvas.width * canvas.height * 4 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size && chunks.push(e.data);
+  recorder.start();
+  recorder.pause();
+
+  return {
+    push: async (_canvas, _timestamp, duration) => {
+      recorder.resume();
+      track.requestFrame();
+      await new Promise((r) => setTimeout(r, duration));
+      recorder.pause();
+    },
+    finish: async () => {
+      const stopped = new Promise((r) => (recorder.onstop = r));
+      recorder.stop();
+      await stopped;
+      track.stop();
+      return new Blob(chunks, { type: "video/webm" });
+    },
+    cancel: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      track.stop();
+    },
+  };
+}
+
+/**
+ * Render the clip from `opts.from` to `opts.to`, asking `frameAt` for the
+ * view at each capture frame, and encode it to WebM. Rejects with an
+ * AbortError when `opts.signal` fires.
+ */
+export async function renderClip(frameAt: (t: number) => Promise<ClipFrame>, opts: ClipRenderOptions): Promise<Blob> {
+  const { from, to, fps, speed, width, height, title, signal, onProgress } = opts;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is unavailable");
+
+  const outFps = fps * speed;
+  const sink = (await webCodecsSink(width, height, outFps)) ?? mediaRecorderSink(canvas);
+  if (!sink) throw new Error("This browser can't encode WebM video");
+
+  const frameMs = 1000 / outFps;
+  const count = Math.max(1, Math.floor((to - from) * fps + 1e-6) + 1);
+  let clock = 0;
+
+  try {
+    if (title) {
+      const hold = (opts.titleSeconds ?? 2) * 1000;
+      drawTitleCard(ctx, title);
+      await sink.push(canvas, clock, hold);
+      clock += hold;
+    }
+
+    for (let i = 0; i < count; i++) {
+      signal?.throwIfAborted();
+      const t = Math.min(to, from + i / fps);
+      await drawFrame(ctx, await frameAt(t), t);
+      await sink.push(canvas, clock, frameMs);
+      clock += frameMs;
+      onProgress?.((i + 1) / count);
+    }
+    return await sink.finish(clock);
+  } catch (e) {
+    sink.cancel();
+    throw e;
+  }
+}
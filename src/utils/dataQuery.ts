@@ -0,0 +1,372 @@
+// src/utils/dataQuery.ts
+import type { Row, RowsBySheet } from "./excel";
+import { captureStart, channelSignal, magnitudeSignal } from "./channels";
+import type { Signal } from "./channels";
+import { eventStyle } from "./events";
+import type { EventDetection, EventId } from "./events";
+import type { SessionMetric } from "./metrics";
+
+/**
+ * A small query API over the loaded workbook for answering questions about
+ * a session: find channels, read peaks and values at events, compare
+ * channels, or one channel against the session loaded for comparison.
+ * Language models reach it through `runTool`; every result is
+ * plain JSON, with times in Excel seconds from the start of the capture
+ * (the clock the events use) so answers can link back to the playhead.
+ */
+
+export type QueryContext = {
+  sets: RowsBySheet;
+  detection: EventDetection | null;
+  metrics: SessionMetric[];
+  /** the session loaded alongside in Compare mode, for compare_sessions; on its own clock */
+  other?: (QueryContext & { label: string }) | null;
+};
+
+/** A channel as the query API sees it: one column, or the magnitude of an x/y/z triplet. */
+export type QueryChannel = {
+  /** `sheet::key`; magnitudes use the triplet's base with a `|magnitude` suffix */
+  id: string;
+  sheet: string;
+  label: string;
+  unit: string;
+  /** columns it's read from (three for a magnitude) */
+  keys: string[];
+};
+
+export type ToolCall = { tool: string; args?: Record<string, unknown> };
+
+/** Tools for the model's system prompt: name, what it does, its arguments. */
+export const QUERY_TOOLS: Array<{ name: string; description: string; args: string }> = [
+  {
+    name: "find_channels",
+    description: "Search the session's channels by words (joint, side, quantity). Returns channel ids to use with the other tools.",
+    args: '{ "query": string, "limit"?: number }',
+  },
+  { name: "events", description: "Detected movement events (foot lift, foot plant, release/contact…) and their times.", args: "{}" },
+  { name: "metrics", description: "The session's computed summary metrics (peak velocities, timings, stride, posture).", args: "{}" },
+  {
+    name: "peak",
+    description:
+      "Peak of a channel and when it happened (the argmax), optionally between two events or times. Magnitude channels give a joint's speed.",
+    args: '{ "channel": string, "kind"?: "abs" | "max" | "min", "from"?: event id | seconds, "to"?: event id | seconds }',
+  },
+  {
+    name: "value_at",
+    description: "A channel's value at an event or a time.",
+    args: '{ "channel": string, "at": event id | seconds }',
+  },
+  {
+    name: "compare",
+    description: "Peaks of several channels side by side, in the order they happen, with the gaps between them; optionally their values at an event.",
+    args: '{ "channels": string[], "at"?: event id | seconds }',
+  },
+  {
+    name: "compare_sessions",
+    description:
+      "One channel in this session and in the session loaded for comparison: peaks, optionally values at an event, and the change. Each session's times are on its own clock.",
+    args: '{ "channel": string, "kind"?: "abs" | "max" | "min", "at"?: event id }',
+  },
+];
+
+const EVENT_IDS: EventId[] = ["footLift", "footPlant", "maxSeparation", "contact", "release", "followThrough"];
+const MAGNITUDE = "|magnitude";
+
+/* ------------------------------------------------------------------ */
+/* Channel catalogue                                                   */
+/* ------------------------------------------------------------------ */
+
+function sheetKeys(rows: Row[]): string[] {
+  if (!rows.length) return [];
+  const keys = new Set([...Object.keys(rows[0]), ...Object.keys(rows[rows.length - 1])]);
+  return [...keys].filter((k) => k !== "t" && k !== "time" && k !== "frame");
+}
+
+/** Best guess from the vendor's naming; empty when there's no telling. */
+function unitOf(key: string): string {
+  if (/^\/Calc\//.test(key)) {
+    if (/\/Velocity[XYZ]_x$/.test(key)) return "m/s";
+    if (/CenterOfGravity/.test(key)) return /velocity/i.test(key) ? "m/s" : /acceleration/i.test(key) ? "m/s²" : "m";
+    return /\/Velocity_x$/.test(key) ? "°/s" : "°";
+  }
+  if (/^\/Derived\//.test(key)) return "°";
+  if (/^\/(Joint|Feature|Object)\//.test(key)) {
+    if (/_acceleration\b/.test(key)) return "m/s²";
+    if (/_velocity\b/.test(key)) return "m/s";
+    return "m";
+  }
+  return "";
+}
+
+function labelOf(key: string): string {
+  const parts = key.split("/").filter(Boolean);
+  return parts
+    .slice(parts.length > 1 && /^(Joint|Calc|Derived|Feature|Object)$/.test(parts[0]) ? 1 : 0)
+    .join(" ")
+    .replace(/_x$/, "")
+    .replace(/_/g, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2");
+}
+
+/** Triplets whose magnitude means something: velocities and accelerations. */
+function tripletOf(key: string): { base: string; keys: string[]; label: string } | null {
+  let m = /^(.*)_x_(velocity|acceleration)$/.exec(key);
+  if (m) {
+    const keys = ["x", "y", "z"].map((a) => `${m![1]}_${a}_${m![2]}`);
+    return { base: `${m[1]}_${m[2]}`, keys, label: `${labelOf(m[1])} ${m[2] === "velocity" ? "speed" : "acceleration"}` };
+  }
+  m = /^(.*)\/VelocityX_x$/.exec(key);
+  if (m) {
+    const keys = ["X", "Y", "Z"].map((a) => `${m![1]}/Velocity${a}_x`);
+    return { base: `${m[1]}/Velocity`, keys, label: `${labelOf(m[1])} speed` };
+  }
+  return null;
+}
+
+const catalogues = new WeakMap<RowsBySheet, QueryChannel[]>();
+
+/** Every channel of the workbook, triplet magnitudes included (cached per workbook). */
+export function queryChannels(sets: RowsBySheet): QueryChannel[] {
+  const cached = catalogues.get(sets);
+  if (cached) return cached;
+  const out: QueryChannel[] = [];
+  for (const [sheet, rows] of Object.entries(sets)) {
+    const keys = sheetKeys(rows);
+    const present = new Set(keys);
+    for (const key of keys) {
+      out.push({ id: `${sheet}::${key}`, sheet, label: labelOf(key), unit: unitOf(key), keys: [key] });
+      const trip = tripletOf(key);
+      if (trip && trip.keys.every((k) => present.has(k))) {
+        out.push({ id: `${sheet}::${trip.base}${MAGNITUDE}`, sheet, label: trip.label, unit: unitOf(key), keys: trip.keys });
+      }
+    }
+  }
+  catalogues.set(sets, out);
+  return out;
+}
+
+/** Extra words a channel answers to (coaches say "hips", the export says "Pelvis"). */
+const ALIASES: Record<string, string[]> = {
+  pelvis: ["hip", "hips"],
+  twist: ["rotation", "rotational", "rotate", "turn"],
+  trunk: ["torso"],
+  torso: ["trunk"],
+  centerofgravity: ["cog", "center", "gravity"],
+  flexionextension: ["flexion", "extension", "bend"],
+  velocity: ["speed", "vel"],
+  speed: ["velocity", "vel"],
+  knee: ["knees"],
+  shoulder: ["shoulders"],
+};
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function channelWords(ch: QueryChannel): Set<string> {
+  const out = new Set<string>();
+  const raw = [...words(ch.label), ...words(ch.keys[0]), ch.keys[0].toLowerCase().replace(/[^a-z]/g, "")];
+  for (const w of raw) {
+    out.add(w);
+    for (const alias of ALIASES[w] ?? []) out.add(alias);
+  }
+  for (const part of ch.keys[0].split("/")) {
+    const joined = part.toLowerCase().replace(/[^a-z]/g, "");
+    out.add(joined);
+    for (const alias of ALIASES[joined] ?? []) out.add(alias);
+  }
+  return out;
+}
+
+/**
+ * Channels ranked by how well they match a description: words in common,
+ * less a little for words the channel has that weren't asked for. Without
+ * an axis in the question, a triplet's magnitude beats its components.
+ */
+export function searchChannels(sets: RowsBySheet, query: string, limit = 10): QueryChannel[] {
+  const q = words(query);
+  const wantsAxis = q.some((w) => w === "x" || w === "y" || w === "z");
+  const all = queryChannels(sets);
+  const components = new Set(all.filter((c) => c.keys.length > 1).flatMap((c) => c.keys));
+  const scored = all
+    .map((ch) => {
+      const cw = channelWords(ch);
+      const hits = q.filter((w) => cw.has(w)).length;
+      const extra = words(ch.label).filter((w) => !q.includes(w)).length;
+      let score = hits - 0.1 * extra;
+      if (!wantsAxis && ch.keys.length === 1 && components.has(ch.keys[0])) score -= 0.5;
+      return { ch, hits, score };
+    })
+    .filter((s) => s.hits > 0)
+    .sort((a, b) => b.score - a.score);
+  return scored.slice(0, limit).map((s) => s.ch);
+}
+
+/** A channel by id, or the best match for a description. */
+export function resolveChannel(sets: RowsBySheet, ref: string): QueryChannel | null {
+  return queryChannels(sets).find((c) => c.id === ref) ?? searchChannels(sets, ref, 1)[0] ?? null;
+}
+
+function signalOf(sets: RowsBySheet, ch: QueryChannel): Signal {
+  const rows = sets[ch.sheet] ?? [];
+  const t0 = captureStart(sets);
+  return ch.keys.length === 1 ? channelSignal(rows, ch.keys[0], t0) : magnitudeSignal(rows, ch.keys, t0);
+}
+
+/* ------------------------------------------------------------------ */
+/* Tools                                                               */
+/* ------------------------------------------------------------------ */
+
+const round = (x: number, digits = 3) => Number(x.toFixed(digits));
+
+function eventIdFrom(v: string): EventId | null {
+  const s = v.toLowerCase().replace(/[^a-z]/g, "");
+  return EVENT_IDS.find((id) => id.toLowerCase() === s || eventStyle(id).label.toLowerCase().replace(/[^a-z]/g, "") === s) ?? null;
+}
+
+/** An event id or a time in seconds, as seconds. */
+function timeOf(ctx: QueryContext, at: unknown): number {
+  if (typeof at === "number" && Number.isFinite(at)) return at;
+  if (typeof at === "string") {
+    const n = Number(at);
+    if (at.trim() && Number.isFinite(n)) return n;
+    const id = eventIdFrom(at);
+    const e = id ? ctx.detection?.events.find((ev) => ev.id === id) : null;
+    if (e) return e.t;
+    throw new Error(id ? `"${eventStyle(id).label}" was not detected in this session` : `Unknown event "${at}"`);
+  }
+  throw new Error(`Expected an event id or seconds, got ${JSON.stringify(at)}`);
+}
+
+/** Seconds from each detected event to `t` (positive: after the event). */
+function relativeToEvents(ctx: QueryContext, t: number): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const e of ctx.detection?.events ?? []) out[e.label] = round(t - e.t);
+  return out;
+}
+
+function channelArg(ctx: QueryContext, v: unknown): QueryChannel {
+  if (typeof v !== "string" || !v.trim()) throw new Error("A channel id or description is required");
+  const ch = resolveChannel(ctx.sets, v);
+  if (!ch) throw new Error(`No channel matches "${v}"; try find_channels`);
+  return ch;
+}
+
+const describe = (ch: QueryChannel) => ({ id: ch.id, label: ch.label, unit: ch.unit });
+
+function peakOf(ctx: QueryContext, ch: QueryChannel, kind: string, from?: number, to?: number) {
+  const sig = signalOf(ctx.sets, ch);
+  let best = -1;
+  for (let i = 0; i < sig.t.length; i++) {
+    if ((from != null && sig.t[i] < from) || (to != null && sig.t[i] > to) || !Number.isFinite(sig.v[i])) continue;
+    const x = sig.v[i];
+    const better =
+      best < 0 || (kind === "max" ? x > sig.v[best] : kind === "min" ? x < sig.v[best] : Math.abs(x) > Math.abs(sig.v[best]));
+    if (better) best = i;
+  }
+  if (best < 0) throw new Error(`${ch.label} has no samples in that range`);
+  return { value: round(sig.v[best]), t: round(sig.t[best]) };
+}
+
+function valueAt(ctx: QueryContext, ch: QueryChannel, t: number): number {
+  const sig = signalOf(ctx.sets, ch);
+  const n = sig.t.length;
+  if (!n) throw new Error(`${ch.label} has no samples`);
+  if (t <= sig.t[0]) return round(sig.v[0]);
+  if (t >= sig.t[n - 1]) return round(sig.v[n - 1]);
+  let i = 1;
+  while (sig.t[i] < t) i++;
+  const u = (t - sig.t[i - 1]) / (sig.t[i] - sig.t[i - 1] || 1);
+  return round(sig.v[i - 1] + u * (sig.v[i] - sig.v[i - 1]));
+}
+
+function runToolUnsafe(ctx: QueryContext, { tool, args = {} }: ToolCall): unknown {
+  switch (tool) {
+    case "find_channels": {
+      const limit = typeof args.limit === "number" ? Math.min(30, Math.max(1, args.limit)) : 10;
+      return { channels: searchChannels(ctx.sets, String(args.query ?? ""), limit).map(describe) };
+    }
+    case "events":
+      return {
+        movement: ctx.detection?.movement ?? "unknown",
+        events: (ctx.detection?.events ?? []).map((e) => ({ id: e.id, label: e.label, t: round(e.t), manual: !!e.manual })),
+      };
+    case "metrics":
+      return {
+        metrics: ctx.metrics.map((m) => ({ id: m.id, label: m.label, value: round(m.value, m.digits), unit: m.unit, t: round(m.t) })),
+      };
+    case "peak": {
+      const ch = channelArg(ctx, args.channel);
+      const kind = args.kind === "max" || args.kind === "min" ? args.kind : "abs";
+      const from = args.from != null ? timeOf(ctx, args.from) : undefined;
+      const to = args.to != null ? timeOf(ctx, args.to) : undefined;
+      const peak = peakOf(ctx, ch, kind, from, to);
+      return { channel: describe(ch), kind, ...peak, sinceEvents: relativeToEvents(ctx, peak.t) };
+    }
+    case "value_at": {
+      const ch = channelArg(ctx, args.channel);
+      const t = timeOf(ctx, args.at);
+      return { channel: describe(ch), t: round(t), value: valueAt(ctx, ch, t) };
+    }
+    case "compare": {
+      const refs = Array.isArray(args.channels) ? args.channels : [];
+      if (refs.length < 2) throw new Error("compare needs at least two channels");
+      const at = args.at != null ? timeOf(ctx, args.at) : null;
+      const rows = refs.map((r) => {
+        const ch = channelArg(ctx, r);
+        const peak = peakOf(ctx, ch, "abs");
+        return { channel: describe(ch), peak, ...(at != null ? { valueAt: valueAt(ctx, ch, at) } : {}) };
+      });
+      const order = [...rows].sort((a, b) => a.peak.t - b.peak.t);
+      const gaps = order.slice(1).map((r, i) => ({ from: order[i].channel.id, to: r.channel.id, dt: round(r.peak.t - order[i].peak.t) }));
+      return { channels: rows, peakOrder: order.map((r) => r.channel.id), gaps, ...(at != null ? { at: round(at) } : {}) };
+    }
+    case "compare_sessions": {
+      const other = ctx.other;
+      if (!other) throw new Error("No other session is loaded to compare with; pick one in Compare mode");
+      const ch = channelArg(ctx, args.channel);
+      // the same column in the other workbook: a near match there would compare different things
+      const otherCh = queryChannels(other.sets).find((c) => c.id === ch.id);
+      if (!otherCh) throw new Error(`${other.label} has no channel ${ch.id} to compare with`);
+      const kind = args.kind === "max" || args.kind === "min" ? args.kind : "abs";
+      // seconds mean nothing across two captures, only events line them up
+      if (args.at != null && !(typeof args.at === "string" && eventIdFrom(args.at))) {
+        throw new Error(`"at" must be an event id to compare sessions, got ${JSON.stringify(args.at)}`);
+      }
+      const side = (c: QueryContext, chan: QueryChannel) => {
+        const peak = peakOf(c, chan, kind);
+        const t = args.at != null ? timeOf(c, args.at) : null;
+        return {
+          channel: describe(chan),
+          peak: { ...peak, sinceEvents: relativeToEvents(c, peak.t) },
+          ...(t != null ? { at: round(t), valueAt: valueAt(c, chan, t) } : {}),
+        };
+      };
+      const a = side(ctx, ch);
+      const b = side(other, otherCh);
+      return {
+        kind,
+        sessions: [{ session: "this session", ...a }, { session: other.label, ...b }],
+        change: {
+          peak: round(a.peak.value - b.peak.value),
+          ...(a.valueAt != null && b.valueAt != null ? { valueAt: round(a.valueAt - b.valueAt) } : {}),
+        },
+      };
+    }
+    default:
+      throw new Error(`Unknown tool "${tool}"`);
+  }
+}
+
+/** Run one tool call; failures come back as `{ error }` so the model can try again. */
+export function runTool(ctx: QueryContext, call: ToolCall): unknown {
+  try {
+    return runToolUnsafe(ctx, call);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
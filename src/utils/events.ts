@@ -0,0 +1,238 @@
+// src/utils/events.ts
+import type { Row, RowsBySheet } from "./excel";
+import { argMaxAbs, captureStart, channelSignal, findChannel, findSheet, findTriplet, sheetStart } from "./channels";
+import { analyzeSequence } from "./sequence";
+import { separationFromPositions } from "./jointAngles";
+
+/* ------------------------------------------------------------------ */
+/* Types                                                               */
+/* ------------------------------------------------------------------ */
+
+export type MovementType = "hitter" | "pitcher" | "unknown";
+
+export type EventId = "footLift" | "footPlant" | "maxSeparation" | "contact" | "release" | "followThrough";
+
+export type MotionEvent = {
+  id: EventId;
+  label: string;
+  /** short label for graph markers */
+  short: string;
+  color: string;
+  /** Excel seconds, relative to the sheet's first sample */
+  t: number;
+  /** placed by hand instead of detected */
+  manual?: boolean;
+};
+
+/** Hand-placed event times (Excel seconds), replacing or filling in detected ones. */
+export type EventOverrides = Partial<Record<EventId, number>>;
+
+export type EventDetection = {
+  movement: MovementType;
+  /** which foot strides (the one that lifts) */
+  leadSide: "Left" | "Right" | null;
+  events: MotionEvent[];
+  /** duration of the joint sheet the events were read from (Excel seconds) */
+  duration: number;
+};
+
+/** A vertical marker on a graph or the time slider, in FBX seconds. */
+export type EventMarker = { id: string; label: string; t: number; color?: string };
+
+const EVENT_STYLE: Record<EventId, { label: string; short: string; color: string }> = {
+  footLift: { label: "Foot lift", short: "FL", color: "#8fd3ff" },
+  footPlant: { label: "Foot plant", short: "FP", color: "#3ddc97" },
+  maxSeparation: { label: "Max hip–shoulder separation", short: "MSEP", color: "#c792ea" },
+  contact: { label: "Contact", short: "CON", color: "#ff6b6b" },
+  release: { label: "Ball release", short: "REL", color: "#ff6b6b" },
+  followThrough: { label: "Follow-through", short: "FT", color: "#f5c542" },
+};
+
+/* ------------------------------------------------------------------ */
+/* Helpers                                                             */
+/* ------------------------------------------------------------------ */
+
+function axisValues(rows: Row[], key: string): number[] {
+  return rows.map((r) => (Number.isFinite(r[key]) ? r[key] : NaN));
+}
+
+function median(vs: number[]): number {
+  const a = vs.filter(Number.isFinite).sort((x, y) => x - y);
+  if (!a.length) return NaN;
+  const m = a.length >> 1;
+  return a.length % 2 ? a[m] : (a[m - 1] + a[m]) / 2;
+}
+
+/** Ankle height trace (z is vertical in the vendor export). */
+function ankleHeight(rows: Row[], side: "Left" | "Right"): number[] | null {
+  const keys = findTriplet(rows, `/Joint/Ankle/${side}`);
+  return keys ? axisValues(rows, keys[2]) : null;
+}
+
+/** Wrist-to-wrist distance; small when both hands hold a bat. */
+function handSpread(rows: Row[]): number[] | null {
+  const l = findTriplet(rows, "/Joint/Wrist/Left");
+  const r = findTriplet(rows, "/Joint/Wrist/Right");
+  if (!l || !r) return null;
+  return rows.map((row) => Math.hypot(row[l[0]] - row[r[0]], row[l[1]] - row[r[1]], row[l[2]] - row[r[2]]));
+}
+
+/**
+ * Hip–shoulder separation over the rep (degrees, Excel seconds on the capture
+ * clock): the vendor's computed channel when there is one, else worked out
+ * from the joint positions.
+ */
+export function separationSignal(sets: RowsBySheet): { t: number[]; v: number[] } | null {
+  const calcSheet = findSheet(sets, /baseball.*data/i, /calc/i);
+  const key = calcSheet ? findChannel(sets[calcSheet], /\/Trunk\/Separation/i) : null;
+  if (calcSheet && key) return channelSignal(sets[calcSheet], key, captureStart(sets));
+
+  const jointSheet = findSheet(sets, /joint.*position/i);
+  if (!jointSheet) return null;
+  const rows = sets[jointSheet];
+  const v = separationFromPositions(rows);
+  const t0 = sheetStart(rows);
+  return v ? { t: rows.map((r) => r.t - t0), v } : null;
+}
+
+/** Classify the rep from hand spread: hitters keep both hands on the bat. */
+export function classifyMovement(sets: RowsBySheet): MovementType {
+  const sheet = findSheet(sets, /joint.*position/i);
+  if (!sheet) return "unknown";
+  const spread = handSpread(sets[sheet]);
+  if (!spread) return "unknown";
+  const m = median(spread);
+  if (!Number.isFinite(m)) return "unknown";
+  return m < 0.25 ? "hitter" : "pitcher";
+}
+
+/* ------------------------------------------------------------------ */
+/* Detection                                                           */
+/* ------------------------------------------------------------------ */
+
+type Stride = { side: "Left" | "Right"; lift: number; plant: number | null };
+
+/**
+ * Lead foot = the ankle that rises the most above its starting height before
+ * `untilT` (contact/release — the trail foot often lifts afterwards).
+ * Lift is the first frame 10% of the way up; plant is the first frame after
+ * the apex that is back within 15% of the landing height.
+ */
+function detectStride(rows: Row[], untilT: number): Stride | null {
+  const t0 = sheetStart(rows);
+  let end = rows.length;
+  while (end > 1 && rows[end - 1].t - t0 > untilT) end--;
+
+  let best: { side: "Left" | "Right"; z: number[]; base: number; apex: number; rise: number } | null = null;
+  for (const side of ["Left", "Right"] as const) {
+    const z = ankleHeight(rows, side);
+    if (!z) continue;
+    const base = median(z.slice(0, Math.max(3, Math.floor(z.length * 0.1))));
+    let apex = -1;
+    for (let i = 0; i < end; i++) if (Number.isFinite(z[i]) && (apex < 0 || z[i] > z[apex])) apex = i;
+    if (apex < 0) continue;
+    const rise = z[apex] - base;
+    if (!best || rise > best.rise) best = { side, z, base, apex, rise };
+  }
+  if (!best || !(best.rise > 0.02)) return null;
+
+  const { z, base, apex, rise, side } = best;
+  let lift = 0;
+  for (let i = apex; i >= 0; i--) {
+    if (z[i] <= base + rise * 0.1) { lift = i; break; }
+  }
+
+  let landing = Infinity;
+  for (let i = apex; i < z.length; i++) if (Number.isFinite(z[i]) && z[i] < landing) landing = z[i];
+  let plant: number | null = null;
+  if (Number.isFinite(landing)) {
+    const thr = landing + (z[apex] - landing) * 0.15;
+    for (let i = apex; i < z.length; i++) {
+      if (z[i] <= thr) { plant = i; break; }
+    }
+  }
+  return { side, lift, plant };
+}
+
+/**
+ * Detect key movement events from the joint and computed sheets: foot lift,
+ * foot plant, max hip–shoulder separation, contact/release and follow-through.
+ *
+ * Contact/release is taken at peak hand speed — the ball sheet's tracking is
+ * too noisy around the hand to time release from directly. Follow-through is
+ * the first frame afterwards where hand speed has dropped below 30% of peak.
+ */
+export function detectEvents(sets: RowsBySheet): EventDetection | null {
+  const jointSheet = findSheet(sets, /joint.*position/i);
+  if (!jointSheet) return null;
+  const rows = sets[jointSheet];
+  if (rows.length < 3) return null;
+
+  const t0 = sheetStart(rows);
+  const tOf = (i: number) => rows[i].t - t0;
+  const duration = tOf(rows.length - 1);
+
+  const movement = classifyMovement(sets);
+  const found: Array<{ id: EventId; t: number }> = [];
+
+  // Contact / release at peak hand speed, read off the arm opposite the
+  // striding foot (found over the whole take, then timed up to the peak)
+  const seq = analyzeSequence(sets, detectStride(rows, duration)?.side);
+  const hand = seq?.segments.find((s) => s.id === "hand");
+  const strikeId: EventId = movement === "hitter" ? "contact" : "release";
+  let strikeT: number | null = null;
+
+  const stride = detectStride(rows, hand?.peakTime ?? duration);
+  if (stride) {
+    found.push({ id: "footLift", t: tOf(stride.lift) });
+    if (stride.plant != null) found.push({ id: "footPlant", t: tOf(stride.plant) });
+  }
+
+  if (hand) {
+    strikeT = hand.peakTime;
+    found.push({ id: strikeId, t: strikeT });
+
+    const cutoff = Math.abs(hand.peakValue) * 0.3;
+    for (let i = hand.peakIndex; i < hand.signal.v.length; i++) {
+      if (Math.abs(hand.signal.v[i]) < cutoff) {
+        found.push({ id: "followThrough", t: hand.signal.t[i] });
+        break;
+      }
+    }
+  }
+
+  // Max separation between foot lift and contact/release when both are known
+  const lo = stride ? tOf(stride.lift) : 0;
+  const hi = strikeT ?? duration;
+  const sep = separationSignal(sets);
+  if (sep) {
+    const inWindow = sep.v.map((x, i) => (sep!.t[i] >= lo && sep!.t[i] <= hi ? x : NaN));
+    const idx = argMaxAbs(inWindow);
+    if (idx >= 0) found.push({ id: "maxSeparation", t: sep.t[idx] });
+  }
+
+  const events = found
+    .sort((a, b) => a.t - b.t)
+    .map((e) => ({ id: e.id, ...EVENT_STYLE[e.id], t: e.t }));
+
+  return { movement, leadSide: stride?.side ?? null, events, duration };
+}
+
+/** The detection with hand-placed times swapped in (or added) for the overridden events. */
+export function withEventOverrides(detection: EventDetection, overrides: EventOverrides): EventDetection {
+  const ids = (Object.keys(overrides) as EventId[]).filter((id) => Number.isFinite(overrides[id]));
+  if (!ids.length) return detection;
+  const events = detection.events.filter((e) => !ids.includes(e.id));
+  for (const id of ids) events.push({ id, ...EVENT_STYLE[id], t: overrides[id]!, manual: true });
+  return { ...detection, events: events.sort((a, b) => a.t - b.t) };
+}
+
+/** Label and colour of an event, for lists that show it whether or not it was found. */
+export function eventStyle(id: EventId): { label: string; short: string; color: string } {
+  return EVENT_STYLE[id];
+}
+
+/** Time of an event (Excel seconds), or null when it wasn't detected. */
+export function eventTime(detection: EventDetection, id: EventId): number | null {
+  return detection.events.find((e) => e.id === id)?.t ?? null;
+}
@@ -0,0 +1,228 @@
+// src/utils/filters.ts
+import { rateFromTimes } from "./frameRate";
+
+/**
+ * Smoothing and differentiation for sampled channels. Inputs are parallel
+ * time (s) / value arrays as produced by `buildSeries`; NaN marks missing
+ * samples and stays NaN in the output.
+ */
+
+export type FilterSpec =
+  | { kind: "none" }
+  /** zero-lag (forward–backward) 2nd-order Butterworth low-pass */
+  | { kind: "butterworth"; cutoffHz: number }
+  /** centred moving average over `window` samples */
+  | { kind: "movingAverage"; window: number }
+  /** local least-squares polynomial of `order` over `window` samples */
+  | { kind: "savitzkyGolay"; window: number; order: number };
+
+export type FilterKind = FilterSpec["kind"];
+
+/** How one channel is processed before it's graphed. */
+export type ChannelProcessing = {
+  filter: FilterSpec;
+  /** graph d/dt of the channel (e.g. position → velocity) */
+  derivative: boolean;
+  /** also draw the unfiltered signal, faintly */
+  showRaw: boolean;
+};
+
+export const DEFAULT_FILTERS: Record<FilterKind, FilterSpec> = {
+  none: { kind: "none" },
+  butterworth: { kind: "butterworth", cutoffHz: 12 },
+  movingAverage: { kind: "movingAverage", window: 9 },
+  savitzkyGolay: { kind: "savitzkyGolay", window: 15, order: 3 },
+};
+
+export const NO_PROCESSING: ChannelProcessing = { filter: DEFAULT_FILTERS.none, derivative: false, showRaw: true };
+
+/** Copy with interior NaN runs linearly interpolated and edge runs held. */
+function fillGaps(v: number[]): number[] {
+  const out = v.slice();
+  let last = -1;
+  for (let i = 0; i < out.length; i++) {
+    if (!Number.isFinite(out[i])) continue;
+    if (last < 0) out.fill(out[i], 0, i);
+    else if (i - last > 1) {
+      for (let j = last + 1; j < i; j++) out[j] = out[last] + ((out[i] - out[last]) * (j - last)) / (i - last);
+    }
+    last = i;
+  }
+  if (last >= 0) out.fill(out[last], last + 1);
+  return out;
+}
+
+function restoreGaps(filtered: number[], original: number[]): number[] {
+  return filtered.map((x, i) => (Number.isFinite(original[i]) ? x : NaN));
+}
+
+/* ------------------------------------------------------------------ */
+/* Butterworth                                                         */
+/* ------------------------------------------------------------------ */
+
+function biquadPass(x: number[], b: [number, number, number], a: [number, number]): number[] {
+  const y = new Array<number>(x.length);
+  // start at rest on the first sample so the edge doesn't ring
+  let x1 = x[0], x2 = x[0], y1 = x[0], y2 = x[0];
+  for (let i = 0; i < x.length; i++) {
+    const yi = b[0] * x[i] + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x[i];
+    y2 = y1; y1 = yi;
+    y[i] = yi;
+  }
+  return y;
+}
+
+/**
+ * Zero-lag low-pass: a 2nd-order Butterworth run forwards then backwards.
+ * The cutoff is corrected for the double pass (Winter) so the −3 dB point
+ * lands on `cutoffHz`. Ends are padded by odd reflection to tame transients.
+ */
+export function butterworthLowpass(v: number[], fs: number, cutoffHz: number): number[] {
+  if (v.length < 3 || !(fs > 0) || !(cutoffHz > 0)) return v.slice();
+  const fc = Math.min(cutoffHz / Math.pow(Math.SQRT2 - 1, 0.25), fs * 0.45);
+  const K = Math.tan((Math.PI * fc) / fs);
+  const norm = 1 / (1 + Math.SQRT2 * K + K * K);
+  const b0 = K * K * norm;
+  const b: [number, number, number] = [b0, 2 * b0, b0];
+  const a: [number, number] = [2 * (K * K - 1) * norm, (1 - Math.SQRT2 * K + K * K) * norm];
+
+  const x = fillGaps(v);
+  const n = x.length;
+  const pad = Math.min(n - 1, Math.max(3, Math.round(fs / cutoffHz)));
+  const padded = [
+    ...Array.from({ length: pad }, (_, i) => 2 * x[0] - x[pad - i]),
+    ...x,
+    ...Array.from({ length: pad }, (_, i) => 2 * x[n - 1] - x[n - 2 - i]),
+  ];
+  const fwd = biquadPass(padded, b, a);
+  const back = biquadPass(fwd.reverse(), b, a).reverse();
+  return restoreGaps(back.slice(pad, pad + n), v);
+}
+
+/* ------------------------------------------------------------------ */
+/* Moving average / Savitzky–Golay                                     */
+/* ------------------------------------------------------------------ */
+
+/** Centred moving average over `window` samples, ignoring missing ones. */
+export function movingAverage(v: number[], window: number): number[] {
+  const h = Math.max(0, Math.floor(window / 2));
+  return v.map((x, i) => {
+    if (!Number.isFinite(x)) return NaN;
+    let sum = 0;
+    let n = 0;
+    for (let j = Math.max(0, i - h); j <= Math.min(v.length - 1, i + h); j++) {
+      if (Number.isFinite(v[j])) {
+        sum += v[j];
+        n++;
+      }
+    }
+    return sum / n;
+  });
+}
+
+/** Solve the small dense system M·c = r (Gaussian elimination, partial pivoting). */
+function solve(M: number[][], r: number[]): number[] | null {
+  const n = r.length;
+  const A = M.map((row, i) => [...row, r[i]]);
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let i = c + 1; i < n; i++) if (Math.abs(A[i][c]) > Math.abs(A[p][c])) p = i;
+    if (Math.abs(A[p][c]) < 1e-12) return null;
+    [A[c], A[p]] = [A[p], A[c]];
+    for (let i = c + 1; i < n; i++) {
+      const f = A[i][c] / A[c][c];
+      for (let j = c; j <= n; j++) A[i][j] -= f * A[c][j];
+    }
+  }
+  const out = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let s = A[i][n];
+    for (let j = i + 1; j < n; j++) s -= A[i][j] * out[j];
+    out[i] = s / A[i][i];
+  }
+  return out;
+}
+
+/**
+ * Savitzky–Golay: at each sample, fit a polynomial of `order` by least squares
+ * to the `window` samples around it (shifted inwards at the ends, missing
+ * samples skipped) and take its value — or, with `derivative`, its slope (per
+ * second, from the real sample times).
+ */
+export function savitzkyGolay(
+  t: number[],
+  v: number[],
+  window: number,
+  order: number,
+  derivative = false
+): number[] {
+  const n = v.length;
+  const w = Math.min(n, Math.max(order + 2, window | 1));
+  const h = Math.floor(w / 2);
+  const p = Math.max(derivative ? 1 : 0, Math.min(order, w - 2));
+
+  return v.map((x, i) => {
+    if (!Number.isFinite(x) && !derivative) return NaN;
+    const lo = Math.max(0, Math.min(n - w, i - h));
+    const ata = Array.from({ length: p + 1 }, () => new Array<number>(p + 1).fill(0));
+    const atb = new Array<number>(p + 1).fill(0);
+    let used = 0;
+    for (let j = lo; j < lo + w; j++) {
+      if (!Number.isFinite(v[j]) || !Number.isFinite(t[j])) continue;
+      const dt = t[j] - t[i];
+      const pw = [1];
+      for (let k = 1; k <= 2 * p; k++) pw.push(pw[k - 1] * dt);
+      for (let r = 0; r <= p; r++) {
+        atb[r] += pw[r] * v[j];
+        for (let c = 0; c <= p; c++) ata[r][c] += pw[r + c];
+      }
+      used++;
+    }
+    if (used <= p) return NaN;
+    const coef = solve(ata, atb);
+    if (!coef) return NaN;
+    return derivative ? coef[1] : coef[0];
+  });
+}
+
+/** Central-difference d/dt against the sample times (one-sided at the ends). */
+export function differentiate(t: number[], v: number[]): number[] {
+  const n = v.length;
+  return v.map((_, i) => {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    const dt = t[b] - t[a];
+    return dt > 0 ? (v[b] - v[a]) / dt : NaN;
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Entry point                                                         */
+/* ------------------------------------------------------------------ */
+
+export function applyFilter(spec: FilterSpec, t: number[], v: number[]): number[] {
+  switch (spec.kind) {
+    case "none":
+      return v;
+    case "butterworth":
+      return butterworthLowpass(v, rateFromTimes(t) ?? 0, spec.cutoffHz);
+    case "movingAverage":
+      return movingAverage(v, spec.window);
+    case "savitzkyGolay":
+      return savitzkyGolay(t, v, spec.window, spec.order);
+  }
+}
+
+/**
+ * Run a channel through its processing: optional d/dt first, then the filter.
+ * Returns both the unfiltered (but differentiated) and the filtered values.
+ */
+export function processChannel(
+  proc: ChannelProcessing,
+  t: number[],
+  v: number[]
+): { raw: number[]; filtered: number[] } {
+  const raw = proc.derivative ? differentiate(t, v) : v;
+  return { raw, filtered: applyFilter(proc.filter, t, raw) };
+}
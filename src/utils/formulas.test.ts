@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { evaluateFormula, formulaKey, parseFormula, withFormulas } from "./formulas";
+
+const rows = [1, 2, 3].map((i) => ({
+  t: i / 100,
+  "/Joint/Pelvis_x": 4 * i,
+  "/Joint/Pelvis_y": 3,
+  "/Joint/Pelvis_z": 0,
+  "/Object/Ball/Center_x (2)": i,
+}));
+
+describe("evaluateFormula", () => {
+  it.each([
+    ["/Joint/Pelvis_x/2", [2, 4, 6]],
+    ["/Joint/Pelvis_x / 2", [2, 4, 6]],
+    ["/Joint/Pelvis_x/(1 + 1)", [2, 4, 6]],
+    ["2 * /Joint/Pelvis_x/2", [4, 8, 12]],
+    ["/Joint/Pelvis_x/[/Object/Ball/Center_x (2)]", [4, 4, 4]],
+    ["norm(/Joint/Pelvis_x, _y, _z)", [5, Math.hypot(8, 3), Math.hypot(12, 3)]],
+  ])("%s", (expr, expected) => {
+    expect(evaluateFormula(expr, rows)).toEqual(expected);
+  });
+
+  it("keeps a / before a letter inside the reference", () => {
+    expect(() => evaluateFormula("/Joint/Pelvis_x/y", rows)).toThrow("Unknown channel /Joint/Pelvis_x/y");
+  });
+
+  it("reports a division with nothing after it", () => {
+    expect(() => parseFormula("/Joint/Pelvis_x/")).toThrow("Unexpected end of formula");
+  });
+});
+
+describe("formula functions", () => {
+  // 10 Hz: two fixed perpendicular vectors, a ramp and a zigzag
+  const samples = [0, 1, 2, 3, 4].map((i) => ({
+    t: i / 10,
+    "/Joint/A_x": 1,
+    "/Joint/A_y": 0,
+    "/Joint/A_z": 0,
+    "/Joint/B_x": 0,
+    "/Joint/B_y": 2,
+    "/Joint/B_z": 0,
+    "/Calc/Ramp": i,
+    "/Calc/Zigzag": i % 2 ? 3 : 0,
+  }));
+  const expectClose = (actual: number[], expected: number[]) => {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 9));
+  };
+
+  it.each([
+    ["dot(/Joint/A, vec(3, 4, 0))", [3, 3, 3, 3, 3]],
+    ["dot(/Joint/A, /Joint/B)", [0, 0, 0, 0, 0]],
+    ["angle(/Joint/A, /Joint/B)", [90, 90, 90, 90, 90]],
+    ["angle(/Joint/A, vec(0, 0, 0), /Joint/A + /Joint/B)", Array(5).fill((Math.atan2(2, 1) * 180) / Math.PI)],
+    ["derivative(/Calc/Ramp)", [10, 10, 10, 10, 10]],
+    ["integral(/Calc/Ramp)", [0, 0.05, 0.2, 0.45, 0.8]],
+    ["smooth(/Calc/Zigzag, 3)", [1.5, 1, 2, 1, 1.5]],
+    ["smooth(/Calc/Zigzag)", [1, 1.5, 1.2, 1.5, 1]],
+  ])("%s", (expr, expected) => {
+    expectClose(evaluateFormula(expr, samples), expected);
+  });
+
+  it("names what it doesn't know", () => {
+    expect(() => evaluateFormula("/Joint/Nose * 2", samples)).toThrow("Unknown channel /Joint/Nose");
+    expect(() => evaluateFormula("speed(/Calc/Ramp)", samples)).toThrow("Unknown function speed()");
+  });
+
+  it("adds a formula only to the sheets it evaluates on", () => {
+    const ball = [{ t: 0, "/Object/Ball_x": 1 }];
+    const { sets, errors } = withFormulas({ Calc: samples, Ball: ball }, [
+      { name: "double", expr: "2 * /Calc/Ramp" },
+      { name: "next", expr: "/Formula/double + 1" },
+      { name: "missing", expr: "/Calc/Nothing" },
+    ]);
+    expect(sets.Calc.map((r) => r[formulaKey("double")])).toEqual([0, 2, 4, 6, 8]);
+    expect(sets.Calc.map((r) => r[formulaKey("next")])).toEqual([1, 3, 5, 7, 9]);
+    expect(sets.Ball).toEqual(ball);
+    expect(errors).toEqual({ missing: "Unknown channel /Calc/Nothing" });
+  });
+});
@@ -0,0 +1,412 @@
+// src/utils/formulas.ts
+import type { Row, RowsBySheet } from "./excel";
+import { findTriplet } from "./channels";
+
+/**
+ * User-defined channels: small arithmetic expressions over a sheet's rows.
+ *
+ *   norm(/Joint/Wrist/Right_x_velocity, _y_velocity, _z_velocity)
+ *   /Calc/Pelvis/Twist_x - /Calc/Shoulder/Twist_x
+ *   angle(/Joint/Shoulder/Right, /Joint/Elbow/Right, /Joint/Wrist/Right)
+ *   smooth(derivative(/Derived/Right/ElbowFlexion), 9)
+ *
+ * Channel references start with `/`; names with spaces or other symbols go in
+ * brackets (`[/Object/Ball/Center_x (2)]`). A `/` followed by a digit, a
+ * space, `(` or `[` ends a reference and divides (`/Joint/Pelvis_x/2`); a path
+ * segment that starts with a digit needs brackets. A reference starting with `_`
+ * re-uses the previous reference's base (`…/Right_x_velocity` → `…/Right` +
+ * `_y_velocity`). A base with `_x/_y/_z` columns and no column of its own is
+ * a vector. Every value is evaluated per row; missing data is NaN.
+ */
+
+export type Formula = { name: string; expr: string };
+
+export const FORMULA_PREFIX = "/Formula/";
+
+export function formulaKey(name: string): string {
+  return `${FORMULA_PREFIX}${name}`;
+}
+
+/* ------------------------------------------------------------------ */
+/* Parser                                                              */
+/* ------------------------------------------------------------------ */
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "ref"; key: string }
+  | { kind: "neg"; arg: Node }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: Node; right: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+const REF_CHAR = /[A-Za-z0-9_./]/;
+
+class Parser {
+  private pos = 0;
+  private lastRef: string | null = null;
+  private readonly src: string;
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  parse(): Node {
+    const node = this.expr();
+    this.skip();
+    if (this.pos < this.src.length) this.fail(`Unexpected "${this.src[this.pos]}"`);
+    return node;
+  }
+
+  private fail(msg: string): never {
+    throw new Error(`${msg} at position ${this.pos + 1}`);
+  }
+
+  private skip() {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+  }
+
+  private peek(): string {
+    this.skip();
+    return this.src[this.pos] ?? "";
+  }
+
+  private expr(): Node {
+    let left = this.term();
+    for (let c = this.peek(); c === "+" || c === "-"; c = this.peek()) {
+      this.pos++;
+      left = { kind: "bin", op: c, left, right: this.term() };
+    }
+    return left;
+  }
+
+  private term(): Node {
+    let left = this.unary();
+    // after an operand a "/" is division (a reference can't follow an operand)
+    for (let c = this.peek(); c === "*" || c === "/"; c = this.peek()) {
+      this.pos++;
+      left = { kind: "bin", op: c, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    if (this.peek() === "-") {
+      this.pos++;
+      return { kind: "neg", arg: this.unary() };
+    }
+    const base = this.primary();
+    if (this.peek() === "^") {
+      this.pos++;
+      return { kind: "bin", op: "^", left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  /** A `/` inside a bare reference that is really a division: `/Joint/Pelvis_x/2`, `…_x / 2`, `…_x/(a + b)`, `…_x/[…]`. */
+  private dividesHere(): boolean {
+    if (this.src[this.pos] !== "/") return false;
+    const next = this.src[this.pos + 1];
+    return next == null || /[\d\s([]/.test(next);
+  }
+
+  private primary(): Node {
+    const c = this.peek();
+    if (!c) this.fail("Unexpected end of formula");
+
+    if (c === "(") {
+      this.pos++;
+      const inner = this.expr();
+      if (this.peek() !== ")") this.fail('Expected ")"');
+      this.pos++;
+      return inner;
+    }
+
+    if (/[0-9.]/.test(c)) {
+      const m = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(this.src.slice(this.pos));
+      if (!m) this.fail("Bad number");
+      this.pos += m[0].length;
+      return { kind: "num", value: Number(m[0]) };
+    }
+
+    if (c === "[") {
+      const end = this.src.indexOf("]", this.pos);
+      if (end < 0) this.fail('Expected "]"');
+      const key = this.src.slice(this.pos + 1, end).trim();
+      this.pos = end + 1;
+      return this.ref(key);
+    }
+
+    if (c === "/" || c === "_") {
+      const start = this.pos;
+      while (this.pos < this.src.length && REF_CHAR.test(this.src[this.pos]) && (this.pos === start || !this.dividesHere())) {
+        this.pos++;
+      }
+      const raw = this.src.slice(start, this.pos);
+      if (raw === "/" || raw === "_") this.fail("Expected a channel name");
+      if (c === "/") return this.ref(raw);
+      if (!this.lastRef) this.fail(`"${raw}" needs a full channel before it`);
+      return this.ref(baseOf(this.lastRef) + raw);
+    }
+
+    if (/[A-Za-z]/.test(c)) {
+      const m = /^[A-Za-z][A-Za-z0-9]*/.exec(this.src.slice(this.pos))!;
+      this.pos += m[0].length;
+      const name = m[0].toLowerCase();
+      if (name === "pi") return { kind: "num", value: Math.PI };
+      if (this.peek() !== "(") this.fail(`Expected "(" after ${m[0]}`);
+      this.pos++;
+      const args: Node[] = [];
+      if (this.peek() !== ")") {
+        args.push(this.expr());
+        while (this.peek() === ",") {
+          this.pos++;
+          args.push(this.expr());
+        }
+      }
+      if (this.peek() !== ")") this.fail('Expected ")"');
+      this.pos++;
+      return { kind: "call", name, args };
+    }
+
+    return this.fail(`Unexpected "${c}"`);
+  }
+
+  private ref(key: string): Node {
+    this.lastRef = key;
+    return { kind: "ref", key };
+  }
+}
+
+/** `/Joint/Wrist/Right_x_velocity` → `/Joint/Wrist/Right` (up to the first `_` of the last segment). */
+function baseOf(key: string): string {
+  const slash = key.lastIndexOf("/");
+  const us = key.indexOf("_", slash + 1);
+  return us < 0 ? key : key.slice(0, us);
+}
+
+/* ------------------------------------------------------------------ */
+/* Evaluation                                                          */
+/* ------------------------------------------------------------------ */
+
+type Series = number[];
+type Value = { kind: "scalar"; v: Series } | { kind: "vector"; v: [Series, Series, Series] };
+
+const DEG = 180 / Math.PI;
+
+function scalar(v: Series): Value {
+  return { kind: "scalar", v };
+}
+
+function asScalar(x: Value, what: string): Series {
+  if (x.kind !== "scalar") throw new Error(`${what} needs a number, got a vector (wrap it in norm())`);
+  return x.v;
+}
+
+function asVector(x: Value, what: string): [Series, Series, Series] {
+  if (x.kind !== "vector") throw new Error(`${what} needs a vector, e.g. /Joint/Wrist/Right or vec(x, y, z)`);
+  return x.v;
+}
+
+/** Apply `f` per component, so vectors pass through series functions unchanged in shape. */
+function mapValue(x: Value, f: (s: Series) => Series): Value {
+  return x.kind === "scalar" ? scalar(f(x.v)) : { kind: "vector", v: [f(x.v[0]), f(x.v[1]), f(x.v[2])] };
+}
+
+function zip(a: Series, b: Series, f: (x: number, y: number) => number): Series {
+  return a.map((x, i) => f(x, b[i]));
+}
+
+/** Central difference against row time (per second). */
+function derivative(s: Series, t: number[]): Series {
+  const n = s.length;
+  return s.map((_, i) => {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    const dt = t[b] - t[a];
+    return dt > 0 ? (s[b] - s[a]) / dt : NaN;
+  });
+}
+
+/** Running trapezoid integral from the first sample; gaps contribute nothing. */
+function integral(s: Series, t: number[]): Series {
+  let acc = 0;
+  return s.map((x, i) => {
+    if (i > 0 && Number.isFinite(x) && Number.isFinite(s[i - 1])) acc += ((x + s[i - 1]) / 2) * (t[i] - t[i - 1]);
+    return acc;
+  });
+}
+
+/** Centred moving average over `width` samples (NaN-aware). */
+function smooth(s: Series, width: number): Series {
+  const h = Math.max(0, Math.floor(width / 2));
+  return s.map((_, i) => {
+    let sum = 0;
+    let n = 0;
+    for (let j = Math.max(0, i - h); j <= Math.min(s.length - 1, i + h); j++) {
+      if (Number.isFinite(s[j])) {
+        sum += s[j];
+        n++;
+      }
+    }
+    return n ? sum / n : NaN;
+  });
+}
+
+function constant(x: Value, what: string): number {
+  const v = asScalar(x, what);
+  const c = v.find(Number.isFinite);
+  if (c === undefined || v.some((y) => Number.isFinite(y) && y !== c)) throw new Error(`${what} must be a constant`);
+  return c;
+}
+
+function arity(name: string, args: Value[], ...counts: number[]) {
+  if (!counts.includes(args.length)) {
+    throw new Error(`${name}() takes ${counts.join(" or ")} argument${counts.length === 1 && counts[0] === 1 ? "" : "s"}`);
+  }
+}
+
+function callFunction(name: string, args: Value[], t: number[]): Value {
+  switch (name) {
+    case "vec": {
+      arity(name, args, 3);
+      return { kind: "vector", v: [asScalar(args[0], "vec()"), asScalar(args[1], "vec()"), asScalar(args[2], "vec()")] };
+    }
+    case "norm": {
+      arity(name, args, 1, 3);
+      const [x, y, z] = args.length === 1 ? asVector(args[0], "norm()") : args.map((a) => asScalar(a, "norm()"));
+      return scalar(x.map((_, i) => Math.hypot(x[i], y[i], z[i])));
+    }
+    case "dot": {
+      arity(name, args, 2);
+      const a = asVector(args[0], "dot()");
+      const b = asVector(args[1], "dot()");
+      return scalar(a[0].map((_, i) => a[0][i] * b[0][i] + a[1][i] * b[1][i] + a[2][i] * b[2][i]));
+    }
+    case "angle": {
+      // angle(u, v) between two vectors, or angle(a, b, c) at point b — degrees
+      arity(name, args, 2, 3);
+      const vs = args.map((a) => asVector(a, "angle()"));
+      const [u, v] =
+        vs.length === 2
+          ? vs
+          : [0, 2].map((k) => [0, 1, 2].map((c) => zip(vs[k][c], vs[1][c], (p, q) => p - q)) as [Series, Series, Series]);
+      return scalar(
+        u[0].map((_, i) => {
+          const d = u[0][i] * v[0][i] + u[1][i] * v[1][i] + u[2][i] * v[2][i];
+          const m = Math.hypot(u[0][i], u[1][i], u[2][i]) * Math.hypot(v[0][i], v[1][i], v[2][i]);
+          return m > 0 ? Math.acos(Math.max(-1, Math.min(1, d / m))) * DEG : NaN;
+        })
+      );
+    }
+    case "derivative":
+      arity(name, args, 1);
+      return mapValue(args[0], (s) => derivative(s, t));
+    case "integral":
+      arity(name, args, 1);
+      return mapValue(args[0], (s) => integral(s, t));
+    case "smooth": {
+      arity(name, args, 1, 2);
+      const width = args.length > 1 ? constant(args[1], "smooth() width") : 5;
+      return mapValue(args[0], (s) => smooth(s, width));
+    }
+    case "abs":
+      arity(name, args, 1);
+      return mapValue(args[0], (s) => s.map(Math.abs));
+    case "sqrt":
+      arity(name, args, 1);
+      return scalar(asScalar(args[0], "sqrt()").map(Math.sqrt));
+    default:
+      throw new Error(`Unknown function ${name}()`);
+  }
+}
+
+function binary(op: "+" | "-" | "*" | "/" | "^", a: Value, b: Value): Value {
+  const f =
+    op === "+" ? (x: number, y: number) => x + y
+    : op === "-" ? (x: number, y: number) => x - y
+    : op === "*" ? (x: number, y: number) => x * y
+    : op === "/" ? (x: number, y: number) => x / y
+    : (x: number, y: number) => Math.pow(x, y);
+
+  if (a.kind === "scalar" && b.kind === "scalar") return scalar(zip(a.v, b.v, f));
+  if (a.kind === "vector" && b.kind === "vector") {
+    if (op !== "+" && op !== "-") throw new Error(`Vectors can only be added or subtracted (use dot() or norm())`);
+    return { kind: "vector", v: [zip(a.v[0], b.v[0], f), zip(a.v[1], b.v[1], f), zip(a.v[2], b.v[2], f)] };
+  }
+  // vector scaled by a number
+  if (op !== "*" && op !== "/") throw new Error(`Can't ${op === "^" ? "raise" : "add"} a vector and a number`);
+  if (a.kind === "scalar" && op === "/") throw new Error("Can't divide by a vector");
+  const [vec, num] = a.kind === "vector" ? [a, b as { v: Series }] : [b as Value & { kind: "vector" }, a];
+  return mapValue(vec, (s) => zip(s, num.v, f));
+}
+
+function evaluate(node: Node, rows: Row[], t: number[]): Value {
+  switch (node.kind) {
+    case "num":
+      return scalar(rows.map(() => node.value));
+    case "ref": {
+      if (rows.some((r) => node.key in r)) {
+        return scalar(rows.map((r) => (Number.isFinite(r[node.key]) ? r[node.key] : NaN)));
+      }
+      const keys = findTriplet(rows, node.key);
+      if (!keys) throw new Error(`Unknown channel ${node.key}`);
+      return {
+        kind: "vector",
+        v: keys.map((k) => rows.map((r) => (Number.isFinite(r[k]) ? r[k] : NaN))) as [Series, Series, Series],
+      };
+    }
+    case "neg":
+      return mapValue(evaluate(node.arg, rows, t), (s) => s.map((x) => -x));
+    case "bin":
+      return binary(node.op, evaluate(node.left, rows, t), evaluate(node.right, rows, t));
+    case "call":
+      return callFunction(node.name, node.args.map((a) => evaluate(a, rows, t)), t);
+  }
+}
+
+/** Check a formula's syntax; throws with a readable message. */
+export function parseFormula(expr: string): void {
+  new Parser(expr).parse();
+}
+
+/** Evaluate a formula against a sheet's rows: one value per row (NaN where data is missing). */
+export function evaluateFormula(expr: string, rows: Row[]): number[] {
+  const ast = new Parser(expr).parse();
+  const out = evaluate(ast, rows, rows.map((r) => r.t));
+  return asScalar(out, "A formula");
+}
+
+/**
+ * Copy of the workbook with each formula added as a `/Formula/<name>` channel
+ * on every sheet it evaluates on. Formulas run in order, so later ones can use
+ * earlier ones. `errors` holds, per formula that fit no sheet, the first reason.
+ */
+export function withFormulas(
+  sets: RowsBySheet,
+  formulas: Formula[]
+): { sets: RowsBySheet; errors: Record<string, string> } {
+  if (!formulas.length) return { sets, errors: {} };
+  const out: RowsBySheet = {};
+  const errors: Record<string, string> = {};
+  const fitted = new Set<string>();
+
+  for (const [name, rows] of Object.entries(sets)) {
+    let current = rows;
+    for (const f of formulas) {
+      try {
+        const values = evaluateFormula(f.expr, current);
+        const key = formulaKey(f.name);
+        current = current.map((r, i) => {
+          const row: Row = { ...r };
+          if (Number.isFinite(values[i])) row[key] = values[i];
+          return row;
+        });
+        fitted.add(f.name);
+      } catch (err) {
+        errors[f.name] ??= err instanceof Error ? err.message : String(err);
+      }
+    }
+    out[name] = current;
+  }
+  for (const name of fitted) delete errors[name];
+  return { sets: out, errors };
+}
@@ -0,0 +1,57 @@
+// src/utils/frameRate.ts
+import type * as THREE from "three";
+import type { RowsBySheet } from "./excel";
+import { findSheet } from "./channels";
+
+/** Used until a clip or workbook tells us better. */
+export const DEFAULT_FPS = 120;
+
+/** Rates capture systems and exporters actually use (Hz). */
+const COMMON_RATES = [24, 25, 30, 50, 60, 100, 120, 150, 180, 200, 240, 250, 300, 360, 400, 480, 500, 600, 960, 1000];
+/** Measured rates within this share of a common one snap to it (timestamps are rounded in exports). */
+const SNAP_TOLERANCE = 0.03;
+/** Rates further apart than this share count as a disagreement. */
+const MISMATCH_TOLERANCE = 0.02;
+
+function snapRate(hz: number): number {
+  const near = COMMON_RATES.find((r) => Math.abs(hz - r) / r <= SNAP_TOLERANCE);
+  return near ?? Math.round(hz);
+}
+
+/** Sample rate from the median spacing of increasing times; null with fewer than two. */
+export function rateFromTimes(times: ArrayLike<number>): number | null {
+  const d: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const dt = times[i] - times[i - 1];
+    if (dt > 0 && Number.isFinite(dt)) d.push(dt);
+  }
+  if (!d.length) return null;
+  d.sort((a, b) => a - b);
+  return snapRate(1 / d[d.length >> 1]);
+}
+
+/**
+ * Sample rate of a workbook, read off the joint sheet's Time column (the
+ * first sheet when there's no joint sheet).
+ */
+export function excelSampleRate(sets: RowsBySheet): number | null {
+  const sheet = findSheet(sets, /joint.*position/i) ?? Object.keys(sets)[0];
+  const rows = sheet ? sets[sheet] : null;
+  return rows ? rateFromTimes(rows.map((r) => r.t)) : null;
+}
+
+/**
+ * Frame rate of an animation clip from its keyframe times. Exporters thin out
+ * keys on bones that barely move, so the densest track is the one to trust.
+ */
+export function clipFrameRate(clip: THREE.AnimationClip): number | null {
+  let densest: ArrayLike<number> | null = null;
+  for (const track of clip.tracks) {
+    if (!densest || track.times.length > densest.length) densest = track.times;
+  }
+  return densest ? rateFromTimes(densest) : null;
+}
+
+export function ratesDisagree(a: number, b: number): boolean {
+  return Math.abs(a - b) / Math.max(a, b) > MISMATCH_TOLERANCE;
+}
@@ -0,0 +1,169 @@
+// src/utils/jointAngles.ts
+import type { Row, RowsBySheet } from "./excel";
+import { findSheet, findTriplet } from "./channels";
+
+/**
+ * Joint angles computed per frame from the "Joint Positions" triplets
+ * (`/Joint/<name>_x/_y/_z`, metres, z up). They're added to the rows as
+ * ordinary channels under `/Derived/`, so pickers, graphs and exports treat
+ * them like the vendor's own columns. All angles are in degrees.
+ */
+
+export const DERIVED_PREFIX = "/Derived/";
+
+type Vec = [number, number, number];
+
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const len = (a: Vec) => Math.sqrt(dot(a, a));
+const DEG = 180 / Math.PI;
+const UP: Vec = [0, 0, 1];
+
+/** Angle between two vectors (degrees, 0–180); NaN when either is degenerate. */
+function between(a: Vec, b: Vec): number {
+  const d = len(a) * len(b);
+  if (!(d > 1e-9)) return NaN;
+  return Math.acos(Math.max(-1, Math.min(1, dot(a, b) / d))) * DEG;
+}
+
+/** Flexion at joint `b` of the chain a–b–c: 0 when straight. */
+function flexion(a: Vec, b: Vec, c: Vec): number {
+  return 180 - between(sub(a, b), sub(c, b));
+}
+
+/** Horizontal unit vector pointing to the athlete's left, from the hip line. */
+function leftAxis(hipL: Vec, hipR: Vec): Vec | null {
+  const l: Vec = [hipL[0] - hipR[0], hipL[1] - hipR[1], 0];
+  const n = len(l);
+  return n > 1e-9 ? [l[0] / n, l[1] / n, 0] : null;
+}
+
+/** Signed angle (degrees, −180…180) of a horizontal line from a to b. */
+function heading(a: Vec, b: Vec): number {
+  return Math.atan2(b[1] - a[1], b[0] - a[0]) * DEG;
+}
+
+function wrap180(d: number): number {
+  while (d > 180) d -= 360;
+  while (d < -180) d += 360;
+  return d;
+}
+
+type AngleSpec = {
+  /** channel key, under DERIVED_PREFIX */
+  key: string;
+  /** `/Joint/<name>` triplets the angle needs, in the order `angle` receives them */
+  joints: string[];
+  angle: (p: Vec[]) => number;
+};
+
+const SIDES = ["Left", "Right"] as const;
+
+const ANGLES: AngleSpec[] = [
+  ...SIDES.map<AngleSpec>((s) => ({
+    key: `${DERIVED_PREFIX}${s}/ElbowFlexion`,
+    joints: [`Shoulder/${s}`, `Elbow/${s}`, `Wrist/${s}`],
+    angle: ([sh, el, wr]) => flexion(sh, el, wr),
+  })),
+  ...SIDES.map<AngleSpec>((s) => ({
+    key: `${DERIVED_PREFIX}${s}/KneeFlexion`,
+    joints: [`Hip/${s}`, `Knee/${s}`, `Ankle/${s}`],
+    angle: ([hip, knee, ankle]) => flexion(hip, knee, ankle),
+  })),
+  // thigh against the trunk line (pelvis → neck): 0 standing tall
+  ...SIDES.map<AngleSpec>((s) => ({
+    key: `${DERIVED_PREFIX}${s}/HipFlexion`,
+    joints: ["Neck", "Pelvis", `Hip/${s}`, `Knee/${s}`],
+    angle: ([neck, pelvis, hip, knee]) => 180 - between(sub(neck, pelvis), sub(knee, hip)),
+  })),
+  // upper arm against the trunk line pointing down: 0 arm at the side, 90 level
+  ...SIDES.map<AngleSpec>((s) => ({
+    key: `${DERIVED_PREFIX}${s}/ShoulderAbduction`,
+    joints: ["Neck", "Pelvis", `Shoulder/${s}`, `Elbow/${s}`],
+    angle: ([neck, pelvis, sh, el]) => between(sub(pelvis, neck), sub(el, sh)),
+  })),
+  // trunk (pelvis → neck) leaning towards the facing direction: + forwards
+  {
+    key: `${DERIVED_PREFIX}Trunk/ForwardTilt`,
+    joints: ["Pelvis", "Neck", "Hip/Left", "Hip/Right"],
+    angle: ([pelvis, neck, hl, hr]) => {
+      const left = leftAxis(hl, hr);
+      if (!left) return NaN;
+      const trunk = sub(neck, pelvis);
+      return Math.atan2(dot(trunk, cross(left, UP)), trunk[2]) * DEG;
+    },
+  },
+  // trunk leaning sideways: + towards the athlete's left
+  {
+    key: `${DERIVED_PREFIX}Trunk/LateralTilt`,
+    joints: ["Pelvis", "Neck", "Hip/Left", "Hip/Right"],
+    angle: ([pelvis, neck, hl, hr]) => {
+      const left = leftAxis(hl, hr);
+      if (!left) return NaN;
+      const trunk = sub(neck, pelvis);
+      return Math.atan2(dot(trunk, left), trunk[2]) * DEG;
+    },
+  },
+  // hip line vs shoulder line in the horizontal plane
+  {
+    key: `${DERIVED_PREFIX}Trunk/HipShoulderSeparation`,
+    joints: ["Hip/Left", "Hip/Right", "Shoulder/Left", "Shoulder/Right"],
+    angle: ([hl, hr, sl, sr]) => wrap180(heading(sr, sl) - heading(hr, hl)),
+  },
+];
+
+function angleValues(rows: Row[], spec: AngleSpec): number[] | null {
+  const triplets = spec.joints.map((j) => findTriplet(rows, `/Joint/${j}`));
+  if (triplets.some((k) => !k)) return null;
+  return rows.map((r) => {
+    const p = triplets.map((k) => k!.map((c) => r[c]) as Vec);
+    return p.every((v) => v.every(Number.isFinite)) ? spec.angle(p) : NaN;
+  });
+}
+
+/** Per-frame values of every angle whose joints are present in the rows. */
+export function jointAngleChannels(rows: Row[]): Record<string, number[]> {
+  const out: Record<string, number[]> = {};
+  for (const spec of ANGLES) {
+    const v = angleValues(rows, spec);
+    if (v) out[spec.key] = v;
+  }
+  return out;
+}
+
+/** Hip–shoulder separation per frame, or null without hip and shoulder triplets. */
+export function separationFromPositions(rows: Row[]): number[] | null {
+  return angleValues(rows, ANGLES.find((a) => a.key.endsWith("/HipShoulderSeparation"))!);
+}
+
+function sameClock(a: Row[], b: Row[]): boolean {
+  return a.length === b.length && a[0]?.t === b[0]?.t && a[a.length - 1]?.t === b[b.length - 1]?.t;
+}
+
+/**
+ * Copy of the workbook with joint angles added to the joint sheet's rows — and
+ * to any other sheet sampled on the same clock, so they can be graphed next to
+ * that sheet's channels. Missing values are left out of a row, as the parser does.
+ */
+export function withJointAngles(sets: RowsBySheet): RowsBySheet {
+  const jointSheet = findSheet(sets, /joint.*position/i);
+  if (!jointSheet) return sets;
+  const joints = sets[jointSheet];
+  const angles = Object.entries(jointAngleChannels(joints));
+  if (!angles.length) return sets;
+
+  const out: RowsBySheet = {};
+  for (const [name, rows] of Object.entries(sets)) {
+    if (name !== jointSheet && !sameClock(rows, joints)) {
+      out[name] = rows;
+      continue;
+    }
+    out[name] = rows.map((r, i) => {
+      const row: Row = { ...r };
+      for (const [key, v] of angles) if (Number.isFinite(v[i])) row[key] = v[i];
+      return row;
+    });
+  }
+  return out;
+}
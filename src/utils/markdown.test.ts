@@ -0,0 +1,291 @@
+import { describe, expect, it } from "vitest";
+import { parseMarkdown } from "./markdown";
+import type { Block, Inline } from "./markdown";
+
+/**
+ * Fixtures are markdown → HTML pairs, most taken from the CommonMark and GFM
+ * specs (section named in each group). The tree is printed as compact HTML
+ * so expectations read like the specs'; soft line breaks print as a space,
+ * which is how the tree stores them.
+ */
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function inlineHtml(nodes: Inline[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return esc(n.text);
+        case "break":
+          return "<br />";
+        case "code":
+          return `<code>${esc(n.text)}</code>`;
+        case "image":
+          return `<img src="${esc(n.src)}" alt="${esc(n.alt)}" />`;
+        case "link":
+          return `<a href="${esc(n.href)}"${n.title != null ? ` title="${esc(n.title)}"` : ""}>${inlineHtml(n.children)}</a>`;
+        default:
+          return `<${n.type}>${inlineHtml(n.children)}</${n.type}>`;
+      }
+    })
+    .join("");
+}
+
+function html(blocks: Block[], tight = false): string {
+  return blocks
+    .map((b) => {
+      switch (b.type) {
+        case "heading":
+          return `<h${b.level}>${inlineHtml(b.children)}</h${b.level}>`;
+        case "paragraph":
+          return tight ? inlineHtml(b.children) : `<p>${inlineHtml(b.children)}</p>`;
+        case "hr":
+          return "<hr />";
+        case "code":
+          return `<pre><code${b.lang ? ` class="language-${esc(b.lang)}"` : ""}>${esc(b.text)}${b.text ? "\n" : ""}</code></pre>`;
+        case "blockquote":
+          return `<blockquote>${html(b.children)}</blockquote>`;
+        case "list": {
+          const tag = b.ordered ? "ol" : "ul";
+          const start = b.ordered && b.start !== 1 ? ` start="${b.start}"` : "";
+          const items = b.items.map((item) => {
+            const box = item.checked == null ? "" : `<input ${item.checked ? 'checked="" ' : ""}disabled="" type="checkbox" /> `;
+            return `<li>${box}${html(item.children, b.tight)}</li>`;
+          });
+          return `<${tag}${start}>${items.join("")}</${tag}>`;
+        }
+        case "table": {
+          const cell = (tag: string, c: Inline[], i: number) =>
+            `<${tag}${b.align[i] ? ` align="${b.align[i]}"` : ""}>${inlineHtml(c)}</${tag}>`;
+          const head = `<thead><tr>${b.head.map((c, i) => cell("th", c, i)).join("")}</tr></thead>`;
+          const rows = b.rows.map((r) => `<tr>${r.map((c, i) => cell("td", c, i)).join("")}</tr>`).join("");
+          return `<table>${head}${rows ? `<tbody>${rows}</tbody>` : ""}</table>`;
+        }
+      }
+    })
+    .join("");
+}
+
+const render = (md: string) => html(parseMarkdown(md));
+
+type Fixture = [name: string, markdown: string, expected: string];
+
+const FIXTURES: Record<string, Fixture[]> = {
+  "thematic breaks (CommonMark 4.1)": [
+    ["three kinds", "***\n---\n___", "<hr /><hr /><hr />"],
+    ["wrong characters", "+++", "<p>+++</p>"],
+    ["too few characters", "--\n**\n__", "<p>-- ** __</p>"],
+    ["up to three spaces of indent", " ***\n  ***\n   ***", "<hr /><hr /><hr />"],
+    ["four spaces is code", "    ***", "<pre><code>***\n</code></pre>"],
+    ["spaces between", " - - -", "<hr />"],
+    ["spaces between, mixed widths", " **  * ** * ** * **", "<hr />"],
+    ["breaks a list", "- foo\n***\n- bar", "<ul><li>foo</li></ul><hr /><ul><li>bar</li></ul>"],
+    ["interrupts a paragraph", "Foo\n***\nbar", "<p>Foo</p><hr /><p>bar</p>"],
+    ["--- after a paragraph is a setext heading", "Foo\n---\nbar", "<h2>Foo</h2><p>bar</p>"],
+    ["between list items", "* Foo\n* * *\n* Bar", "<ul><li>Foo</li></ul><hr /><ul><li>Bar</li></ul>"],
+  ],
+  "headings (CommonMark 4.2, 4.3)": [
+    ["six levels", "# foo\n## foo\n###### foo", "<h1>foo</h1><h2>foo</h2><h6>foo</h6>"],
+    ["seven is a paragraph", "####### foo", "<p>####### foo</p>"],
+    ["needs a space", "#5 bolt\n\n#hashtag", "<p>#5 bolt</p><p>#hashtag</p>"],
+    ["inline content", "# foo *bar* \\*baz\\*", "<h1>foo <em>bar</em> *baz*</h1>"],
+    ["closing sequence", "## foo ##\n###   bar    ###", "<h2>foo</h2><h3>bar</h3>"],
+    ["setext", "Foo *bar*\n=========\n\nFoo *bar*\n---------", "<h1>Foo <em>bar</em></h1><h2>Foo <em>bar</em></h2>"],
+  ],
+  "code blocks (CommonMark 4.4, 4.5)": [
+    ["indented", "    a simple\n      indented code block", "<pre><code>a simple\n  indented code block\n</code></pre>"],
+    ["indented code can't interrupt a paragraph", "Foo\n    bar", "<p>Foo bar</p>"],
+    ["fenced", "```\n<\n >\n```", "<pre><code>&lt;\n &gt;\n</code></pre>"],
+    ["tildes", "~~~\n<\n >\n~~~", "<pre><code>&lt;\n &gt;\n</code></pre>"],
+    ["other fence inside", "~~~\naaa\n```\n~~~", "<pre><code>aaa\n```\n</code></pre>"],
+    ["closing fence at least as long", "````\naaa\n```\n``````", "<pre><code>aaa\n```\n</code></pre>"],
+    ["backtick info can't hold backticks", "``` aa ```\nfoo", "<p><code>aa</code> foo</p>"],
+    ["unclosed runs to the end", "```\n\n```aaa", "<pre><code>\n```aaa\n</code></pre>"],
+    ["info string", "```ruby\ndef foo(x)\n  return 3\nend\n```", '<pre><code class="language-ruby">def foo(x)\n  return 3\nend\n</code></pre>'],
+    ["fence indent removed", "  ```\naaa\n  aaa\naaa\n  ```", "<pre><code>aaa\naaa\naaa\n</code></pre>"],
+    ["markdown inside is literal", "```\n# not a heading\n- not a list\n```", "<pre><code># not a heading\n- not a list\n</code></pre>"],
+  ],
+  "block quotes (CommonMark 5.1)": [
+    ["basic", "> # Foo\n> bar\n> baz", "<blockquote><h1>Foo</h1><p>bar baz</p></blockquote>"],
+    ["space after > optional", "># Foo\n>bar\n> baz", "<blockquote><h1>Foo</h1><p>bar baz</p></blockquote>"],
+    ["lazy continuation", "> # Foo\n> bar\nbaz", "<blockquote><h1>Foo</h1><p>bar baz</p></blockquote>"],
+    ["blank line ends it", "> foo\n\n> bar", "<blockquote><p>foo</p></blockquote><blockquote><p>bar</p></blockquote>"],
+    ["two paragraphs", "> foo\n>\n> bar", "<blockquote><p>foo</p><p>bar</p></blockquote>"],
+    ["nested", "> > > foo\nbar", "<blockquote><blockquote><blockquote><p>foo bar</p></blockquote></blockquote></blockquote>"],
+    ["list inside", "> - one\n> - two", "<blockquote><ul><li>one</li><li>two</li></ul></blockquote>"],
+    ["lazy line can't start a block", "> foo\n---", "<blockquote><p>foo</p></blockquote><hr />"],
+  ],
+  "lists (CommonMark 5.2, 5.3)": [
+    ["changing bullet starts a new list", "- foo\n- bar\n+ baz", "<ul><li>foo</li><li>bar</li></ul><ul><li>baz</li></ul>"],
+    ["changing delimiter starts a new list", "1. foo\n2. bar\n3) baz", '<ol><li>foo</li><li>bar</li></ol><ol start="3"><li>baz</li></ol>'],
+    ["start number", "123. ok", '<ol start="123"><li>ok</li></ol>'],
+    ["only 1. interrupts a paragraph", "The number of windows in my house is\n14.  The number of doors is 6.", "<p>The number of windows in my house is 14.  The number of doors is 6.</p>"],
+    ["1. does interrupt", "The number of windows in my house is\n1.  The number of doors is 6.", "<p>The number of windows in my house is</p><ol><li>The number of doors is 6.</li></ol>"],
+    [
+      "nesting by content column",
+      "- foo\n  - bar\n    - baz\n      - boo",
+      "<ul><li>foo<ul><li>bar<ul><li>baz<ul><li>boo</li></ul></li></ul></li></ul></li></ul>",
+    ],
+    ["ordered inside bullet", "- a\n  1. b\n  2. c\n- d", "<ul><li>a<ol><li>b</li><li>c</li></ol></li><li>d</li></ul>"],
+    ["bullet inside ordered", "1. a\n\n   - b\n\n2. c", "<ol><li><p>a</p><ul><li>b</li></ul></li><li><p>c</p></li></ol>"],
+    ["loose: blank line between items", "- a\n- b\n\n- c", "<ul><li><p>a</p></li><li><p>b</p></li><li><p>c</p></li></ul>"],
+    ["loose: blank line inside an item", "- a\n\n  b\n- c", "<ul><li><p>a</p><p>b</p></li><li><p>c</p></li></ul>"],
+    ["tight despite a nested list", "- a\n  - b\n\n    c\n- d", "<ul><li>a<ul><li><p>b</p><p>c</p></li></ul></li><li>d</li></ul>"],
+    ["loose: blank line after a nested list", "- a\n  - b\n\n  c", "<ul><li><p>a</p><ul><li>b</li></ul><p>c</p></li></ul>"],
+    ["code in an item", "- a\n  ```\n  b\n\n\n  ```\n- c", "<ul><li>a<pre><code>b\n\n\n</code></pre></li><li>c</li></ul>"],
+    ["lazy continuation", "- a\nb\n- c", "<ul><li>a b</li><li>c</li></ul>"],
+    ["empty item", "- foo\n-\n- bar", "<ul><li>foo</li><li></li><li>bar</li></ul>"],
+    // not CommonMark: see the leniency in the module header
+    ["lenient: nested short of the content column", "1. Top\n  - nested\n  - again\n2. Next", "<ol><li>Top<ul><li>nested</li><li>again</li></ul></li><li>Next</li></ol>"],
+  ],
+  "task lists (GFM 5.3)": [
+    ["checked and not", "- [ ] foo\n- [x] bar", '<ul><li><input disabled="" type="checkbox" /> foo</li><li><input checked="" disabled="" type="checkbox" /> bar</li></ul>'],
+  ],
+  "tables (GFM 4.10)": [
+    ["basic", "| foo | bar |\n| --- | --- |\n| baz | bim |", "<table><thead><tr><th>foo</th><th>bar</th></tr></thead><tbody><tr><td>baz</td><td>bim</td></tr></tbody></table>"],
+    [
+      "alignment",
+      "| abc | defghi |\n:-: | -----------:\nbar | baz",
+      '<table><thead><tr><th align="center">abc</th><th align="right">defghi</th></tr></thead><tbody><tr><td align="center">bar</td><td align="right">baz</td></tr></tbody></table>',
+    ],
+    ["left", "| a |\n|:--|\n| b |", '<table><thead><tr><th align="left">a</th></tr></thead><tbody><tr><td align="left">b</td></tr></tbody></table>'],
+    [
+      "escaped pipes",
+      "| f\\|oo  |\n| ------ |\n| b `\\|` az |\n| b **\\|** im |",
+      "<table><thead><tr><th>f|oo</th></tr></thead><tbody><tr><td>b <code>|</code> az</td></tr><tr><td>b <strong>|</strong> im</td></tr></tbody></table>",
+    ],
+    [
+      "ended by another block",
+      "| abc | def |\n| --- | --- |\n| bar | baz |\n> bar",
+      "<table><thead><tr><th>abc</th><th>def</th></tr></thead><tbody><tr><td>bar</td><td>baz</td></tr></tbody></table><blockquote><p>bar</p></blockquote>",
+    ],
+    [
+      "ended by a blank line",
+      "| abc | def |\n| --- | --- |\n| bar | baz |\n\nbar",
+      "<table><thead><tr><th>abc</th><th>def</th></tr></thead><tbody><tr><td>bar</td><td>baz</td></tr></tbody></table><p>bar</p>",
+    ],
+    ["header and delimiter must match", "| abc | def |\n| --- |\n| bar |", "<p>| abc | def | | --- | | bar |</p>"],
+    [
+      "short rows padded, long rows cut",
+      "| abc | def |\n| --- | --- |\n| bar |\n| bar | baz | boo |",
+      "<table><thead><tr><th>abc</th><th>def</th></tr></thead><tbody><tr><td>bar</td><td></td></tr><tr><td>bar</td><td>baz</td></tr></tbody></table>",
+    ],
+    ["header only", "| abc | def |\n| --- | --- |", "<table><thead><tr><th>abc</th><th>def</th></tr></thead></table>"],
+  ],
+  "code spans (CommonMark 6.1)": [
+    ["basic", "`foo`", "<p><code>foo</code></p>"],
+    ["backtick inside", "`` foo ` bar ``", "<p><code>foo ` bar</code></p>"],
+    ["one space stripped", "` `` `", "<p><code>``</code></p>"],
+    ["only one space each side", "`  ``  `", "<p><code> `` </code></p>"],
+    ["line endings become spaces", "`foo   bar \nbaz`", "<p><code>foo   bar  baz</code></p>"],
+    ["no escapes inside", "`foo\\`bar`", "<p><code>foo\\</code>bar`</p>"],
+    ["unmatched run is literal", "```foo``", "<p>```foo``</p>"],
+    ["takes precedence over emphasis", "*foo`*`", "<p>*foo<code>*</code></p>"],
+  ],
+  "emphasis (CommonMark 6.2)": [
+    ["em", "*foo bar*", "<p><em>foo bar</em></p>"],
+    ["not left-flanking", "a * foo bar*", "<p>a * foo bar*</p>"],
+    ["intraword *", "foo*bar*", "<p>foo<em>bar</em></p>"],
+    ["no intraword _", "_foo_bar", "<p>_foo_bar</p>"],
+    ["snake_case stays", "snake_case_word", "<p>snake_case_word</p>"],
+    ["strong", "**foo bar**", "<p><strong>foo bar</strong></p>"],
+    ["strong underscore", "__foo bar__", "<p><strong>foo bar</strong></p>"],
+    ["nested", "*foo **bar** baz*", "<p><em>foo <strong>bar</strong> baz</em></p>"],
+    ["rule of 3", "*foo**bar**baz*", "<p><em>foo<strong>bar</strong>baz</em></p>"],
+    ["triple", "foo***bar***baz", "<p>foo<em><strong>bar</strong></em>baz</p>"],
+    ["unmatched", "**foo*", "<p>*<em>foo</em></p>"],
+    ["strikethrough (GFM 6.5)", "~~Hi~~ Hello, world!", "<p><del>Hi</del> Hello, world!</p>"],
+    ["three tildes aren't strikethrough", "a ~~~foo~~~ b", "<p>a ~~~foo~~~ b</p>"],
+  ],
+  "links (CommonMark 6.3, 6.5)": [
+    ["inline with title", '[link](/uri "title")', '<p><a href="/uri" title="title">link</a></p>'],
+    ["empty destination", "[link]()", '<p><a href="">link</a></p>'],
+    ["pointy brackets", "[link](<foo bar>)", '<p><a href="foo bar">link</a></p>'],
+    ["balanced parentheses", "[link](foo(and(bar)))", '<p><a href="foo(and(bar))">link</a></p>'],
+    ["emphasis inside", "[link *foo **bar** `#`*](/uri)", '<p><a href="/uri">link <em>foo <strong>bar</strong> <code>#</code></em></a></p>'],
+    ["full reference", '[foo][bar]\n\n[bar]: /url "title"', '<p><a href="/url" title="title">foo</a></p>'],
+    ["collapsed and shortcut", "[foo][] [Foo]\n\n[foo]: /url", '<p><a href="/url">foo</a> <a href="/url">Foo</a></p>'],
+    ["undefined reference stays text", "[foo]", "<p>[foo]</p>"],
+    ["image", '![foo](/url "title")', '<p><img src="/url" alt="foo" /></p>'],
+    ["autolink", "<http://foo.bar.baz>", '<p><a href="http://foo.bar.baz">http://foo.bar.baz</a></p>'],
+    ["email autolink", "<foo@bar.example.com>", '<p><a href="mailto:foo@bar.example.com">foo@bar.example.com</a></p>'],
+    ["not an autolink", "<http://foo.bar/baz bim>", "<p>&lt;http://foo.bar/baz bim&gt;</p>"],
+  ],
+  "escapes, entities and line breaks (CommonMark 2.4, 2.5, 6.7, 6.8)": [
+    ["backslash escapes", "\\*not emphasized*\n\\# not a heading", "<p>*not emphasized* # not a heading</p>"],
+    ["other backslashes are literal", "\\ \\A\\a", "<p>\\ \\A\\a</p>"],
+    ["entities", "&amp; &copy; &#35; &#x22; &bogus;", "<p>&amp; © # &quot; &amp;bogus;</p>"],
+    ["hard break: two spaces", "foo  \nbaz", "<p>foo<br />baz</p>"],
+    ["hard break: backslash", "foo\\\nbaz", "<p>foo<br />baz</p>"],
+    ["hard break: more spaces", "foo       \nbaz", "<p>foo<br />baz</p>"],
+    ["hard break inside emphasis", "*foo  \nbar*", "<p><em>foo<br />bar</em></p>"],
+    ["hard break in a list item", "- a  \n  b", "<ul><li>a<br />b</li></ul>"],
+    ["no hard break at the end of a paragraph", "foo  ", "<p>foo</p>"],
+    ["soft break", "foo\nbaz", "<p>foo baz</p>"],
+  ],
+};
+
+describe("parseMarkdown", () => {
+  for (const [group, fixtures] of Object.entries(FIXTURES)) {
+    describe(group, () => {
+      it.each(fixtures)("%s", (_name, markdown, expected) => {
+        expect(render(markdown)).toBe(expected);
+      });
+    });
+  }
+
+  it("lays out a typical generated report", () => {
+    const md = [
+      "## Summary",
+      "The **pelvis** peaked *before* the torso.",
+      "",
+      "### Notes",
+      "1. First point",
+      "   - sub bullet with `code`",
+      "2. Second point",
+      "",
+      "| Metric | Value |",
+      "|---|---:|",
+      "| Hand speed | 18.2 m/s |",
+      "",
+      "> Keep the front side closed.",
+      "",
+      "---",
+      "Done.",
+    ].join("\n");
+    expect(parseMarkdown(md).map((b) => b.type)).toEqual(["heading", "paragraph", "heading", "list", "table", "blockquote", "hr", "paragraph"]);
+  });
+});
+
+describe("parseMarkdown on runaway input", () => {
+  /** Levels of quotes or lists down the first child, and the first block found under them. */
+  function nesting(blocks: Block[]): { depth: number; innermost: Block } {
+    let depth = 0;
+    let b = blocks[0];
+    for (;;) {
+      if (b.type === "blockquote") b = b.children[0];
+      else if (b.type === "list") b = b.items[0].children[0];
+      else return { depth, innermost: b };
+      depth++;
+    }
+  }
+
+  it("nests quotes 32 deep, then keeps the markers as text", () => {
+    const { depth, innermost } = nesting(parseMarkdown(`${"> ".repeat(3000)}x`));
+    expect(depth).toBe(32);
+    expect(innermost).toEqual({ type: "paragraph", children: [{ type: "text", text: `${"> ".repeat(2968)}x` }] });
+  });
+
+  it("nests lists 32 deep, then keeps the markers as text", () => {
+    const { depth, innermost } = nesting(parseMarkdown(`${"- ".repeat(3000)}x`));
+    expect(depth).toBe(32);
+    expect(innermost).toEqual({ type: "paragraph", children: [{ type: "text", text: `${"- ".repeat(2968)}x` }] });
+  });
+
+  // each "[" looks ahead a bounded distance for its "]"; scanning to the end would take seconds
+  it("reads long runs of unclosed brackets as text", () => {
+    expect(render("[".repeat(50_000))).toBe(`<p>${"[".repeat(50_000)}</p>`);
+    expect(render("[a](".repeat(12_500))).toBe(`<p>${"[a](".repeat(12_500)}</p>`);
+  });
+});
@@ -0,0 +1,775 @@
+// src/utils/markdown.ts
+
+/**
+ * Markdown to a small document tree, for laying reports out in the PDF.
+ * Covers CommonMark's blocks (ATX and setext headings, paragraphs, block
+ * quotes, bullet and ordered lists with nesting, fenced and indented code,
+ * thematic breaks, link reference definitions) and inlines (emphasis,
+ * strong, code spans, links, images, autolinks, escapes, entities, hard
+ * breaks), plus GFM tables, strikethrough and task list items. Raw HTML is
+ * kept as text. One deliberate leniency: a list marker indented past its
+ * parent's marker nests even when it sits short of the parent's content
+ * column, as hand-written and generated reports often indent that way.
+ */
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; title?: string; children: Inline[] }
+  | { type: "image"; src: string; alt: string }
+  | { type: "break" };
+
+export type Align = "left" | "center" | "right" | null;
+
+export type ListItem = { children: Block[]; /** task list items only */ checked?: boolean };
+
+export type Block =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; start: number; /** no blank lines between items */ tight: boolean; items: ListItem[] }
+  | { type: "blockquote"; children: Block[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "table"; align: Align[]; head: Inline[][]; rows: Inline[][][] }
+  | { type: "hr" };
+
+/* ------------------------------------------------------------------ */
+/* Blocks                                                              */
+/* ------------------------------------------------------------------ */
+
+/** Blocks before inline parsing: text stays raw until link definitions are all known. */
+type RawBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; raw: string }
+  | { type: "paragraph"; raw: string }
+  | { type: "list"; ordered: boolean; start: number; tight: boolean; items: Array<{ children: RawBlock[]; checked?: boolean }> }
+  | { type: "blockquote"; children: RawBlock[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "table"; align: Align[]; head: string[]; rows: string[][] }
+  | { type: "hr" };
+
+type LinkDef = { href: string; title?: string };
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const ATX = /^ {0,3}(#{1,6})(?=[ \t]|$)[ \t]*(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const HR = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+// Model output is parsed too, so the work per character is bounded: quotes and
+// lists nest this deep at most (deeper markers stay text), and a link's text
+// and destination are looked for only this far (CommonMark caps labels at 999
+// characters).
+const MAX_NESTING = 32;
+const MAX_LINK_TEXT = 1000;
+const MAX_LINK_DESTINATION = 2000;
+const LINK_DEF = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line);
+
+/** Leading tabs as spaces (tab stops of 4), which is all the indentation rules need. */
+function expandTabs(line: string): string {
+  const m = /^[ \t]*/.exec(line)![0];
+  if (!m.includes("\t")) return line;
+  let col = 0;
+  for (const c of m) col = c === "\t" ? col + 4 - (col % 4) : col + 1;
+  return " ".repeat(col) + line.slice(m.length);
+}
+
+const indentOf = (line: string) => /^ */.exec(line)![0].length;
+
+type Marker = { indent: number; bullet: string; ordered: boolean; start: number; content: number; text: string };
+
+function listMarker(line: string): Marker | null {
+  const m = LIST_ITEM.exec(line);
+  if (!m) return null;
+  const [, lead, marker, space = "", rest = ""] = m;
+  if (!space && rest) return null;
+  const ordered = /\d/.test(marker[0]);
+  // five or more spaces after the marker: one belongs to it, the rest indent code
+  const gap = !rest ? 1 : space.length > 4 ? 1 : space.length;
+  return {
+    indent: lead.length,
+    bullet: ordered ? marker[marker.length - 1] : marker,
+    ordered,
+    start: ordered ? parseInt(marker, 10) : 1,
+    content: lead.length + marker.length + gap,
+    text: space.length > 4 ? " ".repeat(space.length - 1) + rest : rest,
+  };
+}
+
+function splitRow(line: string): string[] {
+  let s = line.trim();
+  if (s.startsWith("|")) s = s.slice(1);
+  if (s.endsWith("|") && !s.endsWith("\\|")) s = s.slice(0, -1);
+  const cells: string[] = [];
+  let cell = "";
+  let code = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === "\\" && s[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (c === "`") {
+      let n = 1;
+      while (s[i + n] === "`") n++;
+      code = code === n ? 0 : code || n;
+      cell += s.slice(i, i + n);
+      i += n - 1;
+    } else if (c === "|" && !code) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function cellAlign(cell: string): Align {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+class BlockParser {
+  readonly defs = new Map<string, LinkDef>();
+  private depth = 0;
+
+  /** `gaps.loose` is set when a blank line separates two of the returned blocks. */
+  parse(lines: string[], gaps?: { loose: boolean }): RawBlock[] {
+    const out: RawBlock[] = [];
+    let para: string[] = [];
+    let blank = false;
+    const flush = () => {
+      if (para.length) this.paragraph(para, out);
+      para = [];
+    };
+
+    const nests = this.depth < MAX_NESTING;
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isBlank(line)) {
+        flush();
+        blank = out.length > 0;
+        i++;
+        continue;
+      }
+      if (blank && gaps) gaps.loose = true;
+
+      // indented code can't interrupt a paragraph
+      if (!para.length && indentOf(line) >= 4) {
+        const code: string[] = [];
+        while (i < lines.length && (indentOf(lines[i]) >= 4 || isBlank(lines[i]))) code.push(lines[i++].slice(4));
+        // trailing blanks are left for the loop, they separate blocks
+        while (code.length && isBlank(code[code.length - 1])) {
+          code.pop();
+          i--;
+        }
+        out.push({ type: "code", lang: "", text: code.join("\n") });
+        continue;
+      }
+
+      const fence = FENCE.exec(line);
+      if (fence && !(fence[2][0] === "`" && fence[3].includes("`"))) {
+        flush();
+        const [, lead, marker, info] = fence;
+        const close = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}[ \\t]*$`);
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !close.test(lines[i])) {
+          const l = lines[i++];
+          code.push(l.slice(Math.min(lead.length, indentOf(l))));
+        }
+        i++;
+        out.push({ type: "code", lang: info.split(/\s+/)[0] ?? "", text: code.join("\n") });
+        continue;
+      }
+
+      const atx = ATX.exec(line);
+      if (atx) {
+        flush();
+        out.push({ type: "heading", level: atx[1].length as 1 | 2 | 3 | 4 | 5 | 6, raw: atx[2] });
+        i++;
+        continue;
+      }
+
+      const setext = para.length ? SETEXT.exec(line) : null;
+      if (setext) {
+        // a run of definitions is not a heading's text
+        const rest = this.takeDefinitions(para);
+        if (rest.length) {
+          out.push({ type: "heading", level: setext[1][0] === "=" ? 1 : 2, raw: rest.join("\n") });
+          para = [];
+          i++;
+          continue;
+        }
+        para = [];
+      }
+
+      if (HR.test(line)) {
+        flush();
+        out.push({ type: "hr" });
+        i++;
+        continue;
+      }
+
+      if (i + 1 < lines.length && line.includes("|") && TABLE_DELIMITER.test(lines[i + 1])) {
+        const head = splitRow(line);
+        const align = splitRow(lines[i + 1]).map(cellAlign);
+        if (head.length === align.length) {
+          flush();
+          const rows: string[][] = [];
+          i += 2;
+          while (i < lines.length && !isBlank(lines[i]) && !this.startsBlock(lines[i])) {
+            const cells = splitRow(lines[i++]);
+            rows.push(align.map((_, c) => cells[c] ?? ""));
+          }
+          out.push({ type: "table", align, head, rows });
+          continue;
+        }
+      }
+
+      if (nests && QUOTE.test(line)) {
+        flush();
+        const inner: string[] = [];
+        while (i < lines.length) {
+          const l = lines[i];
+          if (QUOTE.test(l)) inner.push(expandTabs(l.replace(QUOTE, "")));
+          // lazy continuation of a quoted paragraph
+          else if (!isBlank(l) && inner.length && !isBlank(inner[inner.length - 1]) && !this.startsBlock(l)) inner.push(l);
+          else break;
+          i++;
+        }
+        out.push({ type: "blockquote", children: this.inner(inner) });
+        continue;
+      }
+
+      const marker = listMarker(line);
+      // a list interrupts a paragraph only with content, and ordered ones only from 1
+      if (nests && marker && (!para.length || (marker.text.trim() && (!marker.ordered || marker.start === 1)))) {
+        flush();
+        i = this.list(lines, i, marker, out);
+        continue;
+      }
+
+      // trailing spaces stay: two or more before the newline make a hard break
+      para.push(line.replace(/^ +/, ""));
+      i++;
+    }
+    flush();
+    return out;
+  }
+
+  /** Parse the content of a quote or list item, one level deeper. */
+  private inner(lines: string[], gaps?: { loose: boolean }): RawBlock[] {
+    this.depth++;
+    const blocks = this.parse(lines, gaps);
+    this.depth--;
+    return blocks;
+  }
+
+  /** Whether `line` opens a block that ends a paragraph (or a table, or a lazy quote line). */
+  private startsBlock(line: string): boolean {
+    if (FENCE.test(line) || ATX.test(line) || HR.test(line) || QUOTE.test(line)) return true;
+    const m = listMarker(line);
+    return !!m && indentOf(line) < 4 && !!m.text.trim() && (!m.ordered || m.start === 1);
+  }
+
+  private takeDefinitions(lines: string[]): string[] {
+    let n = 0;
+    while (n < lines.length) {
+      const m = LINK_DEF.exec(lines[n]);
+      if (!m) break;
+      const label = normalizeLabel(m[1]);
+      if (!this.defs.has(label)) {
+        const href = m[2].startsWith("<") ? m[2].slice(1, -1) : m[2];
+        this.defs.set(label, { href: unescape(href), title: m[3] ? unescape(m[3].slice(1, -1)) : undefined });
+      }
+      n++;
+    }
+    return lines.slice(n);
+  }
+
+  private paragraph(lines: string[], out: RawBlock[]) {
+    const rest = this.takeDefinitions(lines);
+    if (rest.length) out.push({ type: "paragraph", raw: rest.join("\n") });
+  }
+
+  /** Parse the list starting at `lines[start]`; returns the index after it. */
+  private list(lines: string[], start: number, first: Marker, out: RawBlock[]): number {
+    const items: Array<{ children: RawBlock[]; checked?: boolean }> = [];
+    let tight = true;
+    let i = start;
+    let marker: Marker | null = first;
+    // after the last non-blank line, so blanks after the list reach the caller
+    let end = i;
+
+    while (marker && marker.ordered === first.ordered && marker.bullet === first.bullet) {
+      const body = [marker.text];
+      let lastBlank = false;
+      i++;
+      end = i;
+      while (i < lines.length) {
+        const l = lines[i];
+        if (isBlank(l)) {
+          // an item that starts blank ends at the next blank line
+          if (body.length === 1 && !body[0].trim()) break;
+          body.push("");
+          lastBlank = true;
+          i++;
+          continue;
+        }
+        const indent = indentOf(l);
+        const nested = listMarker(l);
+        if (indent >= marker.content) {
+          body.push(l.slice(marker.content));
+        } else if (nested && indent > marker.indent && !lastBlank) {
+          // leniency: nested by the marker's own indent, short of the content column
+          body.push(l.slice(Math.min(indent, marker.content)));
+        } else if (!lastBlank && !this.startsBlock(l) && !nested && body.some((b) => b.trim())) {
+          // lazy continuation of the item's paragraph
+          body.push(l.replace(/^ +/, ""));
+        } else {
+          break;
+        }
+        lastBlank = false;
+        end = ++i;
+      }
+      // trailing blanks separate this item from the next, they don't belong to it
+      while (body.length && isBlank(body[body.length - 1])) body.pop();
+
+      let checked: boolean | undefined;
+      const task = /^\[([ xX])\](?:[ \t]+|$)/.exec(body[0]);
+      if (task) {
+        checked = task[1] !== " ";
+        body[0] = body[0].slice(task[0].length);
+      }
+      // loose when a blank line separates two of the item's own blocks
+      const gaps = { loose: false };
+      const children = this.inner(body, gaps);
+      if (gaps.loose) tight = false;
+      items.push(checked == null ? { children } : { children, checked });
+
+      const next = i < lines.length ? listMarker(lines[i]) : null;
+      const gap = lastBlank && i > start && isBlank(lines[i - 1]);
+      if (!next || next.indent >= 4 || HR.test(lines[i])) break;
+      if (next.ordered !== first.ordered || next.bullet !== first.bullet) break;
+      if (gap) tight = false;
+      marker = next;
+    }
+
+    out.push({ type: "list", ordered: first.ordered, start: first.start, tight, items });
+    return end;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Inlines                                                             */
+/* ------------------------------------------------------------------ */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  copy: "©",
+  reg: "®",
+  deg: "°",
+  middot: "·",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  times: "×",
+  plusmn: "±",
+};
+
+function decodeEntity(entity: string): string | null {
+  if (entity[1] === "#") {
+    const code = entity[2] === "x" || entity[2] === "X" ? parseInt(entity.slice(3, -1), 16) : parseInt(entity.slice(2, -1), 10);
+    return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "�";
+  }
+  return ENTITIES[entity.slice(1, -1)] ?? null;
+}
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+/** Backslash escapes and entities, for link destinations and titles. */
+function unescape(s: string): string {
+  return s.replace(/\\([!-/:-@[-`{-~])|&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z][a-zA-Z0-9]{1,31});/g, (m, esc) =>
+    esc ?? decodeEntity(m) ?? m
+  );
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+type Delim = { type: "delim"; char: "*" | "_" | "~"; count: number; length: number; canOpen: boolean; canClose: boolean };
+type Token = Inline | Delim;
+
+const isDelim = (t: Token): t is Delim => t.type === "delim";
+const isSpace = (c: string) => /\s/.test(c);
+const isPunct = (c: string) => /[\p{P}\p{S}]/u.test(c);
+
+/** End of the link text opened at `open` (the index of "]"), or -1. */
+function closingBracket(source: string, open: number): number {
+  const s = source.slice(open, open + MAX_LINK_TEXT);
+  let depth = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === "\\") i++;
+    else if (c === "`") {
+      let n = 1;
+      while (s[i + n] === "`") n++;
+      const end = s.indexOf("`".repeat(n), i + n);
+      if (end >= 0) i = end + n - 1;
+      else i += n - 1;
+    } else if (c === "[") depth++;
+    else if (c === "]" && --depth === 0) return open + i;
+  }
+  return -1;
+}
+
+/** `(destination "title")` at `at`: the link and where it ends, or null. */
+function inlineLink(source: string, at: number): { href: string; title?: string; end: number } | null {
+  const s = source.slice(at, at + MAX_LINK_DESTINATION);
+  if (s[0] !== "(") return null;
+  let i = 1;
+  while (isSpace(s[i] ?? "")) i++;
+  let href = "";
+  if (s[i] === "<") {
+    const end = s.indexOf(">", i);
+    if (end < 0 || s.slice(i, end).includes("\n")) return null;
+    href = s.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let depth = 0;
+    const from = i;
+    while (i < s.length && !isSpace(s[i])) {
+      if (s[i] === "\\") i++;
+      else if (s[i] === "(") depth++;
+      else if (s[i] === ")") {
+        if (!depth) break;
+        depth--;
+      }
+      i++;
+    }
+    href = s.slice(from, i);
+  }
+  while (isSpace(s[i] ?? "")) i++;
+  let title: string | undefined;
+  const quote = s[i];
+  if (quote === '"' || quote === "'" || quote === "(") {
+    const close = quote === "(" ? ")" : quote;
+    let j = i + 1;
+    while (j < s.length && s[j] !== close) j += s[j] === "\\" ? 2 : 1;
+    if (j >= s.length) return null;
+    title = unescape(s.slice(i + 1, j));
+    i = j + 1;
+    while (isSpace(s[i] ?? "")) i++;
+  }
+  if (s[i] !== ")") return null;
+  return { href: unescape(href), title, end: at + i + 1 };
+}
+
+function plainText(inlines: Inline[]): string {
+  return inlines
+    .map((n) =>
+      n.type === "text" || n.type === "code"
+        ? n.text
+        : n.type === "image"
+          ? n.alt
+          : n.type === "break"
+            ? " "
+            : "children" in n
+              ? plainText(n.children)
+              : ""
+    )
+    .join("");
+}
+
+class InlineParser {
+  private readonly defs: Map<string, LinkDef>;
+
+  constructor(defs: Map<string, LinkDef>) {
+    this.defs = defs;
+  }
+
+  parse(source: string): Inline[] {
+    const s = source.replace(/^[ \t]+|[ \t]+$/g, "");
+    const tokens: Token[] = [];
+    let text = "";
+    const pushText = (t: string) => (text += t);
+    const flushText = () => {
+      if (text) tokens.push({ type: "text", text });
+      text = "";
+    };
+
+    let i = 0;
+    while (i < s.length) {
+      const c = s[i];
+
+      if (c === "\\") {
+        if (s[i + 1] === "\n") {
+          flushText();
+          tokens.push({ type: "break" });
+          i += 2;
+          while (s[i] === " ") i++;
+        } else if (ESCAPABLE.test(s[i + 1] ?? "")) {
+          pushText(s[i + 1]);
+          i += 2;
+        } else {
+          pushText(c);
+          i++;
+        }
+        continue;
+      }
+
+      if (c === "`") {
+        let n = 1;
+        while (s[i + n] === "`") n++;
+        let end = -1;
+        for (let j = i + n; j < s.length; ) {
+          const k = s.indexOf("`".repeat(n), j);
+          if (k < 0) break;
+          let m = n;
+          while (s[k + m] === "`") m++;
+          if (m === n) {
+            end = k;
+            break;
+          }
+          j = k + m;
+        }
+        if (end < 0) {
+          pushText(s.slice(i, i + n));
+          i += n;
+          continue;
+        }
+        let code = s.slice(i + n, end).replace(/\n/g, " ");
+        // one space each side is padding, so a span can start or end with a backtick
+        if (code.startsWith(" ") && code.endsWith(" ") && code.trim()) code = code.slice(1, -1);
+        flushText();
+        tokens.push({ type: "code", text: code });
+        i = end + n;
+        continue;
+      }
+
+      if (c === "&") {
+        const m = /^&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z][a-zA-Z0-9]{1,31});/.exec(s.slice(i));
+        const decoded = m ? decodeEntity(m[0]) : null;
+        if (m && decoded != null) {
+          pushText(decoded);
+          i += m[0].length;
+          continue;
+        }
+      }
+
+      if (c === "<") {
+        const m = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/.exec(s.slice(i)) ?? /^<([^\s@<>\\]+@[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+)>/.exec(s.slice(i));
+        if (m) {
+          flushText();
+          const href = m[1].includes(":") ? m[1] : `mailto:${m[1]}`;
+          tokens.push({ type: "link", href, children: [{ type: "text", text: m[1] }] });
+          i += m[0].length;
+          continue;
+        }
+      }
+
+      if (c === "[" || (c === "!" && s[i + 1] === "[")) {
+        const image = c === "!";
+        const open = image ? i + 1 : i;
+        const close = closingBracket(s, open);
+        if (close > 0) {
+          const label = s.slice(open + 1, close);
+          const link = this.link(s, close + 1, label);
+          if (link) {
+            const children = this.parse(label);
+            flushText();
+            tokens.push(
+              image
+                ? { type: "image", src: link.href, alt: plainText(children) }
+                : { type: "link", href: link.href, title: link.title, children: children.some(hasLink) ? flattenLinks(children) : children }
+            );
+            i = link.end;
+            continue;
+          }
+        }
+        pushText(image ? "![" : "[");
+        i = open + 1;
+        continue;
+      }
+
+      if (c === "*" || c === "_" || c === "~") {
+        let n = 1;
+        while (s[i + n] === c) n++;
+        if (c === "~" && n > 2) {
+          pushText(s.slice(i, i + n));
+          i += n;
+          continue;
+        }
+        const before = i > 0 ? s[i - 1] : " ";
+        const after = i + n < s.length ? s[i + n] : " ";
+        const left = !isSpace(after) && (!isPunct(after) || isSpace(before) || isPunct(before));
+        const right = !isSpace(before) && (!isPunct(before) || isSpace(after) || isPunct(after));
+        flushText();
+        tokens.push({
+          type: "delim",
+          char: c,
+          count: n,
+          length: n,
+          canOpen: c === "_" ? left && (!right || isPunct(before)) : left,
+          canClose: c === "_" ? right && (!left || isPunct(after)) : right,
+        });
+        i += n;
+        continue;
+      }
+
+      if (c === "\n") {
+        // trailing spaces counted from the end: a regex would rescan the whole run of text
+        let end = text.length;
+        while (text[end - 1] === " ") end--;
+        const hard = text.length - end >= 2;
+        text = text.slice(0, end);
+        if (hard) {
+          flushText();
+          tokens.push({ type: "break" });
+        } else {
+          pushText(" ");
+        }
+        i++;
+        while (s[i] === " ") i++;
+        continue;
+      }
+
+      pushText(c);
+      i++;
+    }
+    flushText();
+    return finish(emphasis(tokens));
+  }
+
+  /** A link's destination after its text: inline, full, collapsed or shortcut reference. */
+  private link(s: string, at: number, label: string): { href: string; title?: string; end: number } | null {
+    const inline = inlineLink(s, at);
+    if (inline) return inline;
+    if (s[at] === "[") {
+      const close = at + s.slice(at, at + MAX_LINK_TEXT).indexOf("]");
+      if (close > at) {
+        const ref = s.slice(at + 1, close);
+        const def = this.defs.get(normalizeLabel(ref || label));
+        if (def) return { ...def, end: close + 1 };
+        if (ref) return null;
+      }
+    }
+    const def = this.defs.get(normalizeLabel(label));
+    return def ? { ...def, end: at } : null;
+  }
+}
+
+const hasLink = (n: Inline): boolean => n.type === "link" || ("children" in n && n.children.some(hasLink));
+
+/** Links can't nest; an inner link keeps only its text. */
+function flattenLinks(nodes: Inline[]): Inline[] {
+  return nodes.flatMap((n) =>
+    n.type === "link" ? flattenLinks(n.children) : "children" in n ? [{ ...n, children: flattenLinks(n.children) }] : [n]
+  );
+}
+
+/** Pair emphasis delimiters, innermost first, as CommonMark's "process emphasis" does. */
+function emphasis(tokens: Token[]): Token[] {
+  for (let c = 0; c < tokens.length; c++) {
+    const closer = tokens[c];
+    if (!isDelim(closer) || !closer.canClose || !closer.count) continue;
+    let o = c - 1;
+    for (; o >= 0; o--) {
+      const opener = tokens[o];
+      if (!isDelim(opener) || opener.char !== closer.char || !opener.canOpen || !opener.count) continue;
+      if (closer.char === "~") {
+        if (opener.count === closer.count) break;
+        continue;
+      }
+      // the "rule of 3" keeps *foo**bar* from pairing the wrong runs
+      const both = opener.canClose || closer.canOpen;
+      if (both && (opener.length + closer.length) % 3 === 0 && !(opener.length % 3 === 0 && closer.length % 3 === 0)) continue;
+      break;
+    }
+    if (o < 0) continue;
+    const opener = tokens[o] as Delim;
+    const use = closer.char === "~" ? opener.count : opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const type = closer.char === "~" ? "del" : use === 2 ? "strong" : "em";
+    const node: Inline = { type, children: finish(tokens.slice(o + 1, c)) };
+    opener.count -= use;
+    closer.count -= use;
+    tokens.splice(o + 1, c - o - 1, node);
+    c = o + 2;
+    if (!opener.count) {
+      tokens.splice(o, 1);
+      c--;
+    }
+    if (!closer.count) tokens.splice(c, 1);
+    c--;
+  }
+  return tokens;
+}
+
+/** Unpaired delimiters back to text, and neighbouring text merged. */
+function finish(tokens: Token[]): Inline[] {
+  const out: Inline[] = [];
+  for (const t of tokens) {
+    const node: Inline = isDelim(t) ? { type: "text", text: t.char.repeat(t.count) } : t;
+    if (node.type === "text" && !node.text) continue;
+    const prev = out[out.length - 1];
+    if (node.type === "text" && prev?.type === "text") out[out.length - 1] = { type: "text", text: prev.text + node.text };
+    else out.push(node);
+  }
+  return out;
+}
+
+/* ------------------------------------------------------------------ */
+/* Entry point                                                         */
+/* ------------------------------------------------------------------ */
+
+function resolve(blocks: RawBlock[], inline: InlineParser): Block[] {
+  return blocks.map((b): Block => {
+    switch (b.type) {
+      case "heading":
+        return { type: "heading", level: b.level, children: inline.parse(b.raw) };
+      case "paragraph":
+        return { type: "paragraph", children: inline.parse(b.raw) };
+      case "list":
+        return {
+          ...b,
+          items: b.items.map((item) => ({ ...item, children: resolve(item.children, inline) })),
+        };
+      case "blockquote":
+        return { type: "blockquote", children: resolve(b.children, inline) };
+      case "table":
+        return {
+          type: "table",
+          align: b.align,
+          head: b.head.map((cell) => inline.parse(cell)),
+          rows: b.rows.map((row) => row.map((cell) => inline.parse(cell))),
+        };
+      default:
+        return b;
+    }
+  });
+}
+
+/** Parse markdown into blocks of inlines. */
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").replace(/\0/g, "�").split("\n").map(expandTabs);
+  const blocks = new BlockParser();
+  const raw = blocks.parse(lines);
+  return resolve(raw, new InlineParser(blocks.defs));
+}
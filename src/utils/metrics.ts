@@ -0,0 +1,207 @@
+// src/utils/metrics.ts
+import type { Row, RowsBySheet } from "./excel";
+import { captureStart, findChannel, findSheet, findTriplet } from "./channels";
+import { analyzeSequence } from "./sequence";
+import type { SegmentId } from "./sequence";
+import { detectEvents, eventTime, separationSignal } from "./events";
+import { DERIVED_PREFIX } from "./jointAngles";
+
+/**
+ * Scalar summary of one rep — the numbers players remember and compare —
+ * computed from the parsed workbook. Each metric carries the moment it was
+ * read at, so the UI can jump there.
+ */
+
+export type MetricId =
+  | "pelvisPeak"
+  | "torsoPeak"
+  | "armPeak"
+  | "handPeak"
+  | "pelvisAfterPlant"
+  | "torsoAfterPlant"
+  | "armAfterPlant"
+  | "plantToStrike"
+  | "strideLength"
+  | "cogDisplacement"
+  | "maxSeparation"
+  | "kneeAtPlant";
+
+export type MetricGroup = "Peak velocity" | "Timing" | "Stride" | "Posture";
+
+export type SessionMetric = {
+  id: MetricId;
+  label: string;
+  group: MetricGroup;
+  value: number;
+  unit: string;
+  /** decimals worth showing */
+  digits: number;
+  /** Excel seconds (joint sheet clock) the value was read at */
+  t: number;
+  /** which way counts as an improvement; absent when neither does */
+  better?: "higher" | "lower";
+};
+
+const PEAK_ID: Record<SegmentId, MetricId> = {
+  pelvis: "pelvisPeak",
+  torso: "torsoPeak",
+  arm: "armPeak",
+  hand: "handPeak",
+};
+const AFTER_PLANT_ID: Partial<Record<SegmentId, MetricId>> = {
+  pelvis: "pelvisAfterPlant",
+  torso: "torsoAfterPlant",
+  arm: "armAfterPlant",
+};
+
+/** Row nearest to `t` (seconds from `t0`, the capture clock's zero). */
+function rowAt(rows: Row[], t: number, t0: number): Row | null {
+  if (!rows.length) return null;
+  let best = rows[0];
+  for (const r of rows) if (Math.abs(r.t - t0 - t) < Math.abs(best.t - t0 - t)) best = r;
+  return best;
+}
+
+/** Fold an angle into −180…180 (the vendor's channels can wind past a full turn). */
+function wrap180(d: number): number {
+  return ((((d + 180) % 360) + 360) % 360) - 180;
+}
+
+/** Horizontal (x/y; z is up) distance between two points read from one row. */
+function horizontal(row: Row, a: string[], b: string[]): number {
+  return Math.hypot(row[a[0]] - row[b[0]], row[a[1]] - row[b[1]]);
+}
+
+/**
+ * Metrics that can be worked out for this workbook, in display order.
+ * Timings use `detection` when given (e.g. with hand-placed events).
+ */
+export function computeMetrics(sets: RowsBySheet, detection = detectEvents(sets)): SessionMetric[] {
+  const out: SessionMetric[] = [];
+  const seq = analyzeSequence(sets, detection?.leadSide);
+  const t0 = captureStart(sets);
+  const plant = detection ? eventTime(detection, "footPlant") : null;
+  const lift = detection ? eventTime(detection, "footLift") : null;
+  const strike = detection
+    ? eventTime(detection, "contact") ?? eventTime(detection, "release")
+    : null;
+  const strikeLabel = detection?.movement === "hitter" ? "contact" : "release";
+
+  // Peak velocities, and how long after foot plant each one fires
+  for (const seg of seq?.segments ?? []) {
+    const what = seg.label.toLowerCase();
+    out.push({
+      id: PEAK_ID[seg.id],
+      label: seg.kind === "angular" ? `Peak ${what} rotation` : `Peak ${what} speed`,
+      group: "Peak velocity",
+      value: Math.abs(seg.peakValue),
+      unit: seg.unit,
+      digits: seg.kind === "angular" ? 0 : 1,
+      t: seg.peakTime,
+      better: "higher",
+    });
+  }
+  if (plant != null) {
+    for (const seg of seq?.segments ?? []) {
+      const id = AFTER_PLANT_ID[seg.id];
+      if (!id) continue;
+      out.push({
+        id,
+        label: `Plant → peak ${seg.label.toLowerCase()}`,
+        group: "Timing",
+        value: (seg.peakTime - plant) * 1000,
+        unit: "ms",
+        digits: 0,
+        t: seg.peakTime,
+      });
+    }
+    if (strike != null) {
+      out.push({
+        id: "plantToStrike",
+        label: `Plant → ${strikeLabel}`,
+        group: "Timing",
+        value: (strike - plant) * 1000,
+        unit: "ms",
+        digits: 0,
+        t: strike,
+        better: "lower",
+      });
+    }
+  }
+
+  const jointSheet = findSheet(sets, /joint.*position/i);
+  const rows = jointSheet ? sets[jointSheet] : [];
+
+  // Stride: ankle to ankle at foot plant
+  const ankleL = findTriplet(rows, "/Joint/Ankle/Left");
+  const ankleR = findTriplet(rows, "/Joint/Ankle/Right");
+  const plantRow = plant != null ? rowAt(rows, plant, t0) : null;
+  if (plant != null && plantRow && ankleL && ankleR) {
+    const d = horizontal(plantRow, ankleL, ankleR);
+    if (Number.isFinite(d)) {
+      out.push({
+        id: "strideLength",
+        label: "Stride length",
+        group: "Stride",
+        value: d,
+        unit: "m",
+        digits: 2,
+        t: plant,
+        better: "higher",
+      });
+    }
+  }
+
+  // Centre of gravity: horizontal travel from foot lift (or the start) to contact/release
+  const cog = findTriplet(rows, "/Calc/CenterOfGravity");
+  if (cog && strike != null) {
+    const from = rowAt(rows, lift ?? 0, t0);
+    const to = rowAt(rows, strike, t0);
+    const d = from && to ? Math.hypot(to[cog[0]] - from[cog[0]], to[cog[1]] - from[cog[1]]) : NaN;
+    if (Number.isFinite(d)) {
+      out.push({
+        id: "cogDisplacement",
+        label: `COG travel to ${strikeLabel}`,
+        group: "Stride",
+        value: d,
+        unit: "m",
+        digits: 2,
+        t: strike,
+        better: "higher",
+      });
+    }
+  }
+
+  // Hip–shoulder separation at its detected maximum
+  const sepT = detection ? eventTime(detection, "maxSeparation") : null;
+  const sep = sepT != null ? separationSignal(sets) : null;
+  if (sep && sepT != null) {
+    const i = sep.t.indexOf(sepT);
+    if (i >= 0 && Number.isFinite(sep.v[i])) {
+      out.push({
+        id: "maxSeparation",
+        label: "Max hip–shoulder separation",
+        group: "Posture",
+        value: Math.abs(wrap180(sep.v[i])),
+        unit: "°",
+        digits: 0,
+        t: sepT,
+        better: "higher",
+      });
+    }
+  }
+
+  // Lead knee flexion at foot plant: vendor channel, else the derived angle
+  if (plant != null) {
+    const calcSheet = findSheet(sets, /baseball.*data/i, /calc/i);
+    const calcKey = calcSheet ? findChannel(sets[calcSheet], /\/Calc\/Knee\/Lead\/FlexionExtension_x$/i) : null;
+    let v = NaN;
+    if (calcSheet && calcKey) v = rowAt(sets[calcSheet], plant, t0)?.[calcKey] ?? NaN;
+    else if (detection?.leadSide && plantRow) v = plantRow[`${DERIVED_PREFIX}${detection.leadSide}/KneeFlexion`] ?? NaN;
+    if (Number.isFinite(v)) {
+      out.push({ id: "kneeAtPlant", label: "Lead knee flexion at plant", group: "Posture", value: v, unit: "°", digits: 0, t: plant });
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,298 @@
+// src/utils/norms.ts
+import type { Row, RowsBySheet } from "./excel";
+import { parseExcelUrlToDataSets } from "./excel";
+import { captureStart, channelSignal } from "./channels";
+import { detectEvents, eventTime } from "./events";
+import type { EventDetection, MovementType } from "./events";
+import { withJointAngles } from "./jointAngles";
+import { DEFAULT_FPS } from "./frameRate";
+
+/**
+ * Normative reference data: per channel, the mean ± SD of a group of reps
+ * (the roster, or an imported dataset) sampled on a phase grid, so reps of
+ * different lengths line up event to event. A session draws the band by
+ * mapping the grid back onto its own clock through its own events.
+ */
+
+/**
+ * How a rep's time maps to phase:
+ * - `events`: foot lift = 0, foot plant = 0.5, contact/release = 1 (piecewise linear)
+ * - `strike`: seconds from contact/release
+ * - `duration`: 0–1 over the joint sheet
+ */
+export type NormScheme = "events" | "strike" | "duration";
+
+export const NORM_SCHEMES: Array<{ value: NormScheme; label: string }> = [
+  { value: "events", label: "Lift → plant → strike" },
+  { value: "strike", label: "Seconds from strike" },
+  { value: "duration", label: "Whole trial" },
+];
+
+/** Phase is piecewise linear in Excel time through these knots (increasing in both). */
+export type PhaseKnot = { t: number; u: number };
+
+export type NormStats = { mean: number[]; sd: number[]; n: number[] };
+
+/** Stats for every movement, or only one; `any` applies whatever the rep. */
+export type NormGroup = MovementType | "any";
+
+export type NormDataset = {
+  id: string;
+  label: string;
+  scheme: NormScheme;
+  /** phase of each sample in the stats arrays */
+  grid: number[];
+  /** per group, keyed by `normKey(sheet, channel)` */
+  stats: Partial<Record<NormGroup, Record<string, NormStats>>>;
+  /** reps that went in */
+  count: number;
+};
+
+/** One point of a band on a session's clock (Excel seconds). */
+export type BandPoint = { t: number; lo: number; hi: number; mean: number };
+
+const GRID_POINTS = 101;
+const GRID_RANGE: Record<NormScheme, [number, number]> = {
+  // half a lift→plant phase of lead-in and follow-through either side
+  events: [-0.5, 1.5],
+  strike: [-1.5, 0.5],
+  duration: [0, 1],
+};
+
+export function normKey(sheet: string, channel: string): string {
+  return `${sheet}::${channel}`;
+}
+
+export function phaseGrid(scheme: NormScheme): number[] {
+  const [a, b] = GRID_RANGE[scheme];
+  return Array.from({ length: GRID_POINTS }, (_, i) => a + ((b - a) * i) / (GRID_POINTS - 1));
+}
+
+/** Knots for a rep under `scheme`, or null when the events it needs were not detected. */
+export function phaseKnots(detection: EventDetection | null, scheme: NormScheme): PhaseKnot[] | null {
+  if (!detection) return null;
+  const strike = eventTime(detection, "contact") ?? eventTime(detection, "release");
+  if (scheme === "duration") return detection.duration > 0 ? [{ t: 0, u: 0 }, { t: detection.duration, u: 1 }] : null;
+  if (strike == null) return null;
+  if (scheme === "strike") return [{ t: strike, u: 0 }, { t: strike + 1, u: 1 }];
+  const lift = eventTime(detection, "footLift");
+  const plant = eventTime(detection, "footPlant");
+  if (lift == null || plant == null || !(lift < plant && plant < strike)) return null;
+  return [
+    { t: lift, u: 0 },
+    { t: plant, u: 0.5 },
+    { t: strike, u: 1 },
+  ];
+}
+
+/** Piecewise-linear lookup through (xs, ys), extended past the ends along the end segments. */
+function interpKnots(xs: number[], ys: number[], x: number): number {
+  const n = xs.length;
+  let i = 0;
+  while (i < n - 2 && x > xs[i + 1]) i++;
+  return ys[i] + ((x - xs[i]) * (ys[i + 1] - ys[i])) / (xs[i + 1] - xs[i]);
+}
+
+export function toPhase(knots: PhaseKnot[], t: number): number {
+  return interpKnots(knots.map((k) => k.t), knots.map((k) => k.u), t);
+}
+
+export function fromPhase(knots: PhaseKnot[], u: number): number {
+  return interpKnots(knots.map((k) => k.u), knots.map((k) => k.t), u);
+}
+
+/** Axis label for a phase: `0.5` → `50%`. */
+export function formatPhase(u: number): string {
+  return `${Math.round(u * 100)}%`;
+}
+
+/** Round-percent ticks covering [lo, hi] (phases), about five to eight of them. */
+export function phaseTicks(lo: number, hi: number): number[] {
+  const span = (hi - lo) * 100;
+  const step = span > 300 ? 1 : span > 150 ? 0.5 : span > 60 ? 0.25 : 0.1;
+  const out: number[] = [];
+  for (let u = Math.ceil(lo / step - 1e-9) * step; u <= hi + 1e-9; u += step) out.push(Math.round(u * 1000) / 1000);
+  return out;
+}
+
+/** Channels with at least one finite value (time columns excluded). */
+function numericKeys(rows: Row[]): string[] {
+  const keys = new Set<string>();
+  for (const r of rows) {
+    for (const k in r) if (k !== "t" && Number.isFinite(r[k])) keys.add(k);
+  }
+  return [...keys];
+}
+
+type Sums = { sum: Float64Array; sumSq: Float64Array; n: Float64Array };
+
+/** Running mean/SD per channel and grid point over any number of reps. */
+export function createNormAccumulator(scheme: NormScheme) {
+  const grid = phaseGrid(scheme);
+  const groups = new Map<NormGroup, Map<string, Sums>>();
+  let count = 0;
+
+  return {
+    /** Add one rep; false when the events the scheme needs were not found. */
+    add(sets: RowsBySheet): boolean {
+      const detection = detectEvents(sets);
+      const knots = phaseKnots(detection, scheme);
+      if (!detection || !knots) return false;
+      const times = grid.map((u) => fromPhase(knots, u));
+
+      let group = groups.get(detection.movement);
+      if (!group) groups.set(detection.movement, (group = new Map()));
+      const t0 = captureStart(sets);
+      for (const [sheet, rows] of Object.entries(sets)) {
+        for (const key of numericKeys(rows)) {
+          const sig = channelSignal(rows, key, t0);
+          if (sig.t.length < 2) continue;
+          const id = normKey(sheet, key);
+          let sums = group.get(id);
+          if (!sums) {
+            sums = { sum: new Float64Array(grid.length), sumSq: new Float64Array(grid.length), n: new Float64Array(grid.length) };
+            group.set(id, sums);
+          }
+          // grid times increase, so one pass over the samples
+          let j = 0;
+          for (let i = 0; i < times.length; i++) {
+            const t = times[i];
+            if (t < sig.t[0] || t > sig.t[sig.t.length - 1]) continue;
+            while (j < sig.t.length - 2 && sig.t[j + 1] < t) j++;
+            const span = sig.t[j + 1] - sig.t[j];
+            const v = span > 0 ? sig.v[j] + ((t - sig.t[j]) * (sig.v[j + 1] - sig.v[j])) / span : sig.v[j];
+            sums.sum[i] += v;
+            sums.sumSq[i] += v * v;
+            sums.n[i]++;
+          }
+        }
+      }
+      count++;
+      return true;
+    },
+
+    result(id: string, label: string): NormDataset {
+      const stats: NormDataset["stats"] = {};
+      for (const [movement, group] of groups) {
+        const out: Record<string, NormStats> = {};
+        for (const [key, { sum, sumSq, n }] of group) {
+          const mean = grid.map((_, i) => (n[i] >= 2 ? sum[i] / n[i] : NaN));
+          const sd = grid.map((_, i) =>
+            n[i] >= 2 ? Math.sqrt(Math.max(0, (sumSq[i] - (sum[i] * sum[i]) / n[i]) / (n[i] - 1))) : NaN
+          );
+          out[key] = { mean, sd, n: Array.from(n) };
+        }
+        stats[movement] = out;
+      }
+      return { id, label, scheme, grid, stats, count };
+    },
+  };
+}
+
+/**
+ * Build a dataset from many sessions, one workbook at a time. `excelOf`
+ * resolves each source to its Excel URL (null: skip it); sources that fail
+ * to load or lack the events are skipped. Throws an AbortError when
+ * `opts.signal` fires.
+ */
+export async function buildNormDataset(
+  sources: string[],
+  excelOf: (source: string) => Promise<string | null>,
+  opts: {
+    id: string;
+    label: string;
+    scheme: NormScheme;
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<NormDataset> {
+  const acc = createNormAccumulator(opts.scheme);
+  for (let i = 0; i < sources.length; i++) {
+    opts.signal?.throwIfAborted();
+    try {
+      const url = await excelOf(sources[i]);
+      if (url) acc.add(withJointAngles(await parseExcelUrlToDataSets(url, DEFAULT_FPS)));
+    } catch (err) {
+      console.warn(`Norms: skipped ${sources[i]}:`, err);
+    }
+    opts.onProgress?.(i + 1, sources.length);
+  }
+  opts.signal?.throwIfAborted();
+  return acc.result(opts.id, opts.label);
+}
+
+/** A channel's band on a session's clock, or null when the dataset has no stats for it. */
+export function normBand(
+  dataset: NormDataset,
+  movement: MovementType,
+  sheet: string,
+  channel: string,
+  knots: PhaseKnot[]
+): BandPoint[] | null {
+  const key = normKey(sheet, channel);
+  const stats = dataset.stats[movement]?.[key] ?? dataset.stats.any?.[key];
+  if (!stats) return null;
+  const out: BandPoint[] = [];
+  dataset.grid.forEach((u, i) => {
+    const mean = stats.mean[i];
+    const sd = stats.sd[i];
+    const t = fromPhase(knots, u);
+    if (Number.isFinite(mean) && Number.isFinite(sd) && t >= 0) out.push({ t, lo: mean - sd, hi: mean + sd, mean });
+  });
+  return out.length > 1 ? out : null;
+}
+
+/* -------------------- import / export -------------------- */
+
+const round = (v: number) => (Number.isFinite(v) ? Number(v.toPrecision(5)) : null);
+
+/** JSON for a dataset (NaN written as null; 5 significant digits). */
+export function serializeNorms(dataset: NormDataset): string {
+  const stats: Record<string, Record<string, { mean: Array<number | null>; sd: Array<number | null>; n: number[] }>> = {};
+  for (const [group, byKey] of Object.entries(dataset.stats)) {
+    stats[group] = {};
+    for (const [key, s] of Object.entries(byKey ?? {})) {
+      stats[group][key] = { mean: s.mean.map(round), sd: s.sd.map(round), n: s.n };
+    }
+  }
+  const { label, scheme, grid, count } = dataset;
+  return JSON.stringify({ label, scheme, grid: grid.map(round), count, stats });
+}
+
+/**
+ * Read a dataset from JSON: `{ label?, scheme, grid, stats: { <group>: {
+ * "<sheet>::<channel>": { mean, sd, n? } } } }`, groups being `pitcher`,
+ * `hitter`, `unknown` or `any`. Throws with a readable message if malformed.
+ */
+export function parseNorms(text: string, id: string, fallbackLabel: string): NormDataset {
+  const raw = JSON.parse(text);
+  if (!raw || typeof raw !== "object") throw new Error("Not a norms dataset");
+  if (!NORM_SCHEMES.some((s) => s.value === raw.scheme)) throw new Error(`Unknown scheme "${raw.scheme}"`);
+  if (!Array.isArray(raw.grid) || raw.grid.length < 2) throw new Error("Missing phase grid");
+  const grid: number[] = raw.grid.map(Number);
+  const nums = (a: unknown) => (Array.isArray(a) ? a.map((v) => (v == null ? NaN : Number(v))) : null);
+
+  const stats: NormDataset["stats"] = {};
+  for (const [group, byKey] of Object.entries(raw.stats ?? {})) {
+    if (!["pitcher", "hitter", "unknown", "any"].includes(group)) throw new Error(`Unknown group "${group}"`);
+    const out: Record<string, NormStats> = {};
+    for (const [key, s] of Object.entries(byKey as Record<string, { mean?: unknown; sd?: unknown; n?: unknown }>)) {
+      const mean = nums(s?.mean);
+      const sd = nums(s?.sd);
+      if (!mean || !sd || mean.length !== grid.length || sd.length !== grid.length) {
+        throw new Error(`"${key}": mean and sd need one value per grid point`);
+      }
+      out[key] = { mean, sd, n: nums(s?.n) ?? grid.map(() => NaN) };
+    }
+    stats[group as NormGroup] = out;
+  }
+  if (!Object.keys(stats).length) throw new Error("No channel statistics");
+  return {
+    id,
+    label: typeof raw.label === "string" && raw.label ? raw.label : fallbackLabel,
+    scheme: raw.scheme,
+    grid,
+    stats,
+    count: Number(raw.count) || 0,
+  };
+}
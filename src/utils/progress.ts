@@ -0,0 +1,52 @@
+// src/utils/progress.ts
+import { parseExcelUrlToDataSets } from "./excel";
+import { withJointAngles } from "./jointAngles";
+import { classifyMovement } from "./events";
+import type { MovementType } from "./events";
+import { computeMetrics } from "./metrics";
+import type { SessionMetric } from "./metrics";
+import { DEFAULT_FPS } from "./frameRate";
+
+/**
+ * Per-session metric summaries for views that span many sessions (a player's
+ * progress over time, the roster). Each workbook is fetched and parsed once
+ * per page load; the numbers are the same ones the metrics panel shows.
+ */
+
+export type SessionSummary = {
+  movement: MovementType;
+  metrics: SessionMetric[];
+};
+
+const cache = new Map<string, Promise<SessionSummary>>();
+
+/** Fetch, parse and summarise one session's Excel file (cached by URL). */
+export function loadSessionSummary(excelUrl: string): Promise<SessionSummary> {
+  let pending = cache.get(excelUrl);
+  if (!pending) {
+    pending = parseExcelUrlToDataSets(excelUrl, DEFAULT_FPS).then((raw) => {
+      const sets = withJointAngles(raw);
+      return { movement: classifyMovement(sets), metrics: computeMetrics(sets) };
+    });
+    // a failed fetch may succeed later (e.g. a file added since)
+    pending.catch(() => cache.delete(excelUrl));
+    cache.set(excelUrl, pending);
+  }
+  return pending;
+}
+
+/**
+ * Capture date from a session folder name (`2025-08-31`, `2025-10-21 (Hitter)`),
+ * as a UTC timestamp. Day and month swapped (`2025-25-08`) are read the only
+ * way they can be; names without a date give null.
+ */
+export function sessionDate(name: string): number | null {
+  const m = /(\d{4})-(\d{1,2})-(\d{1,2})/.exec(name);
+  if (!m) return null;
+  const year = +m[1];
+  let month = +m[2];
+  let day = +m[3];
+  if (month > 12 && day <= 12) [month, day] = [day, month];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return Date.UTC(year, month - 1, day);
+}
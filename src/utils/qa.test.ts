@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import { offlineProvider } from "./ai";
+import type { ChatMessage } from "./ai";
+import { runTool } from "./dataQuery";
+import type { QueryContext } from "./dataQuery";
+import type { Row } from "./excel";
+import type { EventDetection } from "./events";
+import { askSession, offlineAnswer } from "./qa";
+import type { QAStep } from "./qa";
+
+const KNEE = "Joint::/Joint/LeftKnee_velocity|magnitude";
+const PELVIS = "Joint::/Calc/Pelvis/Twist/Velocity_x";
+
+const bump = (t: number, at: number, height: number) => height * Math.exp(-(((t - at) / 0.1) ** 2));
+
+/** Two seconds at 100 Hz: a left knee speed peak (x/y/z) and a pelvis rotation peak. */
+function session(kneePeak: { t: number; v: number }, pelvisPeak: { t: number; v: number }): Row[] {
+  return Array.from({ length: 201 }, (_, i) => {
+    const t = i / 100;
+    const knee = bump(t, kneePeak.t, kneePeak.v);
+    return {
+      t,
+      "/Joint/LeftKnee_x_velocity": 0.6 * knee,
+      "/Joint/LeftKnee_y_velocity": 0.8 * knee,
+      "/Joint/LeftKnee_z_velocity": 0,
+      "/Calc/Pelvis/Twist/Velocity_x": bump(t, pelvisPeak.t, pelvisPeak.v),
+    };
+  });
+}
+
+const detection = (footPlant: number, release: number): EventDetection => ({
+  movement: "pitcher",
+  leadSide: "Left",
+  duration: 2,
+  events: [
+    { id: "footPlant", label: "Foot plant", short: "FP", color: "#3ddc97", t: footPlant },
+    { id: "release", label: "Ball release", short: "REL", color: "#ff6b6b", t: release },
+  ],
+});
+
+const other: QueryContext & { label: string } = {
+  label: "2025-08-20",
+  sets: { Joint: session({ t: 1.25, v: 4.5 }, { t: 1.05, v: 700 }) },
+  detection: detection(1.2, 1.4),
+  metrics: [],
+};
+
+const ctx: QueryContext = {
+  sets: { Joint: session({ t: 1.2, v: 5 }, { t: 1.0, v: 800 }) },
+  detection: detection(1.1, 1.3),
+  metrics: [],
+  other,
+};
+
+const ask = (question: string, history: ChatMessage[] = []) => askSession(offlineProvider(offlineAnswer), ctx, history, question);
+
+describe("runTool", () => {
+  it("finds a joint's speed by description", () => {
+    const r = runTool(ctx, { tool: "find_channels", args: { query: "left knee speed", limit: 1 } });
+    expect(r).toEqual({ channels: [{ id: KNEE, label: "Left Knee speed", unit: "m/s" }] });
+  });
+
+  it("reads a peak and when it happened, relative to each event", () => {
+    expect(runTool(ctx, { tool: "peak", args: { channel: "left knee speed" } })).toEqual({
+      channel: { id: KNEE, label: "Left Knee speed", unit: "m/s" },
+      kind: "abs",
+      value: 5,
+      t: 1.2,
+      sinceEvents: { "Foot plant": 0.1, "Ball release": -0.1 },
+    });
+  });
+
+  it("limits a peak to the time between events", () => {
+    const r = runTool(ctx, { tool: "peak", args: { channel: PELVIS, from: "release", to: 2 } }) as { t: number };
+    expect(r.t).toBe(1.3);
+  });
+
+  it("reads a value at an event", () => {
+    expect(runTool(ctx, { tool: "value_at", args: { channel: KNEE, at: "footPlant" } })).toEqual({
+      channel: { id: KNEE, label: "Left Knee speed", unit: "m/s" },
+      t: 1.1,
+      value: 1.839,
+    });
+  });
+
+  it("puts peaks in order, with the gaps between them", () => {
+    const r = runTool(ctx, { tool: "compare", args: { channels: ["left knee speed", "pelvis rotation"] } });
+    expect(r).toMatchObject({ peakOrder: [PELVIS, KNEE], gaps: [{ from: PELVIS, to: KNEE, dt: 0.2 }] });
+  });
+
+  it("compares a channel with the other session, each on its own clock", () => {
+    const r = runTool(ctx, { tool: "compare_sessions", args: { channel: "left knee speed", at: "foot plant" } });
+    expect(r).toMatchObject({
+      kind: "abs",
+      sessions: [
+        { session: "this session", peak: { value: 5, t: 1.2, sinceEvents: { "Foot plant": 0.1 } }, at: 1.1, valueAt: 1.839 },
+        { session: "2025-08-20", peak: { value: 4.5, t: 1.25, sinceEvents: { "Foot plant": 0.05 } }, at: 1.2, valueAt: 3.505 },
+      ],
+      change: { peak: 0.5, valueAt: -1.666 },
+    });
+  });
+
+  it("compares only the same channel, never a near match in the other session", () => {
+    // the other capture has the right knee where this one has the left
+    const rightKnee = (r: Row) => Object.fromEntries(Object.entries(r).map(([k, v]) => [k.replace("LeftKnee", "RightKnee"), v]));
+    const swapped = { ...other, sets: { Joint: other.sets.Joint.map(rightKnee) } };
+    const r = runTool({ ...ctx, other: swapped }, { tool: "compare_sessions", args: { channel: KNEE } });
+    expect(r).toEqual({ error: `2025-08-20 has no channel ${KNEE} to compare with` });
+  });
+
+  it("reports bad arguments as errors the model can read", () => {
+    const error = (call: Parameters<typeof runTool>[1]) => (runTool(ctx, call) as { error?: string }).error;
+    expect(error({ tool: "peak", args: { channel: "elbow flux" } })).toBe('No channel matches "elbow flux"; try find_channels');
+    expect(error({ tool: "value_at", args: { channel: KNEE, at: "windup" } })).toBe('Unknown event "windup"');
+    expect(error({ tool: "value_at", args: { channel: KNEE, at: "contact" } })).toBe('"Contact" was not detected in this session');
+    expect(error({ tool: "compare", args: { channels: [KNEE] } })).toBe("compare needs at least two channels");
+    expect(error({ tool: "compare_sessions", args: { channel: KNEE, at: 1.1 } })).toMatch(/must be an event id/);
+    expect((runTool({ ...ctx, other: null }, { tool: "compare_sessions", args: { channel: KNEE } }) as { error: string }).error).toMatch(
+      /No other session is loaded/
+    );
+    expect(error({ tool: "argmax" })).toBe('Unknown tool "argmax"');
+  });
+});
+
+describe("askSession with the offline answerer", () => {
+  it("answers a peak question from a peak and the events", async () => {
+    const { answer, steps } = await ask("When did the left knee hit peak velocity relative to foot plant?");
+    expect(steps.map((s) => s.calls.map((c) => c.tool))).toEqual([["peak", "events"]]);
+    expect(answer).toBe(
+      `[Left Knee speed](#channel=${encodeURIComponent(KNEE)}) peaked at **5 m/s** at [1.200 s](#t=1.200), 100 ms after foot plant.`
+    );
+  });
+
+  it("answers a value at an event", async () => {
+    const { answer, steps } = await ask("What was the left knee speed at foot plant?");
+    expect(steps[0].calls).toEqual([{ tool: "value_at", args: { channel: "left knee speed", at: "footPlant" } }]);
+    expect(answer).toContain("was **1.84 m/s** at [1.100 s](#t=1.100)");
+  });
+
+  it("answers which peak came first", async () => {
+    const { answer } = await ask("Did the pelvis rotation velocity peak before the left knee speed?");
+    expect(answer).toContain("Left Knee speed peaked 200 ms after Pelvis Twist Velocity.");
+  });
+
+  it("compares with the other session", async () => {
+    const { answer, steps } = await ask("How did the left knee speed at foot plant change from the other session?");
+    expect(steps[0].calls[0]).toMatchObject({ tool: "compare_sessions", args: { at: "footPlant" } });
+    expect(answer.split("\n")).toEqual([
+      `[Left Knee speed](#channel=${encodeURIComponent(KNEE)}), this session against 2025-08-20:`,
+      "- This session: peak **5 m/s** at [1.200 s](#t=1.200); 1.84 m/s at [1.100 s](#t=1.100)",
+      "- 2025-08-20: peak **4.5 m/s** at 1.250 s; 3.5 m/s at 1.200 s",
+      "",
+      "Change: peak +0.5 m/s, at the event -1.67 m/s.",
+    ]);
+  });
+
+  it("says what went wrong when a lookup fails", async () => {
+    const { answer } = await ask("What was the elbow flux at foot plant?");
+    expect(answer).toBe('Couldn\'t look that up: No channel matches "elbow flux"; try find_channels.');
+  });
+});
+
+describe("askSession", () => {
+  /** A model that looks the channel up first, then reads it at foot plant using the id it got back. */
+  function twoStepModel(messages: ChatMessage[]): string {
+    const results = messages.filter((m) => m.content.startsWith("Tool results:"));
+    if (!results.length) return '```tool\n[{ "tool": "find_channels", "args": { "query": "left knee speed", "limit": 1 } }]\n```';
+    const last = JSON.parse(/```json\s*\n([\s\S]*?)```/.exec(results[results.length - 1].content)![1]);
+    if (results.length === 1) {
+      const id = last[0].result.channels[0].id;
+      return `Looking it up.\n\`\`\`tool\n${JSON.stringify([{ tool: "value_at", args: { channel: id, at: "footPlant" } }])}\n\`\`\``;
+    }
+    return `It was ${last[0].result.value} ${last[0].result.channel.unit}.`;
+  }
+
+  it("runs rounds of lookups until the model answers", async () => {
+    const seen: QAStep[] = [];
+    const { answer, steps } = await askSession(offlineProvider(twoStepModel), ctx, [], "Left knee speed at foot plant?", {
+      onStep: (s) => seen.push(s),
+    });
+    expect(answer).toBe("It was 1.839 m/s.");
+    expect(steps.map((s) => s.calls[0].tool)).toEqual(["find_channels", "value_at"]);
+    expect(steps[1].calls[0].args).toEqual({ channel: KNEE, at: "footPlant" });
+    expect(seen).toEqual(steps);
+  });
+
+  it("keeps earlier turns for follow-ups", async () => {
+    const history: ChatMessage[] = [
+      { role: "user", content: "Show me the metrics" },
+      { role: "assistant", content: "No metrics could be computed for this session." },
+    ];
+    let sent: ChatMessage[] = [];
+    await askSession(offlineProvider((m) => ((sent = m), "Fine.")), ctx, history, "And the events?");
+    expect(sent.slice(1)).toEqual([...history, { role: "user", content: "And the events?" }]);
+  });
+
+  it("gives up when the model never stops looking things up", async () => {
+    const endless = offlineProvider(() => '```tool\n[{ "tool": "events" }]\n```');
+    await expect(askSession(endless, ctx, [], "?")).rejects.toThrow("No answer after several rounds of lookups");
+  });
+});
@@ -0,0 +1,252 @@
+// src/utils/qa.ts
+import type { ChatMessage, CompletionOptions, LLMProvider } from "./ai";
+import { QUERY_TOOLS, runTool } from "./dataQuery";
+import type { QueryContext, ToolCall } from "./dataQuery";
+import { eventStyle } from "./events";
+import type { EventId } from "./events";
+
+/**
+ * Questions about the loaded session, answered from its data: the model
+ * plans lookups as tool calls (a ```tool block of JSON), we run them with
+ * dataQuery and send the results back, until it answers in prose. The
+ * protocol is plain text so any provider can take part, including the
+ * rule-based offline answerer below.
+ */
+
+/** One round of lookups the model asked for. */
+export type QAStep = { calls: ToolCall[]; results: unknown[] };
+
+export type QAResult = { answer: string; steps: QAStep[] };
+
+/** Rounds of tool calls before giving up on an answer. */
+const MAX_ROUNDS = 4;
+const RESULTS_HEADER = "Tool results:";
+
+function systemPrompt(): string {
+  const tools = QUERY_TOOLS.map((t) => `- ${t.name} ${t.args}: ${t.description}`).join("\n");
+  return `You answer a baseball coach's questions about one motion capture session, using only data you look up with these tools:
+${tools}
+
+Event ids: footLift, footPlant, maxSeparation, contact (hitters), release (pitchers), followThrough.
+Times are seconds from the start of the capture, the same clock for events and channels.
+compare_sessions also reports the other session's times, on its own clock: quote them, but don't link them.
+
+To look something up, reply with only a fenced block tagged "tool" holding a JSON array of calls, e.g.
+\`\`\`tool
+[{ "tool": "find_channels", "args": { "query": "left knee speed" } }]
+\`\`\`
+You will get the results back. Look up channel ids with find_channels unless you already have them.
+
+When you can answer, reply in short markdown without a tool block. Quote the numbers with units, and link:
+- a moment as [0.812 s](#t=0.812)
+- a channel as [its label](#channel=<channel id>)
+Never guess a value you did not look up; say what is missing instead.`;
+}
+
+function parseCalls(text: string): ToolCall[] | null {
+  const m = /```tool\s*\n([\s\S]*?)```/.exec(text);
+  if (!m) return null;
+  try {
+    const parsed = JSON.parse(m[1]);
+    const list = Array.isArray(parsed) ? parsed : [parsed];
+    return list.filter((c): c is ToolCall => !!c && typeof c.tool === "string");
+  } catch {
+    return [];
+  }
+}
+
+function resultsMessage(calls: ToolCall[], results: unknown[]): string {
+  return `${RESULTS_HEADER}\n\`\`\`json\n${JSON.stringify(
+    calls.map((c, i) => ({ tool: c.tool, args: c.args ?? {}, result: results[i] })),
+    null,
+    1
+  )}\n\`\`\``;
+}
+
+/**
+ * Answer `question`, with `history` (earlier questions and answers) for
+ * follow-ups. `onStep` reports each round of lookups as it completes.
+ */
+export async function askSession(
+  provider: LLMProvider,
+  ctx: QueryContext,
+  history: ChatMessage[],
+  question: string,
+  options: CompletionOptions & { onStep?: (step: QAStep) => void } = {}
+): Promise<QAResult> {
+  const { onStep, ...completion } = options;
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt() },
+    ...history,
+    { role: "user", content: question },
+  ];
+  const steps: QAStep[] = [];
+
+  for (let round = 0; round <= MAX_ROUNDS; round++) {
+    const reply = await provider.complete(messages, { temperature: 0, ...completion });
+    const calls = parseCalls(reply);
+    if (calls == null) return { answer: reply.trim(), steps };
+    if (round === MAX_ROUNDS) break;
+    const results = calls.length ? calls.map((c) => runTool(ctx, c)) : [{ error: "The tool block was not a JSON array of calls" }];
+    const step = { calls, results };
+    steps.push(step);
+    onStep?.(step);
+    messages.push({ role: "assistant", content: reply }, { role: "user", content: resultsMessage(calls, results) });
+  }
+  throw new Error("No answer after several rounds of lookups");
+}
+
+/* ------------------------------------------------------------------ */
+/* Offline answerer                                                    */
+/* ------------------------------------------------------------------ */
+
+const EVENT_WORDS: Array<[RegExp, EventId]> = [
+  [/\b(foot|leg)[ -]?lift\b|\blift\b/i, "footLift"],
+  [/\b(foot[ -]?plant|plant|landing|foot strike)\b/i, "footPlant"],
+  [/\bmax(?:imum)? (?:hip[ –-]shoulder )?separation\b/i, "maxSeparation"],
+  [/\bcontact\b/i, "contact"],
+  [/\brelease\b/i, "release"],
+  [/\bfollow[ -]?through\b/i, "followThrough"],
+];
+
+/** Words that shape the question rather than name a channel. */
+const FILLER =
+  /\b(when|what|whats|what's|did|does|do|is|was|the|a|an|of|his|her|their|my|at|to|in|on|by|hit|reach|reached|reaches|peak|peaks|max|maximum|highest|top|min|minimum|lowest|value|relative|compared?|compare|versus|vs|before|after|and|time|how|much|fast|happen|happened|occur|session|this|show|me|tell|about|during|between|are|were|which|where|all|list|than|previous|last|other|earlier|sessions|with)\b/gi;
+
+/** A question about how this session differs from another one. */
+const OTHER_SESSION = /\b(?:previous|last|other|earlier|compared?) session\b|\bsessions\b/i;
+
+function eventsIn(text: string): EventId[] {
+  return EVENT_WORDS.filter(([re]) => re.test(text)).map(([, id]) => id);
+}
+
+function channelPhrase(text: string): string {
+  let s = text;
+  for (const [re] of EVENT_WORDS) s = s.replace(new RegExp(re.source, "gi"), " ");
+  return s.replace(FILLER, " ").replace(/[^\w\s-]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** The lookups a question calls for, by keyword. */
+function planCalls(question: string): ToolCall[] {
+  const q = question.toLowerCase();
+  const events = eventsIn(q);
+  if (/\bmetrics?\b|\bsummar/.test(q)) return [{ tool: "metrics" }];
+  if (/\b(events?|phases?)\b/.test(q)) return [{ tool: "events" }];
+  if (OTHER_SESSION.test(q)) {
+    const channel = channelPhrase(question.replace(new RegExp(OTHER_SESSION.source, "gi"), " "));
+    const kind = /\b(min|minimum|lowest)\b/.test(q) ? "min" : "abs";
+    if (channel) return [{ tool: "compare_sessions", args: { channel, kind, ...(events[0] ? { at: events[0] } : {}) } }];
+  }
+  const split = /\b(?:vs\.?|versus|compared? (?:to|with)|and|before|after|than)\b/i;
+  if (/\b(compare|vs\.?|versus|before|first|order)\b/.test(q) && split.test(q)) {
+    const parts = question.split(split).map(channelPhrase).filter(Boolean);
+    if (parts.length >= 2) return [{ tool: "compare", args: { channels: parts, ...(events[0] ? { at: events[0] } : {}) } }];
+  }
+  const channel = channelPhrase(question);
+  if (!channel) return [{ tool: "events" }];
+  if (events.length && !/\b(peak|max|maximum|highest|top|fastest|min|minimum|lowest)\b/.test(q)) {
+    return [{ tool: "value_at", args: { channel, at: events[0] } }];
+  }
+  const kind = /\b(min|minimum|lowest)\b/.test(q) ? "min" : "abs";
+  return [{ tool: "peak", args: { channel, kind } }, { tool: "events" }];
+}
+
+type Described = { id: string; label: string; unit: string };
+type Entry = { tool: string; args: Record<string, unknown>; result: Record<string, unknown> };
+
+const num = (v: unknown, digits = 2) => (typeof v === "number" ? Number(v.toFixed(digits)).toString() : "?");
+const at = (t: unknown) => (typeof t === "number" ? `[${t.toFixed(3)} s](#t=${t.toFixed(3)})` : "?");
+const channelLink = (c: Described) => `[${c.label}](#channel=${encodeURIComponent(c.id)})`;
+const ms = (dt: number) => `${Math.abs(Math.round(dt * 1000))} ms ${dt >= 0 ? "after" : "before"}`;
+
+function describeEntry(entry: Entry, question: string): string {
+  const r = entry.result;
+  if (typeof r.error === "string") return `Couldn't look that up: ${r.error}.`;
+  switch (entry.tool) {
+    case "peak": {
+      const ch = r.channel as Described;
+      const since = (r.sinceEvents ?? {}) as Record<string, number>;
+      const asked = eventsIn(question).map((id) => eventStyle(id).label);
+      const ref =
+        asked.find((l) => l in since) ??
+        Object.entries(since)
+          .filter(([, dt]) => dt >= 0)
+          .sort((a, b) => a[1] - b[1])[0]?.[0];
+      const rel = ref != null ? `, ${ms(since[ref])} ${ref.toLowerCase()}` : "";
+      const verb = r.kind === "min" ? "bottomed out" : "peaked";
+      return `${channelLink(ch)} ${verb} at **${num(r.value)} ${ch.unit}** at ${at(r.t)}${rel}.`;
+    }
+    case "value_at": {
+      const ch = r.channel as Described;
+      return `${channelLink(ch)} was **${num(r.value)} ${ch.unit}** at ${at(r.t)}.`;
+    }
+    case "compare": {
+      const rows = r.channels as Array<{ channel: Described; peak: { value: number; t: number }; valueAt?: number }>;
+      const byId = new Map(rows.map((x) => [x.channel.id, x.channel]));
+      const lines = rows.map(
+        (x) =>
+          `- ${channelLink(x.channel)}: peak **${num(x.peak.value)} ${x.channel.unit}** at ${at(x.peak.t)}` +
+          (x.valueAt != null ? `; ${num(x.valueAt)} ${x.channel.unit} at ${at(r.at)}` : "")
+      );
+      const gaps = (r.gaps as Array<{ from: string; to: string; dt: number }>).map(
+        (g) => `${byId.get(g.to)?.label} peaked ${ms(g.dt)} ${byId.get(g.from)?.label}`
+      );
+      return [...lines, "", `${gaps.join("; ")}.`].join("\n");
+    }
+    case "compare_sessions": {
+      const [mine, theirs] = r.sessions as Array<{
+        session: string;
+        channel: Described;
+        peak: { value: number; t: number };
+        at?: number;
+        valueAt?: number;
+      }>;
+      const unit = mine.channel.unit;
+      const change = r.change as { peak: number; valueAt?: number };
+      const signed = (x: number) => `${x > 0 ? "+" : ""}${num(x)} ${unit}`;
+      // only this session's times can seek the playhead
+      const line = (s: typeof mine, time: (t: unknown) => string) =>
+        `- ${s.session[0].toUpperCase()}${s.session.slice(1)}: peak **${num(s.peak.value)} ${unit}** at ${time(s.peak.t)}` +
+        (s.valueAt != null ? `; ${num(s.valueAt)} ${unit} at ${time(s.at)}` : "");
+      const plain = (t: unknown) => (typeof t === "number" ? `${t.toFixed(3)} s` : "?");
+      const diffs = [`peak ${signed(change.peak)}`, ...(change.valueAt != null ? [`at the event ${signed(change.valueAt)}`] : [])];
+      return [
+        `${channelLink(mine.channel)}, this session against ${theirs.session}:`,
+        line(mine, at),
+        line(theirs, plain),
+        "",
+        `Change: ${diffs.join(", ")}.`,
+      ].join("\n");
+    }
+    case "events": {
+      const list = r.events as Array<{ label: string; t: number }>;
+      return list.length ? list.map((e) => `- ${e.label}: ${at(e.t)}`).join("\n") : "No events were detected in this session.";
+    }
+    case "metrics": {
+      const list = r.metrics as Array<{ label: string; value: number; unit: string; t: number }>;
+      return list.length
+        ? list.map((m) => `- ${m.label}: **${m.value} ${m.unit}** (${at(m.t)})`).join("\n")
+        : "No metrics could be computed for this session.";
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Rule-based stand-in for a model (see `offlineProvider`): picks lookups by
+ * keyword, then words the results from templates. Deterministic, for
+ * working offline and for tests.
+ */
+export function offlineAnswer(messages: ChatMessage[]): string {
+  const last = messages[messages.length - 1];
+  const question = [...messages].reverse().find((m) => m.role === "user" && !m.content.startsWith(RESULTS_HEADER))?.content ?? "";
+  if (!last?.content.startsWith(RESULTS_HEADER)) {
+    return `\`\`\`tool\n${JSON.stringify(planCalls(question))}\n\`\`\``;
+  }
+  const json = /```json\s*\n([\s\S]*?)```/.exec(last.content)?.[1] ?? "[]";
+  const entries = JSON.parse(json) as Entry[];
+  // the events lookup only backs up a peak; don't list them all as well
+  const shown = entries.length > 1 ? entries.filter((e) => e.tool !== "events") : entries;
+  return shown.map((e) => describeEntry(e, question)).filter(Boolean).join("\n\n");
+}
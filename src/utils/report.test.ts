@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { isAbortError, offlineProvider } from "./ai";
+import type { EventDetection } from "./events";
+import type { SessionMetric } from "./metrics";
+import { generateReport, renderReportPdf, reportFacts, reportMessages } from "./report";
+import type { ReportChart, ReportInput } from "./report";
+import type { SegmentPeak, SequenceResult } from "./sequence";
+
+const metrics: SessionMetric[] = [
+  { id: "pelvisPeak", label: "Pelvis peak", group: "Peak velocity", value: 620, unit: "deg/s", digits: 0, t: 1.3, better: "higher" },
+  { id: "handPeak", label: "Hand peak", group: "Peak velocity", value: 18.24, unit: "m/s", digits: 1, t: 1.41, better: "higher" },
+  { id: "plantToStrike", label: "Plant to release", group: "Timing", value: 0.152, unit: "s", digits: 3, t: 1.386, better: "lower" },
+  { id: "strideLength", label: "Stride length", group: "Stride", value: 1.1, unit: "m", digits: 2, t: 1.234 },
+];
+
+const detection: EventDetection = {
+  movement: "pitcher",
+  leadSide: "Left",
+  duration: 3,
+  events: [
+    { id: "footPlant", label: "Foot plant", short: "FP", color: "#22c55e", t: 1.234 },
+    { id: "release", label: "Release", short: "R", color: "#ef4444", t: 1.386, manual: true },
+  ],
+};
+
+const segment = (id: SegmentPeak["id"], label: string, peakTime: number): SegmentPeak => ({
+  id,
+  label,
+  color: "#888",
+  kind: "angular",
+  unit: "deg/s",
+  signal: { t: [0, 1, 2], v: [0, 1, 0], source: [] },
+  sheet: "Segment Angular Velocity",
+  peakIndex: 1,
+  peakTime,
+  peakValue: 1,
+});
+
+const sequence: SequenceResult = {
+  segments: [segment("pelvis", "Pelvis", 1.3), segment("torso", "Torso", 1.345)],
+  order: ["pelvis", "torso"],
+  gaps: [{ from: "pelvis", to: "torso", dt: 0.045 }],
+  inOrder: true,
+  duration: 3,
+};
+
+const input: ReportInput = {
+  player: "Sam Rivera",
+  session: "2025-08-31",
+  movement: "pitcher",
+  metrics,
+  detection,
+  sequence,
+  previous: {
+    session: "2025-08-20",
+    metrics: [
+      { ...metrics[0], value: 600 },
+      { ...metrics[2], value: 0.16 },
+      { ...metrics[3], value: 1.1 },
+    ],
+  },
+};
+
+/** The markdown sections of a report, by heading. */
+function sections(markdown: string): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  let current: string[] = [];
+  for (const line of markdown.split("\n")) {
+    const h = /^##\s+(.+)$/.exec(line);
+    if (h) out.set(h[1], (current = []));
+    else if (line.trim()) current.push(line);
+  }
+  return out;
+}
+
+describe("reportMessages", () => {
+  it("sends the instructions, then the session's facts", () => {
+    const [system, user] = reportMessages(input);
+    expect(system.role).toBe("system");
+    expect(system.content).toContain("Summary, Kinematic Sequence, Strengths, Areas to Improve, Recommendations");
+    expect(user).toEqual({ role: "user", content: reportFacts(input) });
+  });
+});
+
+describe("generateReport", () => {
+  it("gives the model the facts under the template's sections", async () => {
+    // the offline provider echoes what a model would have been given
+    const report = await generateReport(offlineProvider(), input);
+    const s = sections(report);
+
+    expect([...s.keys()]).toEqual(["Session", "Events", "Kinematic sequence", "Metrics", "Compared with previous session"]);
+    expect(s.get("Session")).toEqual(["- Player: Sam Rivera", "- Session: 2025-08-31", "- Movement: Pitcher"]);
+    expect(s.get("Events")).toEqual([
+      "Seconds from the start of the capture.",
+      "- Foot plant: 1.234 s",
+      "- Release: 1.386 s (placed by hand)",
+    ]);
+    expect(s.get("Kinematic sequence")).toEqual(["- Peak order: Pelvis → Torso (proximal to distal)", "- Pelvis → Torso: 45 ms"]);
+    expect(s.get("Metrics")).toEqual([
+      "### Peak velocity",
+      "- Pelvis peak: 620 deg/s",
+      "- Hand peak: 18.2 m/s",
+      "### Timing",
+      "- Plant to release: 0.152 s",
+      "### Stride",
+      "- Stride length: 1.10 m",
+    ]);
+    // hand peak has no previous value; stride length didn't change
+    expect(s.get("Compared with previous session")).toEqual([
+      "Previous session: 2025-08-20.",
+      "- Pelvis peak: 600 -> 620 deg/s (+20, better)",
+      "- Plant to release: 0.160 -> 0.152 s (-0.008, better)",
+      "- Stride length: 1.10 -> 1.10 m (0.00)",
+    ]);
+  });
+
+  it("leaves out what the session doesn't have", async () => {
+    const report = await generateReport(offlineProvider(), { ...input, detection: null, sequence: null, previous: null, metrics: [] });
+    expect([...sections(report).keys()]).toEqual(["Session"]);
+  });
+
+  it("unwraps a reply fenced as markdown", async () => {
+    const provider = offlineProvider(() => "```markdown\n## Summary\nGood session.\n```\n");
+    expect(await generateReport(provider, input)).toBe("## Summary\nGood session.");
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const err = await generateReport(offlineProvider(), input, { signal: controller.signal }).catch((e: unknown) => e);
+    expect(isAbortError(err)).toBe(true);
+  });
+});
+
+describe("renderReportPdf", () => {
+  const chart: ReportChart = {
+    title: "Segment speeds",
+    unit: "deg/s",
+    series: [{ label: "Pelvis", color: "#3b82f6", points: [0, 0.5, 1, 1.5, 2].map((t) => ({ t, v: 600 * Math.sin(t) })) }],
+    markers: detection.events.map(({ short, color, t }) => ({ short, color, t })),
+  };
+
+  it("lays the report out as a PDF", async () => {
+    const markdown = await generateReport(offlineProvider(), input);
+    const blob = await renderReportPdf({
+      markdown,
+      player: input.player,
+      session: input.session,
+      movement: input.movement,
+      metrics,
+      previous: input.previous,
+      charts: [chart],
+    });
+
+    expect(blob.size).toBeGreaterThan(1000);
+    const head = new TextDecoder().decode(new Uint8Array(await blob.arrayBuffer()).subarray(0, 5));
+    expect(head).toBe("%PDF-");
+  }, 30_000);
+});
@@ -0,0 +1,283 @@
+// src/utils/report.ts
+import { createElement } from "react";
+import type { ReactElement } from "react";
+import type { DocumentProps } from "@react-pdf/renderer";
+import type { ChatMessage, CompletionOptions, LLMProvider } from "./ai";
+import type { RowsBySheet } from "./excel";
+import { separationSignal } from "./events";
+import type { EventDetection, MotionEvent, MovementType } from "./events";
+import type { MetricGroup, SessionMetric } from "./metrics";
+import { normalizedCurve } from "./sequence";
+import type { SequenceResult } from "./sequence";
+
+/**
+ * Written session reports: the computed numbers are summarised as markdown
+ * facts, a language model turns them into a coach-facing write-up, and
+ * PDFReportTemplate lays that out as a PDF, with the metrics, charts and pose
+ * snapshots alongside. The model only ever sees the facts, never the raw
+ * workbook.
+ */
+
+/** The player's session before this one, for the comparison section. */
+export type PreviousSession = { session: string; metrics: SessionMetric[] };
+
+export type ReportInput = {
+  player: string;
+  session: string;
+  movement: MovementType;
+  metrics: SessionMetric[];
+  detection: EventDetection | null;
+  sequence: SequenceResult | null;
+  previous?: PreviousSession | null;
+};
+
+export type ChartSeries = { label: string; color: string; points: Array<{ t: number; v: number }> };
+
+/** One chart of the PDF: curves over Excel seconds, with the session's events marked. */
+export type ReportChart = {
+  title: string;
+  unit: string;
+  series: ChartSeries[];
+  markers: Array<Pick<MotionEvent, "short" | "color" | "t">>;
+};
+
+/** The 3D view at one event, as an image data URL. */
+export type ReportSnapshot = { label: string; t: number; image: string };
+
+const MOVEMENT_LABEL: Record<MovementType, string> = { pitcher: "Pitcher", hitter: "Hitter", unknown: "Unclassified" };
+const GROUP_ORDER: MetricGroup[] = ["Peak velocity", "Timing", "Stride", "Posture"];
+
+/** The session's numbers as markdown, under the headings the template renders. */
+export function reportFacts({ player, session, movement, metrics, detection, sequence, previous }: ReportInput): string {
+  const lines = ["## Session", `- Player: ${player}`, `- Session: ${session}`, `- Movement: ${MOVEMENT_LABEL[movement]}`];
+
+  if (detection?.events.length) {
+    lines.push("", "## Events", "Seconds from the start of the capture.");
+    for (const e of detection.events) lines.push(`- ${e.label}: ${e.t.toFixed(3)} s${e.manual ? " (placed by hand)" : ""}`);
+  }
+
+  if (sequence) {
+    const label = (id: string) => sequence.segments.find((s) => s.id === id)?.label ?? id;
+    lines.push(
+      "",
+      "## Kinematic sequence",
+      `- Peak order: ${sequence.order.map(label).join(" → ")} (${sequence.inOrder ? "proximal to distal" : "out of proximal-to-distal order"})`
+    );
+    for (const g of sequence.gaps) lines.push(`- ${label(g.from)} → ${label(g.to)}: ${Math.round(g.dt * 1000)} ms`);
+  }
+
+  if (metrics.length) {
+    lines.push("", "## Metrics");
+    for (const group of GROUP_ORDER) {
+      const inGroup = metrics.filter((m) => m.group === group);
+      if (!inGroup.length) continue;
+      lines.push("", `### ${group}`);
+      for (const m of inGroup) lines.push(`- ${m.label}: ${m.value.toFixed(m.digits)} ${m.unit}`);
+    }
+  }
+
+  const changes = previous ? metricChanges(metrics, previous.metrics) : [];
+  if (previous && changes.length) {
+    lines.push("", "## Compared with previous session", `Previous session: ${previous.session}.`);
+    for (const c of changes) {
+      const trend = c.improved == null ? "" : c.improved ? ", better" : ", worse";
+      lines.push(
+        `- ${c.metric.label}: ${c.before.toFixed(c.metric.digits)} -> ${c.metric.value.toFixed(c.metric.digits)} ${c.metric.unit} (${signed(c.change, c.metric.digits)}${trend})`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export type MetricChange = {
+  metric: SessionMetric;
+  /** the previous session's value */
+  before: number;
+  change: number;
+  /** null when neither direction counts as better, or nothing changed */
+  improved: boolean | null;
+};
+
+function signed(x: number, digits: number): string {
+  const s = x.toFixed(digits);
+  return x > 0 ? `+${s}` : s;
+}
+
+/** This session's metrics against the same metrics from `previous`; those it lacks are left out. */
+export function metricChanges(metrics: SessionMetric[], previous: SessionMetric[]): MetricChange[] {
+  const out: MetricChange[] = [];
+  for (const metric of metrics) {
+    const before = previous.find((p) => p.id === metric.id)?.value;
+    if (before == null) continue;
+    const change = metric.value - before;
+    const same = Math.abs(change) < 0.5 * 10 ** -metric.digits;
+    const improved = !metric.better || same ? null : (change > 0) === (metric.better === "higher");
+    out.push({ metric, before, change, improved });
+  }
+  return out;
+}
+
+/** The latest dated session before `session`, from the player's list; null for the first. */
+export function previousSessionOf<T extends { session: string }>(
+  sessions: T[],
+  session: string,
+  dateOf: (name: string) => number | null
+): T | null {
+  const at = dateOf(session);
+  if (at == null) return null;
+  let best: { s: T; date: number } | null = null;
+  for (const s of sessions) {
+    const date = dateOf(s.session);
+    if (date != null && date < at && (!best || date > best.date)) best = { s, date };
+  }
+  return best?.s ?? null;
+}
+
+/** Most points a chart curve keeps; enough for a page-wide line. */
+const CHART_POINTS = 200;
+
+/** Thin a curve to about `max` points, keeping each stretch's low and high so peaks survive. */
+function decimate(t: number[], v: number[], max = CHART_POINTS): Array<{ t: number; v: number }> {
+  const n = Math.min(t.length, v.length);
+  const points: Array<{ t: number; v: number }> = [];
+  const bucket = Math.max(1, Math.ceil((2 * n) / max));
+  for (let i = 0; i < n; i += bucket) {
+    let lo = -1;
+    let hi = -1;
+    for (let j = i; j < Math.min(n, i + bucket); j++) {
+      if (!Number.isFinite(v[j])) continue;
+      if (lo < 0 || v[j] < v[lo]) lo = j;
+      if (hi < 0 || v[j] > v[hi]) hi = j;
+    }
+    if (lo < 0) continue;
+    for (const j of lo === hi ? [lo] : [Math.min(lo, hi), Math.max(lo, hi)]) points.push({ t: t[j], v: v[j] });
+  }
+  return points;
+}
+
+/** The report's charts: the kinematic sequence, segment rotation speeds and hip–shoulder separation. */
+export function reportCharts(sets: RowsBySheet, detection: EventDetection | null, sequence: SequenceResult | null): ReportChart[] {
+  const markers = (detection?.events ?? []).map(({ short, color, t }) => ({ short, color, t }));
+  const charts: ReportChart[] = [];
+
+  if (sequence) {
+    charts.push({
+      title: "Kinematic sequence",
+      unit: "% of peak",
+      series: sequence.segments.map((seg) => ({
+        label: seg.label,
+        color: seg.color,
+        points: decimate(seg.signal.t, normalizedCurve(seg).map((x) => x * 100)),
+      })),
+      markers,
+    });
+    const angular = sequence.segments.filter((seg) => seg.kind === "angular");
+    if (angular.length) {
+      charts.push({
+        title: "Rotation speed",
+        unit: angular[0].unit,
+        series: angular.map((seg) => ({ label: seg.label, color: seg.color, points: decimate(seg.signal.t, seg.signal.v) })),
+        markers,
+      });
+    }
+  }
+
+  const separation = separationSignal(sets);
+  if (separation) {
+    charts.push({
+      title: "Hip–shoulder separation",
+      unit: "°",
+      series: [{ label: "Separation", color: "#c792ea", points: decimate(separation.t, separation.v) }],
+      markers,
+    });
+  }
+
+  return charts;
+}
+
+const SYSTEM_PROMPT = `You are a baseball biomechanist writing a session report for a coach and the player.
+You are given measured facts from one motion capture session. Use only those numbers: never invent values, norms or events that are not listed, and say so when something the report would normally cover is missing.
+
+Write markdown using only these elements:
+- "## " section headings, "### " subsection headings
+- paragraphs
+- "- " bullet points and "1. " numbered lists, nested by indenting two spaces
+- pipe tables, for numbers side by side
+- **bold** and *italic*
+
+Sections, in order: Summary, Kinematic Sequence, Strengths, Areas to Improve, Recommendations.
+When a previous session is given, add a Progress section before Recommendations on what changed since.
+Keep it under 600 words, concrete, and in plain language a player understands.`;
+
+export function reportMessages(input: ReportInput): ChatMessage[] {
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: reportFacts(input) },
+  ];
+}
+
+/** Models like to wrap the whole answer in a ```markdown fence. */
+function unfence(text: string): string {
+  const m = /^\s*```(?:markdown|md)?\s*\n([\s\S]*?)\n```\s*$/.exec(text);
+  return (m ? m[1] : text).trim();
+}
+
+/** Ask `provider` for the report text (markdown). */
+export async function generateReport(provider: LLMProvider, input: ReportInput, options?: CompletionOptions): Promise<string> {
+  return unfence(await provider.complete(reportMessages(input), options));
+}
+
+/** An image as a data URL for the PDF, or undefined when it can't be fetched. */
+export async function fetchDataUrl(url: string): Promise<string | undefined> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return undefined;
+    const blob = await res.blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/** The template's built-in Helvetica has no arrows or math signs; spell them out. */
+const PDF_GLYPHS: Record<string, string> = { "→": "->", "←": "<-", "≈": "~", "≥": ">=", "≤": "<=", "−": "-" };
+
+function pdfSafe(text: string): string {
+  return text.replace(/[→←≈≥≤−]/g, (c) => PDF_GLYPHS[c]);
+}
+
+/** Lay the report out with PDFReportTemplate. The PDF renderer is loaded on first use. */
+export async function renderReportPdf(report: {
+  markdown: string;
+  player: string;
+  session: string;
+  movement: MovementType;
+  logo?: string;
+  metrics?: SessionMetric[];
+  previous?: PreviousSession | null;
+  charts?: ReportChart[];
+  snapshots?: ReportSnapshot[];
+}): Promise<Blob> {
+  const [{ pdf }, { PDFReportTemplate }] = await Promise.all([
+    import("@react-pdf/renderer"),
+    import("../components/PDFReportTemplate"),
+  ]);
+  const doc = createElement(PDFReportTemplate, {
+    reportContent: pdfSafe(report.markdown),
+    playerName: report.player,
+    session: report.session,
+    playerType: report.movement,
+    logoBase64: report.logo,
+    metrics: report.metrics?.map((m) => ({ ...m, label: pdfSafe(m.label) })),
+    previous: report.previous,
+    charts: report.charts,
+    snapshots: report.snapshots,
+  }) as unknown as ReactElement<DocumentProps>;
+  return pdf(doc).toBlob();
+}
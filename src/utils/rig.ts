@@ -0,0 +1,121 @@
+// src/utils/rig.ts
+import * as THREE from "three";
+
+/** World-space positions of one point, sampled at a fixed rate from t = 0 (FBX seconds). */
+export type Track = {
+  fps: number;
+  /** xyz interleaved */
+  points: Float32Array;
+};
+
+/** What `FBXModel` exposes about a loaded, animated rig. */
+export type RigHandle = {
+  /** bone names in hierarchy order */
+  bones: string[];
+  /** clip duration (s) */
+  duration: number;
+  /** keyframe rate of the clip (Hz), null when it can't be told */
+  fps: number | null;
+  /** sample the named bones' world positions over the whole clip */
+  sample: (names: string[], fps: number) => Record<string, Track>;
+};
+
+/* ------------------------------------------------------------------ */
+/* Bones                                                               */
+/* ------------------------------------------------------------------ */
+
+export function listBones(root: THREE.Object3D): THREE.Bone[] {
+  const out: THREE.Bone[] = [];
+  root.traverse((obj) => {
+    if ((obj as THREE.Bone).isBone) out.push(obj as THREE.Bone);
+  });
+  return out;
+}
+
+/**
+ * The pelvis/hips bone: an exact `hips`/`pelvis` name if present, otherwise the
+ * root of the bone hierarchy (Rigify calls its hips bone `spine`).
+ */
+export function findPelvisBone(root: THREE.Object3D): THREE.Bone | null {
+  const bones = listBones(root);
+  return (
+    bones.find((b) => /^(mixamorig:)?(hips|pelvis)$/i.test(b.name)) ??
+    bones.find((b) => !(b.parent as THREE.Bone | null)?.isBone) ??
+    null
+  );
+}
+
+/**
+ * Step the mixer through the clip and record each named bone's world position.
+ * The caller is expected to restore the mixer's time afterwards.
+ */
+export function sampleRig(
+  root: THREE.Object3D,
+  mixer: THREE.AnimationMixer,
+  names: string[],
+  duration: number,
+  fps: number
+): Record<string, Track> {
+  const bones = listBones(root);
+  const wanted = names
+    .map((n) => [n, bones.find((b) => b.name === n)] as const)
+    .filter((e): e is readonly [string, THREE.Bone] => !!e[1]);
+  if (!wanted.length || duration <= 0) return {};
+
+  const n = Math.max(2, Math.floor(duration * fps) + 1);
+  const out: Record<string, Track> = {};
+  for (const [name] of wanted) out[name] = { fps, points: new Float32Array(n * 3) };
+
+  const p = new THREE.Vector3();
+  for (let i = 0; i < n; i++) {
+    mixer.setTime(Math.min(duration, i / fps));
+    root.updateMatrixWorld(true);
+    for (const [name, bone] of wanted) {
+      bone.getWorldPosition(p);
+      out[name].points.set([p.x, p.y, p.z], i * 3);
+    }
+  }
+  return out;
+}
+
+/* ------------------------------------------------------------------ */
+/* Tracks                                                              */
+/* ------------------------------------------------------------------ */
+
+export function trackLength(track: Track): number {
+  return track.points.length / 3;
+}
+
+/** Position at time t (nearest sample, clamped to the track). */
+export function trackAt(track: Track, t: number): [number, number, number] | null {
+  const n = trackLength(track);
+  if (!n) return null;
+  const i = Math.min(n - 1, Math.max(0, Math.round(t * track.fps)));
+  const q = track.points;
+  return [q[i * 3], q[i * 3 + 1], q[i * 3 + 2]];
+}
+
+/**
+ * Samples within [t0, t1], thinned to at most `maxPoints`. Each point carries
+ * its time so callers can fade by distance from the playhead.
+ */
+export function trackWindow(
+  track: Track,
+  t0: number,
+  t1: number,
+  maxPoints = 240
+): Array<{ t: number; p: [number, number, number] }> {
+  const n = trackLength(track);
+  if (!n || t1 < t0) return [];
+  const i0 = Math.max(0, Math.ceil(t0 * track.fps));
+  const i1 = Math.min(n - 1, Math.floor(t1 * track.fps));
+  if (i1 < i0) return [];
+  const stride = Math.max(1, Math.ceil((i1 - i0 + 1) / maxPoints));
+  const q = track.points;
+  const out: Array<{ t: number; p: [number, number, number] }> = [];
+  for (let i = i0; i <= i1; i += stride) {
+    if (!Number.isFinite(q[i * 3])) continue;
+    out.push({ t: i / track.fps, p: [q[i * 3], q[i * 3 + 1], q[i * 3 + 2]] });
+  }
+  return out;
+}
@@ -0,0 +1,54 @@
+// src/utils/roster.ts
+
+/**
+ * Cross-player ranking for the roster view: percentile ranks and outlier
+ * flags for one metric over a group of players (hitters and pitchers are
+ * ranked separately by the caller).
+ */
+
+/** Robust z-scores past this are flagged as outliers. */
+export const OUTLIER_Z = 3;
+/** Fewer players than this and nothing is flagged. */
+const MIN_FOR_OUTLIERS = 5;
+
+function median(vs: number[]): number {
+  const s = [...vs].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/**
+ * Percentile rank (0–100) of `v` within `values` (which include it): the
+ * share of the others it beats, ties counting half. "Beats" follows the
+ * metric's better direction, higher when it has none.
+ */
+export function percentileRank(values: number[], v: number, better: "higher" | "lower" = "higher"): number | null {
+  if (values.length < 2) return null;
+  let beaten = 0;
+  let equal = 0;
+  for (const x of values) {
+    if (x === v) equal++;
+    else if (better === "higher" ? x < v : x > v) beaten++;
+  }
+  return (100 * (beaten + (equal - 1) / 2)) / (values.length - 1);
+}
+
+/**
+ * Distance of `v` from the group median in robust standard deviations
+ * (1.4826 × median absolute deviation), signed. Null for small groups or
+ * when the spread is zero.
+ */
+export function robustZ(values: number[], v: number): number | null {
+  if (values.length < MIN_FOR_OUTLIERS) return null;
+  const med = median(values);
+  const mad = median(values.map((x) => Math.abs(x - med))) * 1.4826;
+  return mad > 0 ? (v - med) / mad : null;
+}
+
+/** `1` → `1st`, `12` → `12th`, `22` → `22nd`. */
+export function ordinal(n: number): string {
+  const r = Math.round(n);
+  const teen = r % 100 >= 11 && r % 100 <= 13;
+  const suffix = teen ? "th" : ["th", "st", "nd", "rd"][r % 10] ?? "th";
+  return `${r}${suffix}`;
+}
@@ -0,0 +1,270 @@
+// src/utils/sceneAlign.ts
+import type { Row, RowsBySheet } from "./excel";
+import { findSheet, findTriplet, sheetStart } from "./channels";
+import type { RigHandle, Track } from "./rig";
+import { estimateAlignment, toDataTime, toFbxTime } from "./timeAlign";
+import type { AlignmentEstimate, TimeAlignment, UniformSignal } from "./timeAlign";
+
+/**
+ * Rigid map from capture-data coordinates (metres, z up) into the 3D scene
+ * (y up): turn z-up into y-up, rotate about the vertical, then translate.
+ */
+export type DataToScene = {
+  theta: number;
+  tx: number;
+  ty: number;
+  tz: number;
+  /** RMS residual of the fit (m) */
+  error: number;
+};
+
+/**
+ * Fits worse than this are treated as "data and rig don't line up". Retargeted
+ * rigs match the address pose to a couple of centimetres but drift 20–50 cm
+ * from the raw joint centres mid-motion, so the bar is loose.
+ */
+const MAX_FIT_ERROR = 0.6;
+
+/** Joint centres in the Excel export and the rig bones whose heads sit on them. */
+const CORRESPONDENCES: Array<{ joint: string; bones: RegExp[] }> = [
+  { joint: "/Joint/Wrist/Left", bones: [/^hand[._]?l$/i, /^(mixamorig:)?lefthand$/i] },
+  { joint: "/Joint/Wrist/Right", bones: [/^hand[._]?r$/i, /^(mixamorig:)?righthand$/i] },
+  { joint: "/Joint/Elbow/Left", bones: [/^forearm[._]?l$/i, /^(mixamorig:)?leftforearm$/i] },
+  { joint: "/Joint/Elbow/Right", bones: [/^forearm[._]?r$/i, /^(mixamorig:)?rightforearm$/i] },
+  { joint: "/Joint/Knee/Left", bones: [/^shin[._]?l$/i, /^calf[._]?l$/i, /^(mixamorig:)?leftleg$/i] },
+  { joint: "/Joint/Knee/Right", bones: [/^shin[._]?r$/i, /^calf[._]?r$/i, /^(mixamorig:)?rightleg$/i] },
+  { joint: "/Joint/Ankle/Left", bones: [/^foot[._]?l$/i, /^(mixamorig:)?leftfoot$/i] },
+  { joint: "/Joint/Ankle/Right", bones: [/^foot[._]?r$/i, /^(mixamorig:)?rightfoot$/i] },
+];
+
+export function dataToScene(m: DataToScene, x: number, y: number, z: number): [number, number, number] {
+  // z-up → y-up: (x, y, z) → (x, z, -y)
+  const X = x;
+  const Z = -y;
+  const c = Math.cos(m.theta);
+  const s = Math.sin(m.theta);
+  return [c * X + s * Z + m.tx, z + m.ty, -s * X + c * Z + m.tz];
+}
+
+/** Excel time base shared by every sheet: the joint sheet's start and length (s). */
+export type DataClock = { t0: number; duration: number };
+
+export function jointRows(sets: RowsBySheet): Row[] | null {
+  const sheet = findSheet(sets, /joint.*position/i);
+  return sheet ? sets[sheet] : null;
+}
+
+export function dataClock(sets: RowsBySheet): DataClock | null {
+  const rows = jointRows(sets);
+  if (!rows || rows.length < 2) return null;
+  const t0 = sheetStart(rows);
+  const duration = rows[rows.length - 1].t - t0;
+  return duration > 0 ? { t0, duration } : null;
+}
+
+/** Joint triplets of the rows paired with the rig bones that sit on them. */
+export function matchJoints(rig: RigHandle, rows: Row[]): Array<{ keys: string[]; bone: string }> {
+  const matched: Array<{ keys: string[]; bone: string }> = [];
+  for (const c of CORRESPONDENCES) {
+    const keys = findTriplet(rows, c.joint);
+    const bone = c.bones.map((re) => rig.bones.find((b) => re.test(b))).find(Boolean);
+    if (keys && bone) matched.push({ keys, bone });
+  }
+  return matched;
+}
+
+/**
+ * Register the Excel joint centres onto the rig: matches wrists, elbows, knees
+ * and ankles to their bones over the clip (time mapped through `align`) and
+ * solves the vertical-axis rotation + translation in closed form.
+ * Returns null when too few joints match or the fit is poor.
+ */
+export function fitDataToRig(rig: RigHandle, sets: RowsBySheet, align: TimeAlignment): DataToScene | null {
+  const rows = jointRows(sets);
+  const clock = dataClock(sets);
+  if (!rows || !clock || rig.duration <= 0) return null;
+
+  const matched = matchJoints(rig, rows);
+  if (matched.length < 2) return null;
+
+  const tracks = rig.sample(
+    matched.map((m) => m.bone),
+    30
+  );
+  // pairs: a = data (already y-up), b = scene
+  const a: Array<[number, number, number]> = [];
+  const b: Array<[number, number, number]> = [];
+  const step = Math.max(1, Math.floor(rows.length / 40));
+  for (let i = 0; i < rows.length; i += step) {
+    const r = rows[i];
+    const tf = toFbxTime(align, r.t - clock.t0);
+    if (tf < 0 || tf > rig.duration) continue;
+    for (const m of matched) {
+      const [x, y, z] = m.keys.map((k) => r[k]);
+      const tr = tracks[m.bone];
+      if (!tr || ![x, y, z].every(Number.isFinite)) continue;
+      const j = Math.min(tr.points.length / 3 - 1, Math.round(tf * tr.fps));
+      a.push([x, z, -y]);
+      b.push([tr.points[j * 3], tr.points[j * 3 + 1], tr.points[j * 3 + 2]]);
+    }
+  }
+  if (a.length < 6) return null;
+
+  const mean = (pts: Array<[number, number, number]>) =>
+    pts.reduce((acc, p) => [acc[0] + p[0] / pts.length, acc[1] + p[1] / pts.length, acc[2] + p[2] / pts.length], [0, 0, 0]);
+  const ma = mean(a);
+  const mb = mean(b);
+
+  // rotation about y: maximise Σ b·R(a) over the horizontal components
+  let dot = 0;
+  let cross = 0;
+  for (let i = 0; i < a.length; i++) {
+    const ax = a[i][0] - ma[0], az = a[i][2] - ma[2];
+    const bx = b[i][0] - mb[0], bz = b[i][2] - mb[2];
+    dot += ax * bx + az * bz;
+    cross += az * bx - ax * bz;
+  }
+  const theta = Math.atan2(cross, dot);
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  const fit: DataToScene = {
+    theta,
+    tx: mb[0] - (c * ma[0] + s * ma[2]),
+    ty: mb[1] - ma[1],
+    tz: mb[2] - (-s * ma[0] + c * ma[2]),
+    error: 0,
+  };
+
+  let se = 0;
+  for (let i = 0; i < a.length; i++) {
+    const X = c * a[i][0] + s * a[i][2] + fit.tx;
+    const Y = a[i][1] + fit.ty;
+    const Z = -s * a[i][0] + c * a[i][2] + fit.tz;
+    se += (X - b[i][0]) ** 2 + (Y - b[i][1]) ** 2 + (Z - b[i][2]) ** 2;
+  }
+  fit.error = Math.sqrt(se / a.length);
+  return fit.error <= MAX_FIT_ERROR ? fit : null;
+}
+
+/** Sample rate the speed signals are compared at (Hz). */
+const ALIGN_FPS = 60;
+
+/** Speed (units/s) of an xyz track sampled at `fps`; NaN where a neighbour is missing. */
+function speedOf(points: ArrayLike<number>, fps: number): number[] {
+  const n = points.length / 3;
+  return Array.from({ length: n }, (_, i) => {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    if (a === b) return NaN;
+    const d = Math.hypot(
+      points[b * 3] - points[a * 3],
+      points[b * 3 + 1] - points[a * 3 + 1],
+      points[b * 3 + 2] - points[a * 3 + 2]
+    );
+    return (d * fps) / (b - a);
+  });
+}
+
+/** A data triplet resampled onto a uniform grid by linear interpolation (NaN across gaps > MAX_GAP). */
+function resampleTriplet(rows: Row[], keys: string[], t0: number, duration: number, fps: number): Float64Array {
+  const n = Math.floor(duration * fps) + 1;
+  const out = new Float64Array(n * 3).fill(NaN);
+  const pts = rows
+    .map((r) => ({ t: r.t - t0, p: keys.map((k) => r[k]) }))
+    .filter((x) => Number.isFinite(x.t) && x.p.every(Number.isFinite));
+  let j = 0;
+  for (let i = 0; i < n; i++) {
+    const t = i / fps;
+    while (j < pts.length - 2 && pts[j + 1].t < t) j++;
+    const a = pts[j];
+    const b = pts[j + 1];
+    if (!a || !b || t < a.t || t > b.t || b.t - a.t > MAX_GAP) continue;
+    const u = b.t > a.t ? (t - a.t) / (b.t - a.t) : 0;
+    for (let c = 0; c < 3; c++) out[i * 3 + c] = a.p[c] + (b.p[c] - a.p[c]) * u;
+  }
+  return out;
+}
+
+/**
+ * Estimate how the Excel clock maps onto the FBX clip by cross-correlating the
+ * summed speed of the matched joints (wrists, elbows, knees, ankles) in both.
+ * Speeds don't depend on where either system puts its origin or axes, so this
+ * works before the data is registered in space. Null without matching joints.
+ */
+export function estimateTimeAlignment(rig: RigHandle, sets: RowsBySheet): AlignmentEstimate | null {
+  const rows = jointRows(sets);
+  const clock = dataClock(sets);
+  if (!rows || !clock || rig.duration <= 0) return null;
+  const matched = matchJoints(rig, rows);
+  if (!matched.length) return null;
+
+  const tracks = rig.sample(
+    matched.map((m) => m.bone),
+    ALIGN_FPS
+  );
+  const heightOf = (points: ArrayLike<number>, axis: number) =>
+    Array.from({ length: points.length / 3 }, (_, i) => points[i * 3 + axis]);
+  const fbx: UniformSignal = { fps: ALIGN_FPS, channels: [] };
+  const data: UniformSignal = { fps: ALIGN_FPS, channels: [] };
+  for (const m of matched) {
+    const scene = tracks[m.bone].points;
+    const raw = resampleTriplet(rows, m.keys, clock.t0, clock.duration, ALIGN_FPS);
+    fbx.channels.push(speedOf(scene, ALIGN_FPS), heightOf(scene, 1));
+    data.channels.push(speedOf(raw, ALIGN_FPS), heightOf(raw, 2));
+  }
+  return estimateAlignment(fbx, data);
+}
+
+/** Longest hole in the data bridged by holding the previous point (s). */
+const MAX_GAP = 0.02;
+
+/** A timed point in capture-data coordinates (Excel seconds relative to the clock's start). */
+export type DataPoint = { t: number; p: [number, number, number] };
+
+/**
+ * Resample timed data points into a scene-space track on the FBX clock (Excel
+ * time mapped through `align`). Samples outside the points' own time span, or
+ * in gaps longer than `MAX_GAP`, stay NaN; otherwise the latest point at or
+ * before is used.
+ */
+export function pointsTrack(
+  pts: DataPoint[],
+  fit: DataToScene,
+  align: TimeAlignment,
+  fbxDuration: number,
+  fps = 120
+): Track | null {
+  if (pts.length < 2 || fbxDuration <= 0) return null;
+  const n = Math.max(2, Math.floor(fbxDuration * fps) + 1);
+  const points = new Float32Array(n * 3).fill(NaN);
+  const first = pts[0].t;
+  const last = pts[pts.length - 1].t;
+  let j = 0;
+  for (let i = 0; i < n; i++) {
+    const td = toDataTime(align, i / fps);
+    if (td < first || td > last) continue;
+    while (j < pts.length - 1 && pts[j + 1].t <= td) j++;
+    if (td - pts[j].t > MAX_GAP) continue;
+    const [x, y, z] = pts[j].p;
+    points.set(dataToScene(fit, x, y, z), i * 3);
+  }
+  return { fps, points };
+}
+
+/** `pointsTrack` for an x/y/z channel triplet of a sheet; rows missing a value are skipped. */
+export function dataTrack(
+  rows: Row[],
+  keys: string[],
+  fit: DataToScene,
+  clock: DataClock,
+  align: TimeAlignment,
+  fbxDuration: number,
+  fps = 120
+): Track | null {
+  const pts: DataPoint[] = [];
+  for (const r of rows) {
+    const p = keys.map((k) => r[k]) as [number, number, number];
+    if (p.every(Number.isFinite)) pts.push({ t: r.t - clock.t0, p });
+  }
+  return pointsTrack(pts, fit, align, fbxDuration, fps);
+}
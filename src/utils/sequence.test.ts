@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Row } from "./excel";
+import { analyzeSequence } from "./sequence";
+
+const bump = (t: number, at: number) => Math.exp(-(((t - at) / 0.05) ** 2));
+
+/** Samples at 100 Hz from `from` to `to` (Excel seconds, the export's shared Time column). */
+function sheet(from: number, to: number, row: (t: number) => Record<string, number>): Row[] {
+  const n = Math.round((to - from) * 100);
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const t = Number((from + i / 100).toFixed(2));
+    return { t, ...row(t) };
+  });
+}
+
+describe("analyzeSequence", () => {
+  // the computed sheet starts half a second into the capture; the joint sheet at its start
+  const sets = {
+    "Joint Positions": sheet(0, 2, (t) => ({
+      "/Joint/Wrist/Right_x_velocity": 20 * bump(t, 0.8),
+      "/Joint/Wrist/Right_y_velocity": 0,
+      "/Joint/Wrist/Right_z_velocity": 0,
+    })),
+    "Baseball Data": sheet(0.5, 2, (t) => ({
+      "/Calc/Pelvis/Twist/Velocity_x": 600 * bump(t, 1.0),
+      "/Calc/Shoulder/Twist/Velocity_x": 900 * bump(t, 1.1),
+    })),
+  };
+
+  it("times peaks from different sheets on the shared capture clock", () => {
+    const seq = analyzeSequence(sets)!;
+    const peak = (id: string) => seq.segments.find((s) => s.id === id)!.peakTime;
+    expect(peak("pelvis")).toBeCloseTo(1.0, 6);
+    expect(peak("torso")).toBeCloseTo(1.1, 6);
+    expect(peak("hand")).toBeCloseTo(0.8, 6);
+  });
+
+  it("orders the peaks by that clock", () => {
+    const seq = analyzeSequence(sets)!;
+    expect(seq.order).toEqual(["hand", "pelvis", "torso"]);
+    expect(seq.inOrder).toBe(false);
+    expect(seq.gaps.map((g) => Number(g.dt.toFixed(3)))).toEqual([0.2, 0.1]);
+  });
+
+  it("keeps the signals' samples on that clock", () => {
+    const pelvis = analyzeSequence(sets)!.segments.find((s) => s.id === "pelvis")!;
+    expect(pelvis.signal.t[0]).toBeCloseTo(0.5, 6);
+  });
+});
+
+describe("analyzeSequence joint fallbacks", () => {
+  // both wrists move; the left one faster and earlier
+  const sets = {
+    "Joint Positions": sheet(0, 2, (t) => ({
+      "/Joint/Pelvis_x_velocity": 2 * bump(t, 0.6),
+      "/Joint/Pelvis_y_velocity": 0,
+      "/Joint/Pelvis_z_velocity": 0,
+      "/Joint/Wrist/Left_x_velocity": 25 * bump(t, 0.7),
+      "/Joint/Wrist/Left_y_velocity": 0,
+      "/Joint/Wrist/Left_z_velocity": 0,
+      "/Joint/Wrist/Right_x_velocity": 20 * bump(t, 0.9),
+      "/Joint/Wrist/Right_y_velocity": 0,
+      "/Joint/Wrist/Right_z_velocity": 0,
+    })),
+  };
+  const hand = (leadSide?: "Left" | "Right" | null) => analyzeSequence(sets, leadSide)!.segments.find((s) => s.id === "hand")!;
+
+  it("reads the arm opposite the striding foot", () => {
+    expect(hand("Right").peakTime).toBeCloseTo(0.7, 6);
+    expect(hand("Right").signal.source[0]).toMatch(/Wrist\/Left/);
+    expect(hand("Left").peakTime).toBeCloseTo(0.9, 6);
+    expect(hand("Left").signal.source[0]).toMatch(/Wrist\/Right/);
+  });
+
+  it("takes the right arm when the stride is unknown", () => {
+    expect(hand(null).signal.source[0]).toMatch(/Wrist\/Right/);
+  });
+});
@@ -0,0 +1,222 @@
+// src/utils/sequence.ts
+import type { Row, RowsBySheet } from "./excel";
+import {
+  argMaxAbs,
+  captureStart,
+  channelSignal,
+  findChannel,
+  findSheet,
+  findTriplet,
+  magnitudeSignal,
+} from "./channels";
+import type { Signal } from "./channels";
+
+/* ------------------------------------------------------------------ */
+/* Types                                                               */
+/* ------------------------------------------------------------------ */
+
+export type SegmentId = "pelvis" | "torso" | "arm" | "hand";
+
+export type SegmentPeak = {
+  id: SegmentId;
+  label: string;
+  color: string;
+  kind: "angular" | "linear";
+  unit: string;
+  signal: Signal;
+  /** sheet the signal was read from */
+  sheet: string;
+  peakIndex: number;
+  /** Excel seconds on the capture clock (see `captureStart`), whichever sheet it came from */
+  peakTime: number;
+  /** signed value at the peak (largest magnitude) */
+  peakValue: number;
+};
+
+export type SequenceGap = { from: SegmentId; to: SegmentId; dt: number };
+
+export type SequenceResult = {
+  /** segments in proximal → distal order */
+  segments: SegmentPeak[];
+  /** segment ids sorted by peak time */
+  order: SegmentId[];
+  /** time between consecutive peaks, following `order` */
+  gaps: SequenceGap[];
+  /** true when peaks fire proximal → distal */
+  inOrder: boolean;
+  /** latest sample of any segment (Excel seconds, capture clock) */
+  duration: number;
+};
+
+/* ------------------------------------------------------------------ */
+/* Segment sources                                                     */
+/* ------------------------------------------------------------------ */
+
+type Source =
+  | { kind: "angular"; sheet: RegExp[]; channel: RegExp[] }
+  | { kind: "linear"; sheet: RegExp[]; base: RegExp[]; suffix: string }
+  /** a joint on both arms (`/Joint/<joint>/Left|Right`): the throwing/batting arm's is read */
+  | { kind: "arm"; sheet: RegExp[]; joint: string; suffix: string };
+
+type Side = "Left" | "Right";
+
+const CALC_SHEET = [/baseball.*data/i, /calc/i];
+const JOINT_SHEET = [/joint.*position/i];
+
+/**
+ * Candidate sources per segment, in order of preference. Angular velocities
+ * from the vendor's computed sheet win; joint-centre linear speeds are the fallback.
+ */
+const SEGMENTS: Array<{ id: SegmentId; label: string; color: string; sources: Source[] }> = [
+  {
+    id: "pelvis",
+    label: "Pelvis",
+    color: "#4fa3ff",
+    sources: [
+      { kind: "angular", sheet: CALC_SHEET, channel: [/\/Pelvis\/Twist\/Velocity/i] },
+      { kind: "linear", sheet: JOINT_SHEET, base: [/^\/Joint\/Pelvis$/i], suffix: "_velocity" },
+    ],
+  },
+  {
+    id: "torso",
+    label: "Torso",
+    color: "#3ddc97",
+    sources: [
+      { kind: "angular", sheet: CALC_SHEET, channel: [/\/Shoulder\/Twist\/Velocity/i, /\/Trunk.*Velocity/i] },
+      { kind: "linear", sheet: JOINT_SHEET, base: [/^\/Joint\/Torso$/i], suffix: "_velocity" },
+    ],
+  },
+  {
+    id: "arm",
+    label: "Arm",
+    color: "#f5c542",
+    sources: [
+      {
+        kind: "angular",
+        sheet: CALC_SHEET,
+        channel: [/\/Elbow\/Dominant\/FlexionExtension\/Velocity/i, /\/Shoulder\/Dominant\/Rotation\/Velocity/i],
+      },
+      { kind: "arm", sheet: JOINT_SHEET, joint: "Elbow", suffix: "_velocity" },
+    ],
+  },
+  {
+    id: "hand",
+    label: "Hand",
+    color: "#e5812b",
+    sources: [
+      { kind: "linear", sheet: CALC_SHEET, base: [/^\/Calc\/Wrist\/Dominant\/Velocity$/i], suffix: "" },
+      { kind: "arm", sheet: JOINT_SHEET, joint: "Wrist", suffix: "_velocity" },
+    ],
+  },
+];
+
+/** The vendor writes wrist velocity as `VelocityX_x` / `VelocityY_x` / `VelocityZ_x`. */
+function calcVectorKeys(rows: Row[], base: string): string[] | null {
+  if (!rows.length) return null;
+  const keys = ["X", "Y", "Z"].map((a) => `${base}${a}_x`);
+  return keys.every((k) => k in rows[0]) ? keys : null;
+}
+
+function baseKeys(rows: Row[], patterns: RegExp[], suffix: string): string[] | null {
+  if (!rows.length) return null;
+  const bases = new Set<string>();
+  for (const k of Object.keys(rows[0])) {
+    const m = /^(.*)_[xyzXYZ](_velocity)?$/.exec(k);
+    if (m) bases.add(m[1]);
+    const c = /^(.*Velocity)[XYZ]_x$/.exec(k);
+    if (c) bases.add(c[1]);
+  }
+  for (const re of patterns) {
+    for (const b of bases) {
+      if (!re.test(b)) continue;
+      const keys = suffix ? findTriplet(rows, b, suffix) : calcVectorKeys(rows, b);
+      if (keys) return keys;
+    }
+  }
+  return null;
+}
+
+function resolveSegment(
+  sets: RowsBySheet,
+  sources: Source[],
+  t0: number,
+  armSides: Side[]
+): { signal: Signal; sheet: string; kind: "angular" | "linear" } | null {
+  for (const source of sources) {
+    const src: Exclude<Source, { kind: "arm" }> = source.kind === "arm"
+      ? { ...source, kind: "linear", base: armSides.map((side) => new RegExp(`^/Joint/${source.joint}/${side}$`, "i")) }
+      : source;
+    const sheet = findSheet(sets, ...src.sheet);
+    if (!sheet) continue;
+    const rows = sets[sheet];
+    if (src.kind === "angular") {
+      const key = findChannel(rows, ...src.channel);
+      if (!key) continue;
+      const signal = channelSignal(rows, key, t0);
+      if (signal.v.length > 1) return { signal, sheet, kind: "angular" };
+    } else {
+      const keys = baseKeys(rows, src.base, src.suffix);
+      if (!keys) continue;
+      const signal = magnitudeSignal(rows, keys, t0);
+      if (signal.v.length > 1) return { signal, sheet, kind: "linear" };
+    }
+  }
+  return null;
+}
+
+/* ------------------------------------------------------------------ */
+/* Analyzer                                                            */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Find peak velocity for pelvis, torso, upper arm and hand, and report the
+ * order they fire in plus the gaps between them. Returns null when fewer than
+ * two segments can be resolved from the workbook.
+ *
+ * `leadSide` is the striding foot (see `EventDetection`); the arm and hand
+ * joint fallbacks read the other side. Unknown, either arm is taken, right first.
+ */
+export function analyzeSequence(sets: RowsBySheet, leadSide?: Side | null): SequenceResult | null {
+  const segments: SegmentPeak[] = [];
+  // segments come from different sheets: compare their peaks on one clock
+  const t0 = captureStart(sets);
+  const armSides: Side[] = leadSide === "Left" ? ["Right"] : leadSide === "Right" ? ["Left"] : ["Right", "Left"];
+
+  for (const seg of SEGMENTS) {
+    const hit = resolveSegment(sets, seg.sources, t0, armSides);
+    if (!hit) continue;
+    const idx = argMaxAbs(hit.signal.v);
+    if (idx < 0) continue;
+    segments.push({
+      id: seg.id,
+      label: seg.label,
+      color: seg.color,
+      kind: hit.kind,
+      unit: hit.kind === "angular" ? "°/s" : "m/s",
+      signal: hit.signal,
+      sheet: hit.sheet,
+      peakIndex: idx,
+      peakTime: hit.signal.t[idx],
+      peakValue: hit.signal.v[idx],
+    });
+  }
+
+  if (segments.length < 2) return null;
+
+  const sorted = [...segments].sort((a, b) => a.peakTime - b.peakTime);
+  const order = sorted.map((s) => s.id);
+  const gaps: SequenceGap[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    gaps.push({ from: sorted[i - 1].id, to: sorted[i].id, dt: sorted[i].peakTime - sorted[i - 1].peakTime });
+  }
+  const inOrder = segments.every((s, i) => order[i] === s.id);
+  const duration = Math.max(...segments.map((s) => s.signal.t[s.signal.t.length - 1] ?? 0));
+
+  return { segments, order, gaps, inOrder, duration };
+}
+
+/** |v| / |peak| so every segment plots on the same 0–1 scale. */
+export function normalizedCurve(seg: SegmentPeak): number[] {
+  const peak = Math.abs(seg.peakValue) || 1;
+  return seg.signal.v.map((x) => Math.abs(x) / peak);
+}
@@ -0,0 +1,142 @@
+// src/utils/timeAlign.ts
+
+/**
+ * Mapping between the Excel clock (seconds from the joint sheet's first
+ * sample, as on the graphs) and the FBX clip clock:
+ *
+ *   tFbx = offset + rate · tExcel
+ *
+ * `rate` covers captures whose animation was exported at a different frame
+ * rate than the data; `offset` covers clips trimmed differently at the start.
+ */
+export type TimeAlignment = { offset: number; rate: number };
+
+export const IDENTITY_ALIGNMENT: TimeAlignment = { offset: 0, rate: 1 };
+
+export function toFbxTime(a: TimeAlignment, tExcel: number): number {
+  return a.offset + a.rate * tExcel;
+}
+
+export function toDataTime(a: TimeAlignment, tFbx: number): number {
+  return (tFbx - a.offset) / a.rate;
+}
+
+/**
+ * The fallback when a session has no alignment: stretch the Excel span over
+ * the whole clip, so both start and end together.
+ */
+export function stretchAlignment(excelDuration: number, fbxDuration: number): TimeAlignment {
+  return excelDuration > 0 && fbxDuration > 0 ? { offset: 0, rate: fbxDuration / excelDuration } : IDENTITY_ALIGNMENT;
+}
+
+export function isValidAlignment(a: unknown): a is TimeAlignment {
+  const x = a as TimeAlignment | null;
+  return !!x && Number.isFinite(x.offset) && Number.isFinite(x.rate) && x.rate > 0;
+}
+
+/* ------------------------------------------------------------------ */
+/* Estimation                                                          */
+/* ------------------------------------------------------------------ */
+
+/** One or more channels sampled uniformly from t = 0. */
+export type UniformSignal = { fps: number; channels: number[][] };
+
+export type AlignmentEstimate = TimeAlignment & {
+  /** Pearson correlation of the two signals once aligned (−1…1) */
+  score: number;
+};
+
+/** Rates tried in the coarse pass: 0.25×–4× in ~2% steps. */
+const COARSE_RATES = Array.from({ length: 141 }, (_, i) => Math.pow(2, -2 + i / 35));
+/** Shortest overlap accepted, as a share of the shorter signal. */
+const MIN_OVERLAP = 0.6;
+
+function standardize(v: number[]): number[] {
+  const ok = v.filter(Number.isFinite);
+  if (ok.length < 2) return v.map(() => NaN);
+  const mean = ok.reduce((s, x) => s + x, 0) / ok.length;
+  const sd = Math.sqrt(ok.reduce((s, x) => s + (x - mean) ** 2, 0) / ok.length) || 1;
+  return v.map((x) => (x - mean) / sd);
+}
+
+const lengthOf = (s: UniformSignal) => (s.channels[0]?.length ?? 0) / s.fps;
+
+/** Mean correlation of fbx(t) with data((t − offset) / rate) over their overlap, channel by channel. */
+function correlation(fbx: UniformSignal, data: UniformSignal, a: TimeAlignment): number {
+  const len = fbx.channels[0].length;
+  const dataLen = data.channels[0].length;
+  const idx = new Int32Array(len);
+  let overlap = 0;
+  for (let i = 0; i < len; i++) {
+    const j = Math.round(toDataTime(a, i / fbx.fps) * data.fps);
+    idx[i] = j >= 0 && j < dataLen ? j : -1;
+    if (idx[i] >= 0) overlap++;
+  }
+  if (overlap / fbx.fps < MIN_OVERLAP * Math.min(lengthOf(fbx), lengthOf(data))) return -Infinity;
+
+  let total = 0;
+  for (let c = 0; c < fbx.channels.length; c++) {
+    const fx = fbx.channels[c];
+    const dy = data.channels[c];
+    let n = 0, sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+    for (let i = 0; i < len; i++) {
+      if (idx[i] < 0) continue;
+      const x = fx[i];
+      const y = dy[idx[i]];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      n++; sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+    }
+    const den = Math.sqrt((sxx - (sx * sx) / n) * (syy - (sy * sy) / n));
+    total += n > 2 && den > 0 ? (sxy - (sx * sy) / n) / den : 0;
+  }
+  return total / fbx.channels.length;
+}
+
+function bestOffset(
+  fbx: UniformSignal,
+  data: UniformSignal,
+  rate: number,
+  from: number,
+  to: number,
+  step: number
+): AlignmentEstimate {
+  let best: AlignmentEstimate = { offset: 0, rate, score: -Infinity };
+  for (let offset = from; offset <= to; offset += step) {
+    const score = correlation(fbx, data, { offset, rate });
+    if (score > best.score) best = { offset, rate, score };
+  }
+  return best;
+}
+
+/**
+ * Find the offset and rate that best line up two recordings of the same motion
+ * (e.g. a joint's speed from the rig and from the Excel export) by
+ * cross-correlation: a coarse search over rates and offsets, then a finer one
+ * around the winner. Null when the signals never overlap enough to compare.
+ */
+export function estimateAlignment(fbx: UniformSignal, data: UniformSignal): AlignmentEstimate | null {
+  if (!fbx.channels.length || fbx.channels.length !== data.channels.length) return null;
+  const f = { ...fbx, channels: fbx.channels.map(standardize) };
+  const d = { ...data, channels: data.channels.map(standardize) };
+  const fbxDur = lengthOf(f);
+  const dataDur = lengthOf(d);
+  if (fbxDur <= 0 || dataDur <= 0) return null;
+
+  const coarseStep = 1 / Math.min(f.fps, 60);
+  let best: AlignmentEstimate = { ...IDENTITY_ALIGNMENT, score: -Infinity };
+  for (const rate of COARSE_RATES) {
+    const hit = bestOffset(f, d, rate, -rate * dataDur, fbxDur, coarseStep);
+    if (hit.score > best.score) best = hit;
+  }
+  if (!Number.isFinite(best.score)) return null;
+
+  // refine: ±2% in rate, ±2 coarse steps in offset
+  const coarse = best;
+  const fineStep = 1 / Math.max(f.fps, d.fps);
+  for (let k = -20; k <= 20; k++) {
+    const rate = coarse.rate * (1 + k * 0.001);
+    const hit = bestOffset(f, d, rate, coarse.offset - 2 * coarseStep, coarse.offset + 2 * coarseStep, fineStep);
+    if (hit.score > best.score) best = hit;
+  }
+  return best;
+}
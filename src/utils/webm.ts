@@ -0,0 +1,172 @@
+// src/utils/webm.ts
+
+/**
+ * Just enough of a WebM (Matroska) writer to wrap the chunks a WebCodecs
+ * VideoEncoder produces into a playable, seekable file: one video track,
+ * SimpleBlocks grouped into clusters that start on keyframes, and cues.
+ * Everything is buffered in memory — fine for clips of a few seconds.
+ */
+
+export type WebMCodec = "V_VP8" | "V_VP9";
+
+export type WebMMuxer = {
+  /** `timestamp` in milliseconds from the start of the file, non-decreasing */
+  addFrame: (data: Uint8Array, timestamp: number, keyframe: boolean) => void;
+  /** `duration` in milliseconds (the last frame's end) */
+  finish: (duration: number) => Blob;
+};
+
+/* ------------------------------------------------------------------ */
+/* EBML encoding                                                       */
+/* ------------------------------------------------------------------ */
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+function concat(parts: Bytes[]): Bytes {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+/** Big-endian bytes of a non-negative integer (at least `min` of them). */
+function uintBytes(v: number, min = 1): Bytes {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(v % 256);
+    v = Math.floor(v / 256);
+  } while (v > 0 || bytes.length < min);
+  return new Uint8Array(bytes);
+}
+
+/** Element size as an EBML variable-length integer. */
+function vint(size: number): Bytes {
+  let len = 1;
+  while (len < 8 && size >= Math.pow(2, 7 * len) - 1) len++;
+  const bytes = uintBytes(size, len);
+  bytes[0] |= 0x80 >> (len - 1);
+  return bytes;
+}
+
+/** Element IDs carry their own length marker, so they're written as-is. */
+const el = (id: number, body: Bytes): Bytes => concat([uintBytes(id), vint(body.length), body]);
+const master = (id: number, children: Bytes[]) => el(id, concat(children));
+const uint = (id: number, v: number) => el(id, uintBytes(v));
+const str = (id: number, s: string) => el(id, new TextEncoder().encode(s));
+function float(id: number, v: number): Bytes {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, v);
+  return el(id, body);
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+/** Longest span a cluster may cover: block timecodes are signed 16-bit offsets. */
+const MAX_CLUSTER_SPAN = 30000;
+
+/* ------------------------------------------------------------------ */
+/* Muxer                                                               */
+/* ------------------------------------------------------------------ */
+
+export function createWebMMuxer({ codec, width, height }: { codec: WebMCodec; width: number; height: number }): WebMMuxer {
+  const clusters: Array<{ timecode: number; blocks: Bytes[] }> = [];
+
+  const addFrame = (data: Uint8Array, timestamp: number, keyframe: boolean) => {
+    const t = Math.max(0, Math.round(timestamp));
+    let cluster = clusters[clusters.length - 1];
+    if (!cluster || (keyframe && t > cluster.timecode) || t - cluster.timecode > MAX_CLUSTER_SPAN) {
+      cluster = { timecode: t, blocks: [] };
+      clusters.push(cluster);
+    }
+    const header = new Uint8Array(4);
+    header[0] = 0x81; // track 1
+    new DataView(header.buffer).setInt16(1, t - cluster.timecode);
+    header[3] = keyframe ? 0x80 : 0;
+    cluster.blocks.push(el(ID.SimpleBlock, concat([header, new Uint8Array(data)])));
+  };
+
+  const finish = (duration: number) => {
+    const header = master(ID.EBML, [
+      uint(ID.EBMLVersion, 1),
+      uint(ID.EBMLReadVersion, 1),
+      uint(ID.EBMLMaxIDLength, 4),
+      uint(ID.EBMLMaxSizeLength, 8),
+      str(ID.DocType, "webm"),
+      uint(ID.DocTypeVersion, 2),
+      uint(ID.DocTypeReadVersion, 2),
+    ]);
+    const info = master(ID.Info, [
+      uint(ID.TimecodeScale, 1_000_000), // ms
+      str(ID.MuxingApp, "motion-webapp"),
+      str(ID.WritingApp, "motion-webapp"),
+      float(ID.Duration, duration),
+    ]);
+    const tracks = master(ID.Tracks, [
+      master(ID.TrackEntry, [
+        uint(ID.TrackNumber, 1),
+        uint(ID.TrackUID, 1),
+        uint(ID.TrackType, 1), // video
+        uint(ID.FlagLacing, 0),
+        str(ID.CodecID, codec),
+        master(ID.Video, [uint(ID.PixelWidth, width), uint(ID.PixelHeight, height)]),
+      ]),
+    ]);
+
+    // cue positions are offsets from the start of the segment's payload
+    const body = clusters.map((c) => master(ID.Cluster, [uint(ID.Timecode, c.timecode), ...c.blocks]));
+    let pos = info.length + tracks.length;
+    const cues = master(
+      ID.Cues,
+      body.map((b, i) => {
+        const point = master(ID.CuePoint, [
+          uint(ID.CueTime, clusters[i].timecode),
+          master(ID.CueTrackPositions, [uint(ID.CueTrack, 1), uint(ID.CueClusterPosition, pos)]),
+        ]);
+        pos += b.length;
+        return point;
+      })
+    );
+
+    const segment = master(ID.Segment, [info, tracks, ...body, cues]);
+    return new Blob([header, segment], { type: "video/webm" });
+  };
+
+  return { addFrame, finish };
+}